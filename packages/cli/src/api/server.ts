@@ -5,11 +5,12 @@ import {
 	getEnvironmentByName,
 	getPortMappings,
 	getProjectsWithEnvironments,
-	updateEnvironmentStatus,
 } from "../db/database.js";
-import { startContainer, stopContainer } from "../docker/client.js";
-import { addRoute, ensureCaddyRunning, removeRoute } from "../tunnel/caddy.js";
-import { formatRouteId } from "../utils/envfiles.js";
+import { projectDriftCheck } from "../environments/drift.js";
+import {
+	startEnvironment,
+	stopEnvironment,
+} from "../environments/lifecycle.js";
 
 interface ProjectResponse {
 	id: number;
@@ -25,7 +26,10 @@ interface EnvironmentResponse {
 	branch: string;
 	status: string;
 	containerId: string | null;
+	errorMessage: string | null;
 	portMappings: PortMappingResponse[];
+	// Null when it could not be determined
+	configDrift: boolean | null;
 }
 
 interface PortMappingResponse {
@@ -59,7 +63,7 @@ export function startApiServer(): ReturnType<typeof Bun.serve> {
 
 			try {
 				if (req.method === "GET" && pathname === "/api/projects") {
-					return handleGetProjects();
+					return await handleGetProjects();
 				}
 
 				const envMatch = pathname.match(/^\/api\/environments\/([^/]+)$/);
@@ -99,32 +103,38 @@ export function startApiServer(): ReturnType<typeof Bun.serve> {
 	return server;
 }
 
-function handleGetProjects(): Response {
+async function handleGetProjects(): Promise<Response> {
 	const db = createDatabase();
 	try {
-		const projects = getProjectsWithEnvironments(db);
-
-		const response: ProjectResponse[] = projects.map((p) => ({
-			id: p.id,
-			name: p.name,
-			repoPath: p.repoPath,
-			status: p.status,
-			environments: p.environments.map((e) => {
+		const response: ProjectResponse[] = [];
+		for (const p of getProjectsWithEnvironments(db)) {
+			const environments: EnvironmentResponse[] = [];
+			const configDrifted = await projectDriftCheck(db, p);
+			for (const e of p.environments) {
 				const portMappings = getPortMappings(db, e.id);
-				return {
+				environments.push({
 					id: e.id,
 					name: e.name,
 					branch: e.branch,
 					status: e.status,
 					containerId: e.containerId,
+					errorMessage: e.errorMessage,
 					portMappings: portMappings.map((pm) => ({
 						containerPort: pm.containerPort,
 						hostPort: pm.hostPort,
 						hostname: pm.hostname,
 					})),
-				};
-			}),
-		}));
+					configDrift: await configDrifted(e),
+				});
+			}
+			response.push({
+				id: p.id,
+				name: p.name,
+				repoPath: p.repoPath,
+				status: p.status,
+				environments,
+			});
+		}
 
 		return Response.json(response, { headers: corsHeaders() });
 	} finally {
@@ -152,6 +162,7 @@ function handleGetEnvironment(envName: string): Response {
 				envFiles: envFiles.map((f) => ({
 					relativePath: f.relativePath,
 					content: f.content,
+					encoding: f.encoding,
 				})),
 				portMappings: portMappings.map((pm) => ({
 					containerPort: pm.containerPort,
@@ -184,15 +195,7 @@ async function handleStartEnvironment(envName: string): Promise<Response> {
 			);
 		}
 
-		await startContainer(environment.containerId);
-		updateEnvironmentStatus(db, environment.id, "running");
-
-		await ensureCaddyRunning();
-		const portMappings = getPortMappings(db, environment.id);
-		for (const pm of portMappings) {
-			const routeId = formatRouteId(`${envName}-${pm.containerPort}`);
-			await addRoute(routeId, pm.hostname, pm.hostPort);
-		}
+		await startEnvironment(db, environment);
 
 		return Response.json({ status: "started" }, { headers: corsHeaders() });
 	} finally {
@@ -218,14 +221,7 @@ async function handleStopEnvironment(envName: string): Promise<Response> {
 			);
 		}
 
-		await stopContainer(environment.containerId);
-		updateEnvironmentStatus(db, environment.id, "stopped");
-
-		const portMappings = getPortMappings(db, environment.id);
-		for (const pm of portMappings) {
-			const routeId = formatRouteId(`${envName}-${pm.containerPort}`);
-			await removeRoute(routeId);
-		}
+		await stopEnvironment(db, environment);
 
 		return Response.json({ status: "stopped" }, { headers: corsHeaders() });
 	} finally {
@@ -0,0 +1,197 @@
+import { describe, expect, test } from "bun:test";
+import { DevenvError } from "../../utils/errors.js";
+import {
+	type CommandSchema,
+	formatHelp,
+	formatUsage,
+	parseArgs,
+	toKebabCase,
+} from "../args.js";
+
+const createSchema: CommandSchema = {
+	name: "create",
+	description: "Create a new development environment",
+	flags: {
+		repo: {
+			type: "string",
+			description: "Path to the git repository",
+			placeholder: "path",
+			required: true,
+		},
+		branch: {
+			type: "string",
+			description: "Branch name",
+			short: "b",
+			multiple: true,
+		},
+		keepOnFailure: {
+			type: "boolean",
+			description: "Keep partial state on failure",
+		},
+	},
+};
+
+const branchSchema: CommandSchema = {
+	name: "branch",
+	description: "Branch an environment",
+	positionals: [
+		{ name: "envName", description: "Source", required: true },
+		{ name: "newBranch", description: "Target" },
+	],
+};
+
+function expectUsageError(fn: () => unknown, message: string): void {
+	try {
+		fn();
+		expect(true).toBe(false); // Should not reach here
+	} catch (error) {
+		expect(error).toBeInstanceOf(DevenvError);
+		expect((error as DevenvError).code).toBe("USAGE");
+		expect((error as DevenvError).message).toContain(message);
+	}
+}
+
+describe("toKebabCase", () => {
+	test("converts camelCase keys to flag names", () => {
+		expect(toKebabCase("keepOnFailure")).toBe("keep-on-failure");
+		expect(toKebabCase("repo")).toBe("repo");
+	});
+});
+
+describe("parseArgs", () => {
+	test("parses string, repeated and boolean flags", () => {
+		const { flags } = parseArgs(
+			createSchema,
+			["create"],
+			[
+				"--repo",
+				".",
+				"--branch",
+				"a",
+				"-b",
+				"b",
+				"--branch=c",
+				"--keep-on-failure",
+			],
+		);
+		expect(flags).toEqual({
+			repo: ".",
+			branch: ["a", "b", "c"],
+			keepOnFailure: true,
+		});
+	});
+
+	test("defaults unset flags", () => {
+		const { flags } = parseArgs(createSchema, ["create"], ["--repo", "."]);
+		expect(flags.branch).toEqual([]);
+		expect(flags.keepOnFailure).toBe(false);
+	});
+
+	test("rejects unknown flags", () => {
+		expectUsageError(
+			() => parseArgs(createSchema, ["create"], ["--repo", ".", "--nope"]),
+			"Unknown flag: --nope",
+		);
+	});
+
+	test("rejects missing required flags", () => {
+		expectUsageError(
+			() => parseArgs(createSchema, ["create"], []),
+			"Missing required flag: --repo",
+		);
+	});
+
+	test("rejects a string flag without a value", () => {
+		expectUsageError(
+			() => parseArgs(createSchema, ["create"], ["--repo"]),
+			"Flag --repo requires a value",
+		);
+	});
+
+	test("rejects a value on a boolean flag", () => {
+		expectUsageError(
+			() =>
+				parseArgs(
+					createSchema,
+					["create"],
+					["--repo", ".", "--keep-on-failure=yes"],
+				),
+			"does not take a value",
+		);
+	});
+
+	test("assigns positionals by name", () => {
+		const { args } = parseArgs(branchSchema, ["branch"], ["app-main", "feat"]);
+		expect(args).toEqual({ envName: "app-main", newBranch: "feat" });
+	});
+
+	test("leaves optional positionals undefined", () => {
+		const { args } = parseArgs(branchSchema, ["branch"], ["app-main"]);
+		expect(args).toEqual({ envName: "app-main", newBranch: undefined });
+	});
+
+	test("rejects missing and extra positionals", () => {
+		expectUsageError(
+			() => parseArgs(branchSchema, ["branch"], []),
+			"Missing required argument: <env-name>",
+		);
+		expectUsageError(
+			() => parseArgs(branchSchema, ["branch"], ["a", "b", "c"]),
+			"Unexpected argument: c",
+		);
+	});
+
+	test("treats everything after -- as positionals", () => {
+		const { args } = parseArgs(
+			branchSchema,
+			["branch"],
+			["--", "--weird", "-x"],
+		);
+		expect(args).toEqual({ envName: "--weird", newBranch: "-x" });
+	});
+
+	test("collects variadic positionals", () => {
+		const schema: CommandSchema = {
+			name: "run",
+			description: "Run",
+			positionals: [
+				{ name: "envName", description: "Env", required: true },
+				{ name: "command", description: "Command", variadic: true },
+			],
+		};
+		const { args } = parseArgs(schema, ["run"], ["app", "ls", "README.md"]);
+		expect(args).toEqual({ envName: "app", command: ["ls", "README.md"] });
+	});
+});
+
+describe("formatUsage", () => {
+	test("lists required flags, positionals and options", () => {
+		expect(formatUsage(createSchema, ["create"])).toBe(
+			"devenv create --repo <path> [options]",
+		);
+		expect(formatUsage(branchSchema, ["branch"])).toBe(
+			"devenv branch <env-name> [new-branch]",
+		);
+	});
+
+	test("shows a subcommand placeholder for command groups", () => {
+		const group: CommandSchema = {
+			name: "env",
+			description: "Env",
+			subcommands: [{ name: "list", description: "List" }],
+		};
+		expect(formatUsage(group, ["env"])).toBe("devenv env <subcommand>");
+	});
+});
+
+describe("formatHelp", () => {
+	test("documents every flag", () => {
+		const help = formatHelp(createSchema, ["create"]);
+		expect(help).toContain("--repo <path>");
+		expect(help).toContain("(required)");
+		expect(help).toContain("-b, --branch <value>");
+		expect(help).toContain("(repeatable)");
+		expect(help).toContain("--keep-on-failure");
+		expect(help).toContain("-h, --help");
+	});
+});
@@ -0,0 +1,19 @@
+import { describe, expect, test } from "bun:test";
+import { extractGlobalFlags } from "../index.js";
+
+describe("extractGlobalFlags", () => {
+	test("strips global flags anywhere before --", () => {
+		expect(
+			extractGlobalFlags(["list", "--verbose", "--json", "--", "--quiet"]),
+		).toEqual({
+			flags: { json: true, verbose: true, quiet: false },
+			rest: ["list", "--", "--quiet"],
+		});
+	});
+
+	test("rejects --verbose together with --quiet", () => {
+		expect(() => extractGlobalFlags(["--verbose", "--quiet", "list"])).toThrow(
+			"cannot be used together",
+		);
+	});
+});
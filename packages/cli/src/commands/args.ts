@@ -0,0 +1,285 @@
+import { DevenvError } from "../utils/errors.js";
+
+// What shell completion offers for a value: names looked up at completion
+// time, or a fallback to the shell's own path completion
+export type CompletionKind =
+	| "environment"
+	| "branch"
+	| "setting"
+	| "file"
+	| "directory";
+
+export interface FlagSpec {
+	type: "string" | "boolean";
+	description: string;
+	complete?: CompletionKind;
+	// Single-letter alias, e.g. "b" for -b
+	short?: string;
+	// Value name shown in help, e.g. "path" renders as --repo <path>
+	placeholder?: string;
+	required?: boolean;
+	// String flags only: collect every occurrence into an array
+	multiple?: boolean;
+}
+
+export interface PositionalSpec {
+	name: string;
+	description: string;
+	complete?: CompletionKind;
+	placeholder?: string;
+	required?: boolean;
+	// Collects all remaining arguments; must be the last positional
+	variadic?: boolean;
+}
+
+export type FlagSchema = Record<string, FlagSpec>;
+
+type FlagValue<S extends FlagSpec> = S extends { type: "boolean" }
+	? boolean
+	: S extends { multiple: true }
+		? string[]
+		: S extends { required: true }
+			? string
+			: string | undefined;
+
+export type ParsedFlags<F extends FlagSchema> = {
+	[K in keyof F]: FlagValue<F[K]>;
+};
+
+export type ParsedPositionals<P extends readonly PositionalSpec[]> = {
+	[S in P[number] as S["name"]]: S extends { variadic: true }
+		? string[]
+		: S extends { required: true }
+			? string
+			: string | undefined;
+};
+
+export interface CommandInput<
+	F extends FlagSchema,
+	P extends readonly PositionalSpec[],
+> {
+	flags: ParsedFlags<F>;
+	args: ParsedPositionals<P>;
+}
+
+// Type-erased form of CommandInput, as produced by parseArgs
+export interface ParsedInput {
+	flags: Record<string, string | boolean | string[] | undefined>;
+	args: Record<string, string | string[] | undefined>;
+}
+
+export interface CommandSchema {
+	name: string;
+	description: string;
+	// Left out of help output and completion
+	hidden?: boolean;
+	flags?: FlagSchema;
+	positionals?: readonly PositionalSpec[];
+	subcommands?: readonly CommandSchema[];
+}
+
+// Flag keys are camelCase in code and kebab-case on the command line:
+// keepOnFailure <-> --keep-on-failure
+export function toKebabCase(name: string): string {
+	return name.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+}
+
+function displayName(spec: PositionalSpec): string {
+	return spec.placeholder ?? toKebabCase(spec.name);
+}
+
+function formatFlag(key: string, spec: FlagSpec): string {
+	const short = spec.short ? `-${spec.short}, ` : "";
+	const value =
+		spec.type === "string" ? ` <${spec.placeholder ?? "value"}>` : "";
+	return `${short}--${toKebabCase(key)}${value}`;
+}
+
+function formatPositional(spec: PositionalSpec): string {
+	const name = spec.variadic ? `${displayName(spec)}...` : displayName(spec);
+	return spec.required ? `<${name}>` : `[${name}]`;
+}
+
+export function formatUsage(command: CommandSchema, path: string[]): string {
+	const parts = ["devenv", ...path];
+	if (command.subcommands) {
+		parts.push("<subcommand>");
+		return parts.join(" ");
+	}
+	for (const [key, spec] of Object.entries(command.flags ?? {})) {
+		if (spec.required) {
+			parts.push(formatFlag(key, spec));
+		}
+	}
+	for (const spec of command.positionals ?? []) {
+		parts.push(formatPositional(spec));
+	}
+	if (Object.values(command.flags ?? {}).some((spec) => !spec.required)) {
+		parts.push("[options]");
+	}
+	return parts.join(" ");
+}
+
+export function formatHelp(command: CommandSchema, path: string[]): string {
+	const lines = [
+		command.description,
+		"",
+		`Usage: ${formatUsage(command, path)}`,
+	];
+
+	if (command.subcommands) {
+		lines.push("", "Subcommands:");
+		for (const sub of command.subcommands) {
+			lines.push(`  ${sub.name.padEnd(20)} ${sub.description}`);
+		}
+		lines.push(
+			"",
+			`Run "devenv ${path.join(" ")} <subcommand> --help" for subcommand usage.`,
+		);
+		return lines.join("\n");
+	}
+
+	const positionals = command.positionals ?? [];
+	if (positionals.length > 0) {
+		lines.push("", "Arguments:");
+		for (const spec of positionals) {
+			lines.push(`  ${formatPositional(spec).padEnd(24)} ${spec.description}`);
+		}
+	}
+
+	lines.push("", "Options:");
+	for (const [key, spec] of Object.entries(command.flags ?? {})) {
+		const required = spec.required ? " (required)" : "";
+		const repeat = spec.multiple ? " (repeatable)" : "";
+		lines.push(
+			`  ${formatFlag(key, spec).padEnd(24)} ${spec.description}${required}${repeat}`,
+		);
+	}
+	lines.push(`  ${"-h, --help".padEnd(24)} Show this help message`);
+
+	return lines.join("\n");
+}
+
+function usageFailure(
+	message: string,
+	command: CommandSchema,
+	path: string[],
+): DevenvError {
+	return new DevenvError(
+		"USAGE",
+		`${message}\nUsage: ${formatUsage(command, path)}\nRun "devenv ${path.join(" ")} --help" for usage.`,
+	);
+}
+
+export function parseArgs(
+	command: CommandSchema,
+	path: string[],
+	argv: string[],
+): ParsedInput {
+	const schema = command.flags ?? {};
+	const byName = new Map<string, string>();
+	const byShort = new Map<string, string>();
+	for (const [key, spec] of Object.entries(schema)) {
+		byName.set(toKebabCase(key), key);
+		if (spec.short) {
+			byShort.set(spec.short, key);
+		}
+	}
+
+	const flags: ParsedInput["flags"] = {};
+	for (const [key, spec] of Object.entries(schema)) {
+		flags[key] =
+			spec.type === "boolean" ? false : spec.multiple ? [] : undefined;
+	}
+
+	const rest: string[] = [];
+	let onlyPositionals = false;
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i] as string;
+
+		if (onlyPositionals || !arg.startsWith("-") || arg === "-") {
+			rest.push(arg);
+			continue;
+		}
+		if (arg === "--") {
+			onlyPositionals = true;
+			continue;
+		}
+
+		let name: string;
+		let inlineValue: string | undefined;
+		let key: string | undefined;
+		if (arg.startsWith("--")) {
+			const equalsIndex = arg.indexOf("=");
+			name = equalsIndex === -1 ? arg.slice(2) : arg.slice(2, equalsIndex);
+			inlineValue = equalsIndex === -1 ? undefined : arg.slice(equalsIndex + 1);
+			key = byName.get(name);
+			name = `--${name}`;
+		} else {
+			name = arg;
+			key = byShort.get(arg.slice(1));
+		}
+
+		const spec = key ? schema[key] : undefined;
+		if (!key || !spec) {
+			throw usageFailure(`Unknown flag: ${name}`, command, path);
+		}
+
+		if (spec.type === "boolean") {
+			if (inlineValue !== undefined) {
+				throw usageFailure(`Flag ${name} does not take a value`, command, path);
+			}
+			flags[key] = true;
+			continue;
+		}
+
+		let value = inlineValue;
+		if (value === undefined) {
+			const next = argv[i + 1];
+			if (next === undefined || next.startsWith("--")) {
+				throw usageFailure(`Flag ${name} requires a value`, command, path);
+			}
+			value = next;
+			i++;
+		}
+
+		if (spec.multiple) {
+			(flags[key] as string[]).push(value);
+		} else {
+			flags[key] = value;
+		}
+	}
+
+	for (const [key, spec] of Object.entries(schema)) {
+		if (spec.required && flags[key] === undefined) {
+			throw usageFailure(
+				`Missing required flag: --${toKebabCase(key)}`,
+				command,
+				path,
+			);
+		}
+	}
+
+	const args: ParsedInput["args"] = {};
+	const positionals = command.positionals ?? [];
+	for (const spec of positionals) {
+		if (spec.variadic) {
+			args[spec.name] = rest.splice(0);
+			continue;
+		}
+		const value = rest.shift();
+		if (value === undefined && spec.required) {
+			throw usageFailure(
+				`Missing required argument: <${displayName(spec)}>`,
+				command,
+				path,
+			);
+		}
+		args[spec.name] = value;
+	}
+	if (rest.length > 0) {
+		throw usageFailure(`Unexpected argument: ${rest[0]}`, command, path);
+	}
+
+	return { flags, args };
+}
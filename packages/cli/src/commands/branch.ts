@@ -1,214 +1,210 @@
-import { existsSync } from "node:fs";
-import { join } from "node:path";
-import {
-	CONTAINER_LABEL_PREFIX,
-	DEVENV_DIR,
-	DEVENV_WORKTREES_DIR,
-} from "@repo/shared";
 import {
 	createDatabase,
+	getAllEnvironments,
 	getEnvFiles,
 	getEnvironmentByName,
-	getNextAvailableHostPort,
-	insertEnvironment,
-	insertPortMapping,
-	updateEnvironmentContainer,
-	updateEnvironmentStatus,
-	upsertEnvFile,
 } from "../db/database.js";
-import type { DevcontainerConfig } from "../devcontainer/parser.js";
+import { findDevcontainerConfig } from "../devcontainer/parser.js";
+import { ensureDevcontainerCLI } from "../devcontainer/prerequisites.js";
+import {
+	cloneEnvironmentState,
+	withClonedState,
+} from "../environments/clone.js";
 import {
-	resolveEnvVars,
-	resolveForwardPorts,
-	resolveImage,
-} from "../devcontainer/parser.js";
+	createEnvironment,
+	printCreatedSummary,
+} from "../environments/create.js";
+import { getEnvironmentProject } from "../environments/lifecycle.js";
+import { formatPlan, planEnvironment } from "../environments/plan.js";
+import { cloneDatabase, postgresContainer } from "../environments/postgres.js";
+import { loadProjectConfig } from "../project/config.js";
+import { DevenvError, noContainer } from "../utils/errors.js";
+import { log } from "../utils/logger.js";
+import { createEnvironmentNamer } from "../utils/naming.js";
 import {
-	createContainer,
-	pullImage,
-	startContainer,
-} from "../docker/client.js";
-import { addRoute, ensureCaddyRunning } from "../tunnel/caddy.js";
-import { formatRouteId, generateHostname } from "../utils/envfiles.js";
-import { createWorktree } from "../utils/git.js";
+	elapsed,
+	toEnvironmentJson,
+	toPortMappingJson,
+} from "../utils/output.js";
+import { resolveEnvironment } from "../utils/resolve-env.js";
 import { registerCommand } from "./index.js";
 
-function slugify(str: string): string {
-	return str
-		.toLowerCase()
-		.replace(/[^a-z0-9-]/g, "-")
-		.replace(/-+/g, "-")
-		.replace(/^-|-$/g, "");
-}
-
 registerCommand({
 	name: "branch",
 	description:
 		"Create a new environment from an existing one on a different branch",
-	async run(args: string[]) {
-		const envName = args[0];
-		const newBranch = args[1];
-
-		if (!envName || !newBranch) {
-			throw new Error("Usage: devenv branch <env-name> <new-branch>");
-		}
+	positionals: [
+		{
+			name: "envName",
+			description: "Name or unique prefix of the environment to branch from",
+			complete: "environment",
+			required: true,
+		},
+		{
+			name: "newBranch",
+			description: "Branch for the new environment",
+			required: true,
+			complete: "branch",
+		},
+	],
+	flags: {
+		base: {
+			type: "string",
+			description:
+				"Ref to start the branch from if it does not exist yet (default: the project config's baseBranch, then HEAD)",
+			placeholder: "ref",
+			complete: "branch",
+		},
+		cloneState: {
+			type: "boolean",
+			description:
+				"Start from a snapshot of the source container and copies of its volumes",
+		},
+		withDb: {
+			type: "boolean",
+			description:
+				"Copy the source environment's Postgres databases into the new one",
+		},
+		dryRun: {
+			type: "boolean",
+			description: "Print what would be created without changing anything",
+		},
+		keepOnFailure: {
+			type: "boolean",
+			description:
+				"Leave the worktree, container and records in place if setup fails",
+		},
+	},
+	async run({ flags, args }) {
+		const { newBranch } = args;
+		const totalStart = performance.now();
 
 		const db = createDatabase();
 		try {
 			// Look up source environment
-			const sourceEnv = getEnvironmentByName(db, envName);
-			if (!sourceEnv) {
-				throw new Error(`Environment not found: ${envName}`);
-			}
-
-			// Look up project by ID
-			const projectRow = db
-				.prepare("SELECT * FROM projects WHERE id = ?")
-				.get(sourceEnv.projectId) as {
-				id: number;
-				name: string;
-				repo_path: string;
-			} | null;
-
-			if (!projectRow) {
-				throw new Error("Source project not found");
-			}
-
-			const projectName = projectRow.name;
-			const repoPath = projectRow.repo_path;
-			const newEnvName = `${projectName}-${slugify(newBranch)}`;
-
-			console.log(
-				`Creating environment ${newEnvName} from ${envName} on branch ${newBranch}`,
+			const sourceEnv = resolveEnvironment(db, args.envName);
+			const envName = sourceEnv.name;
+
+			const project = getEnvironmentProject(db, sourceEnv);
+			const projectName = project.name;
+			const repoPath = project.repoPath;
+			const newEnvName = createEnvironmentNamer(
+				projectName,
+				project.id,
+				getAllEnvironments(db),
+			)(newBranch);
+
+			log.info(
+				`${flags.dryRun ? "Planning" : "Creating"} environment ${newEnvName} from ${envName} on branch ${newBranch}`,
 			);
 
-			// Create worktree
-			const worktreePath = join(
-				repoPath,
-				DEVENV_DIR,
-				DEVENV_WORKTREES_DIR,
-				newBranch,
-			);
-			if (!existsSync(worktreePath)) {
-				console.log(`  Creating worktree for branch: ${newBranch}`);
-				await createWorktree(repoPath, newBranch, worktreePath);
-			}
-
-			// Parse devcontainer config from source
-			const devcontainerConfig: DevcontainerConfig | null =
-				sourceEnv.devcontainerConfig
-					? (JSON.parse(sourceEnv.devcontainerConfig) as DevcontainerConfig)
-					: null;
-
-			// Create environment record
-			const newEnvironment = insertEnvironment(
-				db,
-				sourceEnv.projectId,
-				newEnvName,
-				newBranch,
-				worktreePath,
-				sourceEnv.devcontainerConfig ?? undefined,
-			);
-
-			// Copy env files from source
+			const projectConfig = (await loadProjectConfig(repoPath))?.config ?? null;
+			const base = flags.base ?? projectConfig?.baseBranch;
+			// The new environment keeps the source's env files and own limits
 			const sourceEnvFiles = getEnvFiles(db, sourceEnv.id);
-			for (const envFile of sourceEnvFiles) {
-				upsertEnvFile(
-					db,
-					newEnvironment.id,
-					envFile.relativePath,
-					envFile.content,
-				);
-			}
-			if (sourceEnvFiles.length > 0) {
-				console.log(
-					`  Copied ${sourceEnvFiles.length} env file(s) from source`,
-				);
-			}
 
-			// Docker image
-			const image = resolveImage(devcontainerConfig);
-			console.log(`  Pulling image: ${image}`);
-			await pullImage(image);
+			if (flags.cloneState) {
+				if (!sourceEnv.containerId) throw noContainer(envName);
+				if ((await findDevcontainerConfig(repoPath))?.dockerComposeFile) {
+					throw new DevenvError(
+						"USAGE",
+						"--clone-state is not supported for Docker Compose devcontainers",
+					);
+				}
+			}
 
-			// Port mappings with fresh host ports
-			const forwardPorts = resolveForwardPorts(devcontainerConfig);
-			const portBindings: Record<string, string> = {};
-			const portMappings: Array<{
-				containerPort: number;
-				hostPort: number;
-				hostname: string;
-			}> = [];
+			// Fails early when the source has no database to copy
+			if (flags.withDb) postgresContainer(sourceEnv);
 
-			for (const containerPort of forwardPorts) {
-				const hostPort = getNextAvailableHostPort(db);
-				const hostname = generateHostname(
+			if (flags.dryRun) {
+				const plan = await planEnvironment(db, {
+					repoPath,
 					projectName,
-					newBranch,
-					containerPort,
-				);
-				portBindings[String(containerPort)] = String(hostPort);
-				insertPortMapping(
-					db,
-					newEnvironment.id,
-					containerPort,
-					hostPort,
-					hostname,
-				);
-				portMappings.push({ containerPort, hostPort, hostname });
-			}
-
-			// Env vars
-			const configEnvVars = resolveEnvVars(devcontainerConfig);
-			const envVarList: string[] = [];
-			for (const [key, value] of Object.entries(configEnvVars)) {
-				envVarList.push(`${key}=${value}`);
-			}
-			for (const envFile of sourceEnvFiles) {
-				for (const line of envFile.content.split("\n")) {
-					const trimmed = line.trim();
-					if (trimmed && !trimmed.startsWith("#")) {
-						envVarList.push(trimmed);
-					}
+					envName: newEnvName,
+					branch: newBranch,
+					base,
+					projectConfig,
+					limits: sourceEnv.resourceLimits,
+					envFiles: sourceEnvFiles.map((f) => f.relativePath),
+				});
+				log.info("");
+				for (const line of formatPlan(plan)) log.info(line);
+				if (flags.cloneState) {
+					log.info(
+						`  Would start from a snapshot of ${envName}'s container and copies of its volumes`,
+					);
+				}
+				if (flags.withDb) {
+					log.info(`  Would copy the databases of ${envName}`);
 				}
+				return {
+					source: envName,
+					dryRun: true,
+					cloneState: flags.cloneState,
+					withDb: flags.withDb,
+					plan,
+				};
 			}
 
-			// Create container
-			console.log("  Creating container...");
-			const containerId = await createContainer({
-				name: newEnvName,
-				image,
-				workspaceDir: worktreePath,
-				envVars: envVarList,
-				labels: {
-					[`${CONTAINER_LABEL_PREFIX}.project`]: projectName,
-					[`${CONTAINER_LABEL_PREFIX}.environment`]: newEnvName,
-				},
-				portBindings,
-			});
-
-			updateEnvironmentContainer(db, newEnvironment.id, containerId);
-
-			// Caddy routes
-			console.log("  Configuring reverse proxy...");
-			await ensureCaddyRunning();
-			for (const pm of portMappings) {
-				const routeId = formatRouteId(`${newEnvName}-${pm.containerPort}`);
-				await addRoute(routeId, pm.hostname, pm.hostPort);
+			// A record left by a failed attempt is reused; anything else is taken
+			const existing = getEnvironmentByName(db, newEnvName);
+			if (existing && existing.status !== "error") {
+				throw new DevenvError(
+					"ENV_EXISTS",
+					`Environment "${newEnvName}" already exists. Use 'devenv remove' first.`,
+				);
 			}
 
-			// Start container
-			await startContainer(containerId);
-			updateEnvironmentStatus(db, newEnvironment.id, "running");
-
-			// Summary
-			console.log("\nEnvironment created successfully!");
-			console.log(`  Name:   ${newEnvName}`);
-			console.log(`  Branch: ${newBranch}`);
-			console.log(`  Status: running`);
-			console.log("  URLs:");
-			for (const pm of portMappings) {
-				console.log(`    http://${pm.hostname} \u2192 :${pm.containerPort}`);
+			await ensureDevcontainerCLI();
+			const clonedState = flags.cloneState
+				? await cloneEnvironmentState(sourceEnv, newEnvName)
+				: undefined;
+			const create = () =>
+				createEnvironment(db, {
+					project,
+					envName: newEnvName,
+					branch: newBranch,
+					base,
+					explicitBase: flags.base !== undefined,
+					projectConfig,
+					keepOnFailure: flags.keepOnFailure,
+					limits: sourceEnv.resourceLimits,
+					envFiles: sourceEnvFiles,
+					clonedState,
+				});
+			const created = clonedState
+				? await withClonedState(newEnvName, flags.keepOnFailure, create)
+				: await create();
+
+			log.info(
+				`\nEnvironment created successfully! (${elapsed(totalStart)} total)`,
+			);
+			printCreatedSummary(created);
+
+			let databaseCloned = false;
+			if (flags.withDb) {
+				log.info(`\nCopying the databases of ${envName}...`);
+				const dbStart = performance.now();
+				try {
+					await cloneDatabase(sourceEnv, created.environment);
+					databaseCloned = true;
+					log.info(`Databases copied (${elapsed(dbStart)})`);
+				} catch (error) {
+					// The environment itself is fine; the copy can be retried
+					log.warn(
+						`Copying the databases failed: ${error instanceof Error ? error.message : error}\nRetry with: devenv db clone ${envName} ${newEnvName}`,
+					);
+				}
 			}
+
+			return {
+				source: envName,
+				project: { name: projectName, repoPath },
+				clonedState: clonedState ?? null,
+				databaseCloned,
+				environment: toEnvironmentJson(created.environment),
+				ports: created.portMappings.map(toPortMappingJson),
+			};
 		} finally {
 			db.close();
 		}
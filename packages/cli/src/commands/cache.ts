@@ -0,0 +1,171 @@
+import { CACHE_VOLUME_PREFIX } from "@repo/shared";
+import {
+	CACHE_TOOLS,
+	type CacheTool,
+	type CacheVolume,
+	parseCacheVolumeName,
+} from "../devcontainer/cache-volumes.js";
+import {
+	DockerError,
+	getVolumeUsage,
+	listVolumes,
+	removeVolume,
+} from "../docker/client.js";
+import { DevenvError } from "../utils/errors.js";
+import { log } from "../utils/logger.js";
+import { defineCommand, registerCommand } from "./index.js";
+
+const projectFlag = {
+	type: "string",
+	description:
+		"Only the volumes of this project (use --global for the shared ones)",
+	placeholder: "name",
+} as const;
+
+const globalFlag = {
+	type: "boolean",
+	description: "Only the volumes shared by every project",
+} as const;
+
+const toolsPositional = {
+	name: "tools",
+	description: `Package managers to include (${CACHE_TOOLS.join(", ")}; default: all)`,
+	variadic: true,
+} as const;
+
+registerCommand({
+	name: "cache",
+	description: "Inspect and clear the shared package-manager cache volumes",
+	subcommands: [
+		defineCommand({
+			name: "list",
+			description: "Show the cache volumes with their size",
+			flags: { project: projectFlag, global: globalFlag },
+			positionals: [toolsPositional],
+			run: ({ args, flags }) => cacheList(selection(args.tools, flags)),
+		}),
+		defineCommand({
+			name: "clear",
+			description: "Remove cache volumes no container is using",
+			flags: { project: projectFlag, global: globalFlag },
+			positionals: [toolsPositional],
+			run: ({ args, flags }) => cacheClear(selection(args.tools, flags)),
+		}),
+	],
+});
+
+interface CacheSelection {
+	tools: CacheTool[];
+	// undefined for every scope, null for the global volumes only
+	project: string | null | undefined;
+}
+
+function selection(
+	tools: string[],
+	flags: { project?: string; global: boolean },
+): CacheSelection {
+	const unknown = tools.filter(
+		(tool) => !(CACHE_TOOLS as readonly string[]).includes(tool),
+	);
+	if (unknown.length > 0) {
+		throw new DevenvError(
+			"USAGE",
+			`Unknown package manager: ${unknown.join(", ")}. Expected one of: ${CACHE_TOOLS.join(", ")}`,
+		);
+	}
+	if (flags.project !== undefined && flags.global) {
+		throw new DevenvError(
+			"USAGE",
+			"--project and --global cannot be used together",
+		);
+	}
+	return {
+		tools: tools.length > 0 ? (tools as CacheTool[]) : [...CACHE_TOOLS],
+		project: flags.global ? null : flags.project,
+	};
+}
+
+async function findCacheVolumes(
+	selected: CacheSelection,
+): Promise<CacheVolume[]> {
+	const volumes: CacheVolume[] = [];
+	for (const { Name } of await listVolumes(CACHE_VOLUME_PREFIX)) {
+		const volume = parseCacheVolumeName(Name);
+		if (!volume || !selected.tools.includes(volume.tool)) continue;
+		if (selected.project !== undefined && volume.project !== selected.project) {
+			continue;
+		}
+		volumes.push(volume);
+	}
+	return volumes.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function formatSize(bytes: number): string {
+	if (bytes < 0) return "?";
+	const units = ["B", "KB", "MB", "GB"];
+	let value = bytes;
+	let unit = 0;
+	while (value >= 1024 && unit < units.length - 1) {
+		value /= 1024;
+		unit++;
+	}
+	return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+async function cacheList(selected: CacheSelection) {
+	const volumes = await findCacheVolumes(selected);
+	const usage = volumes.length > 0 ? await getVolumeUsage() : new Map();
+	const result = {
+		volumes: volumes.map((volume) => {
+			const { size = -1, refCount = -1 } = usage.get(volume.name) ?? {};
+			return { ...volume, size, containers: refCount };
+		}),
+	};
+
+	if (volumes.length === 0) {
+		log.info("No cache volumes found.");
+		return result;
+	}
+
+	const nameWidth = Math.max(...volumes.map((v) => v.name.length));
+	for (const volume of result.volumes) {
+		const scope = volume.project ?? "(global)";
+		const inUse =
+			volume.containers > 0 ? `  in use by ${volume.containers}` : "";
+		log.info(
+			`${volume.name.padEnd(nameWidth)}  ${volume.tool.padEnd(5)} ${scope.padEnd(20)} ${formatSize(volume.size).padStart(9)}${inUse}`,
+		);
+	}
+	return result;
+}
+
+async function cacheClear(selected: CacheSelection) {
+	const volumes = await findCacheVolumes(selected);
+	const removed: string[] = [];
+	const skipped: { name: string; reason: string }[] = [];
+
+	for (const volume of volumes) {
+		try {
+			await removeVolume(volume.name);
+			removed.push(volume.name);
+			log.info(`Removed ${volume.name}`);
+		} catch (error) {
+			// A running or stopped environment still mounts it
+			if (error instanceof DockerError && error.statusCode === 409) {
+				skipped.push({ name: volume.name, reason: "in use by a container" });
+				log.warn(`Skipped ${volume.name}: in use by a container`);
+			} else {
+				throw error;
+			}
+		}
+	}
+
+	if (volumes.length === 0) {
+		log.info("No cache volumes to remove.");
+	} else if (skipped.length > 0) {
+		log.info(
+			"Remove the environments using them (devenv remove) to clear those too.",
+		);
+	}
+	return { removed, skipped };
+}
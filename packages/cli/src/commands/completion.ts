@@ -0,0 +1,133 @@
+import {
+	type CandidateSources,
+	completeWords,
+	formatCompletionResult,
+} from "../completion/complete.js";
+import {
+	COMPLETION_SHELLS,
+	type CompletionShell,
+	generateCompletionScript,
+} from "../completion/scripts.js";
+import {
+	createDatabase,
+	getAllEnvironments,
+	getAllSettings,
+	getProjectsWithEnvironments,
+	KNOWN_SETTINGS,
+} from "../db/database.js";
+import { DevenvError } from "../utils/errors.js";
+import { getRepoRoot, listBranches } from "../utils/git.js";
+import { isJsonOutput } from "../utils/output.js";
+import { getAllCommands, globalFlags, registerCommand } from "./index.js";
+
+registerCommand({
+	name: "completion",
+	description: "Print a shell completion script (bash, zsh, fish)",
+	positionals: [
+		{
+			name: "shell",
+			description: `Shell to generate for (${COMPLETION_SHELLS.join(", ")})`,
+			required: true,
+		},
+	],
+	async run({ args }) {
+		const shell = args.shell as CompletionShell;
+		if (!COMPLETION_SHELLS.includes(shell)) {
+			throw new DevenvError(
+				"USAGE",
+				`Unsupported shell: ${args.shell}. Expected one of: ${COMPLETION_SHELLS.join(", ")}`,
+			);
+		}
+		const script = generateCompletionScript(shell);
+		if (isJsonOutput()) {
+			return { shell, script };
+		}
+		process.stdout.write(script);
+		return null;
+	},
+});
+
+async function branchCandidates(): Promise<string[]> {
+	const repoRoot = await getRepoRoot(process.cwd());
+	if (repoRoot) {
+		return listBranches(repoRoot);
+	}
+
+	// Outside a repository, offer branches from every known project
+	const db = createDatabase();
+	let repoPaths: string[];
+	try {
+		repoPaths = getProjectsWithEnvironments(db).map((p) => p.repoPath);
+	} finally {
+		db.close();
+	}
+	const branches = new Set<string>();
+	for (const repoPath of repoPaths) {
+		try {
+			for (const branch of await listBranches(repoPath)) {
+				branches.add(branch);
+			}
+		} catch {
+			// Repository moved or deleted
+		}
+	}
+	return Array.from(branches);
+}
+
+const sources: CandidateSources = {
+	async environment() {
+		const db = createDatabase();
+		try {
+			return getAllEnvironments(db).map((env) => ({
+				value: env.name,
+				description: `${env.branch} (${env.status})`,
+			}));
+		} finally {
+			db.close();
+		}
+	},
+	async branch() {
+		return (await branchCandidates()).map((value) => ({ value }));
+	},
+	async setting() {
+		const db = createDatabase();
+		try {
+			const keys = new Map(Object.entries(KNOWN_SETTINGS));
+			for (const { key } of getAllSettings(db)) {
+				if (!keys.has(key)) keys.set(key, "");
+			}
+			return Array.from(keys, ([value, description]) => ({
+				value,
+				...(description ? { description } : {}),
+			}));
+		} finally {
+			db.close();
+		}
+	},
+};
+
+registerCommand({
+	name: "__complete",
+	description: "Print completion candidates for the given words",
+	hidden: true,
+	positionals: [
+		{
+			name: "words",
+			description: "Words typed after devenv, the last being completed",
+			variadic: true,
+		},
+	],
+	async run({ args }) {
+		const result = await completeWords(
+			getAllCommands(),
+			globalFlags,
+			args.words.length > 0 ? args.words : [""],
+			sources,
+		);
+		if (isJsonOutput()) {
+			return result;
+		}
+		process.stdout.write(`${formatCompletionResult(result)}\n`);
+		return null;
+	},
+});
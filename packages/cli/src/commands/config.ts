@@ -5,81 +5,115 @@ import {
 	getSetting,
 	setSetting,
 } from "../db/database.js";
-import { registerCommand } from "./index.js";
+import { LIMIT_KEYS, parseLimit } from "../environments/limits.js";
+import { log } from "../utils/logger.js";
+import { defineCommand, registerCommand } from "./index.js";
 
 registerCommand({
 	name: "config",
 	description: "Manage global settings (set, get, delete, list)",
-	async run(args: string[]) {
-		const subcommand = args[0];
-
-		if (!subcommand || subcommand === "--help" || subcommand === "-h") {
-			console.log("Usage: devenv config <subcommand> [args]\n");
-			console.log("Subcommands:");
-			console.log("  set <key> <value>   Store a setting");
-			console.log("  get <key>           Retrieve a setting");
-			console.log("  delete <key>        Remove a setting");
-			console.log("  list                Show all settings");
-			return;
-		}
-
-		const db = createDatabase();
-		try {
-			switch (subcommand) {
-				case "set": {
-					const key = args[1];
-					const value = args[2];
-					if (!key || !value) {
-						throw new Error("Usage: devenv config set <key> <value>");
-					}
+	subcommands: [
+		defineCommand({
+			name: "set",
+			description: "Store a setting",
+			positionals: [
+				{
+					name: "key",
+					description: "Setting key",
+					required: true,
+					complete: "setting",
+				},
+				{ name: "value", description: "Setting value", required: true },
+			],
+			async run({ args }) {
+				const { key, value } = args;
+				// Limits are checked here rather than when an environment is
+				// next created
+				const limitKey = LIMIT_KEYS.find((k) => key === `limits.${k}`);
+				if (limitKey) parseLimit(limitKey, value, key);
+				const db = createDatabase();
+				try {
 					setSetting(db, key, value);
-					console.log(`Set ${key}`);
-					break;
+					log.info(`Set ${key}`);
+					return { key, value };
+				} finally {
+					db.close();
 				}
-				case "get": {
-					const key = args[1];
-					if (!key) {
-						throw new Error("Usage: devenv config get <key>");
-					}
+			},
+		}),
+		defineCommand({
+			name: "get",
+			description: "Retrieve a setting",
+			positionals: [
+				{
+					name: "key",
+					description: "Setting key",
+					required: true,
+					complete: "setting",
+				},
+			],
+			async run({ args }) {
+				const { key } = args;
+				const db = createDatabase();
+				try {
 					const value = getSetting(db, key);
 					if (value === null) {
-						console.log(`(not set)`);
+						log.info(`(not set)`);
 					} else {
-						console.log(value);
+						log.info(value);
 					}
-					break;
+					return { key, value };
+				} finally {
+					db.close();
 				}
-				case "delete": {
-					const key = args[1];
-					if (!key) {
-						throw new Error("Usage: devenv config delete <key>");
-					}
+			},
+		}),
+		defineCommand({
+			name: "delete",
+			description: "Remove a setting",
+			positionals: [
+				{
+					name: "key",
+					description: "Setting key",
+					required: true,
+					complete: "setting",
+				},
+			],
+			async run({ args }) {
+				const { key } = args;
+				const db = createDatabase();
+				try {
 					const deleted = deleteSetting(db, key);
 					if (deleted) {
-						console.log(`Deleted ${key}`);
+						log.info(`Deleted ${key}`);
 					} else {
-						console.log(`Setting "${key}" not found`);
+						log.info(`Setting "${key}" not found`);
 					}
-					break;
+					return { key, deleted };
+				} finally {
+					db.close();
 				}
-				case "list": {
+			},
+		}),
+		defineCommand({
+			name: "list",
+			description: "Show all settings",
+			async run() {
+				const db = createDatabase();
+				try {
 					const settings = getAllSettings(db);
 					if (settings.length === 0) {
-						console.log("No settings configured");
+						log.info("No settings configured");
 					} else {
 						for (const { key, value } of settings) {
-							console.log(`${key} = ${value}`);
+							log.info(`${key} = ${value}`);
 						}
 					}
-					break;
+					return { settings };
+				} finally {
+					db.close();
 				}
-				default:
-					throw new Error(
-						`Unknown subcommand: ${subcommand}. Run 'devenv config --help' for usage.`,
-					);
-			}
-		} finally {
-			db.close();
-		}
-	},
+			},
+		}),
+	],
 });
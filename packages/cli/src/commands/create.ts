@@ -1,93 +1,229 @@
-import { existsSync, mkdirSync, writeFileSync } from "node:fs";
-import { basename, dirname, join, resolve } from "node:path";
-import { DEVENV_DIR, DEVENV_WORKTREES_DIR } from "@repo/shared";
+import { existsSync, mkdirSync, readFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { DEVENV_DIR, type Project } from "@repo/shared";
 import {
 	createDatabase,
-	deletePortMappings,
-	getEnvironmentByName,
-	getNextAvailableHostPort,
-	getProjectByName,
-	getSetting,
-	insertEnvironment,
-	insertPortMapping,
+	getAllEnvironments,
+	getAllProjects,
+	getProjectByRepoPath,
 	insertProject,
-	updateEnvironmentContainer,
-	updateEnvironmentStatus,
-	upsertEnvFile,
 } from "../db/database.js";
-import { buildMergedConfig } from "../devcontainer/config-builder.js";
-import {
-	detectPostgresFeature,
-	findDevcontainerConfig,
-	resolveEnvVars,
-	resolveForwardPorts,
-} from "../devcontainer/parser.js";
 import { ensureDevcontainerCLI } from "../devcontainer/prerequisites.js";
-import { devcontainerUp } from "../devcontainer/runner.js";
-import { DockerError, inspectContainer } from "../docker/client.js";
-import { addRoute, ensureCaddyRunning } from "../tunnel/caddy.js";
+import { createBatchProgress } from "../environments/batch.js";
+import {
+	type CreatedEnvironment,
+	createEnvironment,
+	printCreatedSummary,
+} from "../environments/create.js";
+import { limitFlags, limitsFromFlags } from "../environments/limits.js";
 import {
-	discoverEnvFiles,
-	formatRouteId,
-	generateHostname,
-} from "../utils/envfiles.js";
-import { createWorktree } from "../utils/git.js";
+	type EnvironmentPlan,
+	formatPlan,
+	planEnvironment,
+} from "../environments/plan.js";
+import { loadProjectConfig } from "../project/config.js";
+import { mapConcurrent } from "../utils/concurrency.js";
+import { DevenvError, toErrorPayload } from "../utils/errors.js";
+import { getLogLevel, log } from "../utils/logger.js";
+import { createEnvironmentNamer, projectNameFor } from "../utils/naming.js";
+import {
+	elapsed,
+	isJsonOutput,
+	toEnvironmentJson,
+	toPortMappingJson,
+} from "../utils/output.js";
 import { registerCommand } from "./index.js";
 
-function slugify(str: string): string {
-	return str
-		.toLowerCase()
-		.replace(/[^a-z0-9-]/g, "-")
-		.replace(/-+/g, "-")
-		.replace(/^-|-$/g, "");
-}
-
-function parseArgs(args: string[]): { repo: string; branch: string } {
-	let repo: string | undefined;
-	let branch: string | undefined;
+// Environments created at once when several branches are given
+const DEFAULT_JOBS = 4;
 
-	for (let i = 0; i < args.length; i++) {
-		const arg = args[i];
-		if (arg === "--repo" && i + 1 < args.length) {
-			repo = args[++i];
-		} else if (arg === "--branch" && i + 1 < args.length) {
-			branch = args[++i];
-		}
+/**
+ * Names the repository's project, reusing the one it already has, and
+ * returns the namer for its environments.
+ */
+function resolveNames(repoPath: string): {
+	projectName: string;
+	envNameFor: (branch: string) => string;
+} {
+	const db = createDatabase();
+	try {
+		const project = getProjectByRepoPath(db, repoPath);
+		const projectName =
+			project?.name ??
+			projectNameFor(
+				repoPath,
+				getAllProjects(db).map((p) => p.name),
+			);
+		return {
+			projectName,
+			envNameFor: createEnvironmentNamer(
+				projectName,
+				project?.id ?? null,
+				getAllEnvironments(db),
+			),
+		};
+	} finally {
+		db.close();
 	}
+}
 
-	if (!repo) {
-		throw new Error("--repo <path> is required");
-	}
-	if (!branch) {
-		throw new Error("--branch <name> is required");
+// One branch per line; blank lines and # comments are skipped
+function readBranchesFile(path: string): string[] {
+	let content: string;
+	try {
+		content = readFileSync(path, "utf-8");
+	} catch (error) {
+		throw new DevenvError(
+			"USAGE",
+			`Cannot read branches file ${path}: ${error instanceof Error ? error.message : error}`,
+		);
 	}
+	return content
+		.split("\n")
+		.map((line) => line.trim())
+		.filter((line) => line && !line.startsWith("#"));
+}
 
-	return { repo, branch };
+function parseJobs(value: string | undefined): number {
+	if (value === undefined) return DEFAULT_JOBS;
+	const jobs = Number(value);
+	if (!Number.isInteger(jobs) || jobs < 1) {
+		throw new DevenvError(
+			"USAGE",
+			`--jobs must be a positive whole number, got: ${value}`,
+		);
+	}
+	return jobs;
 }
 
-function elapsed(start: number): string {
-	return `${((performance.now() - start) / 1000).toFixed(1)}s`;
+function toCreateJson(project: Project, created: CreatedEnvironment) {
+	return {
+		project: { name: project.name, repoPath: project.repoPath },
+		environment: toEnvironmentJson(created.environment),
+		worktree: created.worktree,
+		ports: created.portMappings.map(toPortMappingJson),
+		postgres: created.postgres,
+		timings: created.timings,
+	};
 }
 
 registerCommand({
 	name: "create",
 	description: "Create a new development environment",
-	async run(args: string[]) {
-		const { repo, branch } = parseArgs(args);
-		const repoPath = resolve(repo);
+	flags: {
+		repo: {
+			type: "string",
+			description: "Path to the git repository",
+			placeholder: "path",
+			required: true,
+			complete: "directory",
+		},
+		branch: {
+			type: "string",
+			description:
+				"Branch to check out in the new worktree; give several to create them in parallel",
+			placeholder: "name",
+			multiple: true,
+			complete: "branch",
+		},
+		branchesFrom: {
+			type: "string",
+			description: "File listing branches to create, one per line",
+			placeholder: "file",
+			complete: "file",
+		},
+		jobs: {
+			type: "string",
+			description: `Environments created at once (default: ${DEFAULT_JOBS})`,
+			placeholder: "n",
+		},
+		base: {
+			type: "string",
+			description:
+				"Ref to start a new branch from (default: the project config's baseBranch, then HEAD)",
+			placeholder: "ref",
+			complete: "branch",
+		},
+		dryRun: {
+			type: "boolean",
+			description: "Print what would be created without changing anything",
+		},
+		keepOnFailure: {
+			type: "boolean",
+			description:
+				"Leave the worktree, container and records in place if setup fails",
+		},
+		...limitFlags,
+	},
+	async run({ flags }) {
+		const repoPath = resolve(flags.repo);
 		const totalStart = performance.now();
 
+		const branches = [
+			...new Set([
+				...flags.branch,
+				...(flags.branchesFrom ? readBranchesFile(flags.branchesFrom) : []),
+			]),
+		];
+		if (branches.length === 0) {
+			throw new DevenvError(
+				"USAGE",
+				"No branch given. Pass --branch <name> (repeatable) or --branches-from <file>.",
+			);
+		}
+		const jobs = parseJobs(flags.jobs);
+		const limits = limitsFromFlags(flags);
+		if (flags.dryRun && branches.length > 1) {
+			throw new DevenvError("USAGE", "--dry-run takes a single branch");
+		}
+
 		// Validate prerequisites
 		await ensureDevcontainerCLI();
 
 		// Validate repo
 		if (!existsSync(join(repoPath, ".git"))) {
-			throw new Error(`Not a git repository: ${repoPath}`);
+			throw new DevenvError(
+				"NOT_A_GIT_REPO",
+				`Not a git repository: ${repoPath}`,
+			);
+		}
+		const { projectName, envNameFor } = resolveNames(repoPath);
+
+		log.info(
+			branches.length === 1
+				? `${flags.dryRun ? "Planning" : "Creating"} environment: ${envNameFor(branches[0] as string)}`
+				: `Creating ${branches.length} environments, ${Math.min(jobs, branches.length)} at a time`,
+		);
+
+		// Project config — validated up front so a bad file fails before any work
+		const loadedConfig = await loadProjectConfig(repoPath);
+		const projectConfig = loadedConfig?.config ?? null;
+		if (loadedConfig) {
+			log.info(`  Using project config: ${loadedConfig.path}`);
 		}
-		const projectName = slugify(basename(repoPath));
-		const envName = `${projectName}-${slugify(branch)}`;
+		const base = flags.base ?? projectConfig?.baseBranch;
 
-		console.log(`Creating environment: ${envName}`);
+		if (flags.dryRun) {
+			const branch = branches[0] as string;
+			const db = createDatabase();
+			let plan: EnvironmentPlan;
+			try {
+				plan = await planEnvironment(db, {
+					repoPath,
+					projectName,
+					envName: envNameFor(branch),
+					branch,
+					base,
+					projectConfig,
+					limits,
+				});
+			} finally {
+				db.close();
+			}
+			log.info("");
+			for (const line of formatPlan(plan)) log.info(line);
+			return { dryRun: true, plan };
+		}
 
 		// Ensure .devenv directory
 		const devenvDir = join(repoPath, DEVENV_DIR);
@@ -99,175 +235,103 @@ registerCommand({
 		const db = createDatabase();
 		try {
 			// Project
-			let project = getProjectByName(db, projectName);
+			let project = getProjectByRepoPath(db, repoPath);
 			if (!project) {
 				project = insertProject(db, projectName, repoPath);
-				console.log(`  Project created: ${projectName}`);
+				log.info(`  Project created: ${projectName}`);
 			}
-
-			// Worktree
-			const worktreePath = join(
-				repoPath,
-				DEVENV_DIR,
-				DEVENV_WORKTREES_DIR,
+			const options = (branch: string) => ({
+				project: project as Project,
+				envName: envNameFor(branch),
 				branch,
-			);
-			if (!existsSync(worktreePath)) {
-				console.log(`  Creating worktree for branch: ${branch}`);
-				const wtStart = performance.now();
-				await createWorktree(repoPath, branch, worktreePath);
-				console.log(`  Worktree created (${elapsed(wtStart)})`);
-			}
-
-			// Environment
-			const devcontainerConfig = await findDevcontainerConfig(repoPath);
-			let environment = getEnvironmentByName(db, envName);
-			let removeExistingContainer = false;
-			if (environment) {
-				if (environment.status === "running") {
-					// Verify the container is actually running in Docker
-					let containerActuallyRunning = false;
-					if (environment.containerId) {
-						try {
-							const info = await inspectContainer(environment.containerId);
-							containerActuallyRunning = info.State.Running;
-						} catch (e) {
-							if (e instanceof DockerError && e.statusCode === 404) {
-								// Container no longer exists
-							} else {
-								throw e;
-							}
-						}
-					}
-					if (containerActuallyRunning) {
-						throw new Error(
-							`Environment "${envName}" already exists and is running. Use 'devenv destroy' first.`,
-						);
-					}
-					// DB status is stale — container is gone or stopped
-					updateEnvironmentStatus(db, environment.id, "stopped");
-				}
-				removeExistingContainer = true;
-				console.log(`  Resuming setup for existing environment: ${envName}`);
-			} else {
-				environment = insertEnvironment(
-					db,
-					project.id,
-					envName,
-					branch,
-					worktreePath,
-					devcontainerConfig ? JSON.stringify(devcontainerConfig) : undefined,
-				);
-			}
+				base,
+				explicitBase: flags.base !== undefined,
+				projectConfig,
+				keepOnFailure: flags.keepOnFailure,
+				limits,
+			});
 
-			// Env files — discover from original repo and copy to worktree
-			const envFiles = await discoverEnvFiles(repoPath);
-			for (const envFile of envFiles) {
-				upsertEnvFile(
+			if (branches.length === 1) {
+				const created = await createEnvironment(
 					db,
-					environment.id,
-					envFile.relativePath,
-					envFile.content,
+					options(branches[0] as string),
 				);
-				// Copy env file to worktree so it exists in the container workspace
-				const targetPath = join(worktreePath, envFile.relativePath);
-				mkdirSync(dirname(targetPath), { recursive: true });
-				writeFileSync(targetPath, envFile.content);
-			}
-			if (envFiles.length > 0) {
-				console.log(`  Copied ${envFiles.length} env file(s) to worktree`);
-			}
-
-			// Clear stale port mappings from previous failed attempt
-			deletePortMappings(db, environment.id);
-
-			// Port mappings
-			const forwardPorts = resolveForwardPorts(devcontainerConfig);
-			const portBindings: Record<string, string> = {};
-			const portMappings: Array<{
-				containerPort: number;
-				hostPort: number;
-				hostname: string;
-			}> = [];
-
-			for (const containerPort of forwardPorts) {
-				const hostPort = getNextAvailableHostPort(db);
-				const hostname = generateHostname(projectName, branch, containerPort);
-				portBindings[String(containerPort)] = String(hostPort);
-				insertPortMapping(
-					db,
-					environment.id,
-					containerPort,
-					hostPort,
-					hostname,
+				log.info(
+					`\nEnvironment created successfully! (${elapsed(totalStart)} total)`,
 				);
-				portMappings.push({ containerPort, hostPort, hostname });
+				printCreatedSummary(created);
+				return toCreateJson(project, created);
 			}
 
-			// Build container env vars from devcontainer config only
-			// (env files are copied as files to the worktree, not flattened into env vars)
-			const containerEnv = resolveEnvVars(devcontainerConfig);
-
-			// Build merged devcontainer config and run devcontainer up
-			console.log("  Building devcontainer configuration...");
-			const claudeOAuthToken = getSetting(db, "claude-token") ?? undefined;
-			const { configPath, additionalFeatures } = await buildMergedConfig({
-				devcontainerConfig,
-				worktreePath,
-				repoPath,
-				containerEnv,
-				portBindings,
-				claudeOAuthToken,
-			});
-
-			console.log("  Starting devcontainer...");
-			const dcStart = performance.now();
-			const { containerId } = await devcontainerUp({
-				worktreePath,
-				configPath,
-				projectName,
-				envName,
-				additionalFeatures,
-				removeExistingContainer,
-			});
-			console.log(`  Devcontainer started (${elapsed(dcStart)})`);
-
-			updateEnvironmentContainer(db, environment.id, containerId);
-			updateEnvironmentStatus(db, environment.id, "running");
-
-			// Caddy routes
-			console.log("  Configuring reverse proxy...");
-			const caddyStart = performance.now();
-			await ensureCaddyRunning();
-			for (const pm of portMappings) {
-				const routeId = formatRouteId(`${envName}-${pm.containerPort}`);
-				await addRoute(routeId, pm.hostname, pm.hostPort);
+			const progress = createBatchProgress(
+				branches.map(envNameFor),
+				process.stdout.isTTY === true &&
+					!isJsonOutput() &&
+					getLogLevel() === "info",
+			);
+			let results: PromiseSettledResult<CreatedEnvironment>[];
+			try {
+				results = await mapConcurrent(branches, jobs, async (branch) => {
+					const envName = envNameFor(branch);
+					try {
+						const created = await createEnvironment(
+							db,
+							options(branch),
+							progress.progressFor(envName),
+						);
+						progress.done(envName, created.timings.total ?? 0);
+						return created;
+					} catch (error) {
+						progress.failed(
+							envName,
+							error instanceof Error ? error.message : String(error),
+						);
+						throw error;
+					}
+				});
+			} finally {
+				progress.stop();
 			}
-			console.log(`  Reverse proxy configured (${elapsed(caddyStart)})`);
 
-			// Summary
-			console.log(
-				`\nEnvironment created successfully! (${elapsed(totalStart)} total)`,
+			const failures = results.filter((r) => r.status === "rejected").length;
+			log.info(
+				`\nCreated ${branches.length - failures} of ${branches.length} environments (${elapsed(totalStart)} total)`,
 			);
-			console.log(`  Name:   ${envName}`);
-			console.log(`  Branch: ${branch}`);
-			console.log(`  Status: running`);
-			console.log("  URLs:");
-			for (const pm of portMappings) {
-				console.log(`    http://${pm.hostname} → :${pm.containerPort}`);
-			}
-			if (detectPostgresFeature(devcontainerConfig)) {
-				console.log("  PostgreSQL:");
-				console.log(
-					"    postgres://postgres@localhost:5432/postgres (inside container)",
-				);
-				const pgMapping = portMappings.find((pm) => pm.containerPort === 5432);
-				if (pgMapping) {
-					console.log(
-						`    postgres://postgres@localhost:${pgMapping.hostPort}/postgres (from host)`,
+			results.forEach((result, i) => {
+				if (result.status === "fulfilled") {
+					log.info("");
+					printCreatedSummary(result.value);
+				} else {
+					const message =
+						result.reason instanceof Error
+							? result.reason.message
+							: String(result.reason);
+					log.error(
+						`\n${envNameFor(branches[i] as string)} failed: ${message}`,
 					);
 				}
+			});
+			if (failures > 0) {
+				// The per-environment results are the output; the exit status
+				// still tells scripts that something failed
+				process.exitCode = 1;
 			}
+
+			return {
+				environments: results.map((result, i) =>
+					result.status === "fulfilled"
+						? {
+								branch: branches[i],
+								ok: true,
+								...toCreateJson(project, result.value),
+							}
+						: {
+								branch: branches[i],
+								ok: false,
+								error: toErrorPayload(result.reason),
+							},
+				),
+			};
 		} finally {
 			db.close();
 		}
@@ -1,5 +1,7 @@
 import { API_PORT } from "@repo/shared";
 import { startApiServer } from "../api/server.js";
+import { log } from "../utils/logger.js";
+import { isJsonOutput, printJson } from "../utils/output.js";
 import { registerCommand } from "./index.js";
 
 registerCommand({
@@ -7,8 +9,14 @@ registerCommand({
 	description: "Start the API server for the dashboard",
 	async run() {
 		const _server = startApiServer();
-		console.log(`API server running at http://localhost:${API_PORT}`);
-		console.log("Press Ctrl+C to stop.");
+		const url = `http://localhost:${API_PORT}`;
+		log.info(`API server running at ${url}`);
+		log.info("Press Ctrl+C to stop.");
+
+		// The server runs until interrupted, so emit the JSON document up front
+		if (isJsonOutput()) {
+			printJson({ ok: true, command: "dashboard", data: { url } });
+		}
 
 		// Keep process alive
 		await new Promise(() => {});
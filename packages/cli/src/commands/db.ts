@@ -0,0 +1,160 @@
+import { createDatabase } from "../db/database.js";
+import {
+	cloneDatabase,
+	restoreDatabase,
+	snapshotDatabase,
+} from "../environments/postgres.js";
+import { DevenvError } from "../utils/errors.js";
+import { log } from "../utils/logger.js";
+import { elapsed, toEnvironmentJson } from "../utils/output.js";
+import {
+	resolveEnvironment,
+	resolveEnvironmentExactly,
+} from "../utils/resolve-env.js";
+import { defineCommand, registerCommand } from "./index.js";
+
+const envPositional = {
+	name: "envName",
+	description:
+		"Name or unique prefix of the environment (default: the one containing the current directory)",
+	complete: "environment",
+} as const;
+
+const snapshotPositional = {
+	name: "snapshot",
+	description: "Snapshot name",
+	placeholder: "name",
+} as const;
+
+// The environment whose databases are replaced must be named in full
+const yesFlag = {
+	yes: {
+		type: "boolean",
+		short: "y",
+		description:
+			"Replace the databases of an environment matched by prefix or the current directory without naming it in full",
+	},
+} as const;
+
+registerCommand({
+	name: "db",
+	description: "Copy, snapshot and restore an environment's Postgres databases",
+	subcommands: [
+		defineCommand({
+			name: "clone",
+			description:
+				"Replace one environment's databases with a copy of another's",
+			positionals: [
+				{
+					name: "from",
+					description: "Environment to copy the databases from",
+					complete: "environment",
+					required: true,
+				},
+				{
+					name: "to",
+					description: "Environment whose databases are replaced",
+					complete: "environment",
+					required: true,
+				},
+			],
+			flags: yesFlag,
+			run: ({ args, flags }) => dbClone(args.from, args.to, flags.yes),
+		}),
+		defineCommand({
+			name: "snapshot",
+			description:
+				"Save the environment's databases under a name, replacing any snapshot with that name",
+			positionals: [envPositional, snapshotPositional],
+			run: ({ args }) =>
+				// With a single argument, it is the snapshot name and the
+				// environment comes from the working directory
+				args.snapshot === undefined
+					? dbSnapshot(undefined, args.envName)
+					: dbSnapshot(args.envName, args.snapshot),
+		}),
+		defineCommand({
+			name: "restore",
+			description: "Roll the environment's databases back to a snapshot",
+			positionals: [envPositional, snapshotPositional],
+			flags: yesFlag,
+			run: ({ args, flags }) =>
+				args.snapshot === undefined
+					? dbRestore(undefined, args.envName, flags.yes)
+					: dbRestore(args.envName, args.snapshot, flags.yes),
+		}),
+	],
+});
+
+async function dbClone(from: string, to: string, confirmed: boolean) {
+	const db = createDatabase();
+	try {
+		const source = resolveEnvironment(db, from);
+		const target = resolveEnvironmentExactly(db, to, "db clone", confirmed);
+		if (source.id === target.id) {
+			throw new DevenvError(
+				"USAGE",
+				`${source.name} cannot be cloned into itself; name two different environments`,
+			);
+		}
+		log.info(`Copying the databases of ${source.name} into ${target.name}`);
+		const start = performance.now();
+		await cloneDatabase(source, target);
+		log.info(`Databases copied (${elapsed(start)})`);
+		return {
+			source: toEnvironmentJson(source),
+			target: toEnvironmentJson(target),
+		};
+	} finally {
+		db.close();
+	}
+}
+
+async function dbSnapshot(query: string | undefined, name: string | undefined) {
+	if (!name) {
+		throw new DevenvError(
+			"USAGE",
+			"Missing required argument: <name>\nUsage: devenv db snapshot [env-name] <name>",
+		);
+	}
+
+	const db = createDatabase();
+	try {
+		const environment = resolveEnvironment(db, query);
+		log.info(`Saving the databases of ${environment.name} as ${name}`);
+		const snapshot = await snapshotDatabase(environment, name);
+		log.info(`Snapshot saved: ${snapshot.path}`);
+		return { environment: toEnvironmentJson(environment), snapshot };
+	} finally {
+		db.close();
+	}
+}
+
+async function dbRestore(
+	query: string | undefined,
+	name: string | undefined,
+	confirmed: boolean,
+) {
+	if (!name) {
+		throw new DevenvError(
+			"USAGE",
+			"Missing required argument: <name>\nUsage: devenv db restore [env-name] <name>",
+		);
+	}
+
+	const db = createDatabase();
+	try {
+		const environment = resolveEnvironmentExactly(
+			db,
+			query,
+			"db restore",
+			confirmed,
+		);
+		log.info(`Restoring the databases of ${environment.name} from ${name}`);
+		const snapshot = await restoreDatabase(environment, name);
+		log.info("Databases restored");
+		return { environment: toEnvironmentJson(environment), snapshot };
+	} finally {
+		db.close();
+	}
+}
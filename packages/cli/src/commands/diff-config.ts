@@ -0,0 +1,70 @@
+import { createDatabase } from "../db/database.js";
+import { detectConfigDrift, hasDrift } from "../environments/drift.js";
+import { formatJsonChanges } from "../utils/json-diff.js";
+import { log } from "../utils/logger.js";
+import { toEnvironmentJson } from "../utils/output.js";
+import { resolveEnvironment } from "../utils/resolve-env.js";
+import { registerCommand } from "./index.js";
+
+registerCommand({
+	name: "diff-config",
+	description:
+		"Show how an environment's container config differs from what devenv would build now",
+	positionals: [
+		{
+			name: "envName",
+			description:
+				"Name or unique prefix of the environment (default: the one containing the current directory)",
+			complete: "environment",
+		},
+	],
+	async run({ args }) {
+		const db = createDatabase();
+		try {
+			const environment = resolveEnvironment(db, args.envName);
+			const drift = await detectConfigDrift(db, environment);
+
+			if (drift.devcontainer.length > 0) {
+				log.info("devcontainer.json (created with → now):");
+				for (const line of formatJsonChanges(drift.devcontainer)) {
+					log.info(`  ${line}`);
+				}
+			}
+			if (drift.ports.length > 0) {
+				log.info("Ports (routed → configured):");
+				for (const line of formatJsonChanges(drift.ports)) {
+					log.info(`  ${line}`);
+				}
+			}
+			if (drift.merged === null) {
+				log.info(
+					"The config the container was built with is not recorded; only devcontainer.json is compared.",
+				);
+			} else if (drift.merged.length > 0) {
+				log.info("Container config (applied → now):");
+				for (const line of formatJsonChanges(drift.merged)) {
+					log.info(`  ${line}`);
+				}
+			}
+
+			const changed = hasDrift(drift);
+			if (changed) {
+				log.info(
+					`\nRun "devenv rebuild ${environment.name}" to apply the current config.`,
+				);
+			} else {
+				log.info(`${environment.name} matches the current config.`);
+			}
+
+			return {
+				environment: toEnvironmentJson(environment),
+				drift: changed,
+				devcontainer: drift.devcontainer,
+				ports: drift.ports,
+				merged: drift.merged,
+			};
+		} finally {
+			db.close();
+		}
+	},
+});
@@ -1,70 +1,116 @@
+import { existsSync } from "node:fs";
 import {
 	createDatabase,
 	getEnvFiles,
-	getEnvironmentByName,
+	getPortMappings,
 	upsertEnvFile,
 } from "../db/database.js";
-import { registerCommand } from "./index.js";
+import { getEnvironmentProject } from "../environments/lifecycle.js";
+import { loadProjectConfig } from "../project/config.js";
+import {
+	describeWrittenEnvFile,
+	envFileVariables,
+	localhostHostnames,
+	writeEnvFile,
+} from "../utils/envfiles.js";
+import { DevenvError } from "../utils/errors.js";
+import { log } from "../utils/logger.js";
+import { toEnvironmentJson } from "../utils/output.js";
+import { resolveEnvironment } from "../utils/resolve-env.js";
+import { defineCommand, registerCommand } from "./index.js";
 
 registerCommand({
 	name: "env",
 	description: "Manage environment variables",
-	async run(args: string[]) {
-		const subcommand = args[0];
-
-		if (subcommand === "list") {
-			await envList(args.slice(1));
-		} else if (subcommand === "set") {
-			await envSet(args.slice(1));
-		} else {
-			console.error("Usage:");
-			console.error("  devenv env list <env-name>");
-			console.error("  devenv env set <env-name> <KEY=VALUE>");
-			process.exit(1);
-		}
-	},
+	subcommands: [
+		defineCommand({
+			name: "list",
+			description: "Show the env files stored for an environment",
+			positionals: [
+				{
+					name: "envName",
+					description:
+						"Name or unique prefix of the environment (default: the one containing the current directory)",
+					complete: "environment",
+				},
+			],
+			run: ({ args }) => envList(args.envName),
+		}),
+		defineCommand({
+			name: "set",
+			description: "Set a variable in the environment's .env file",
+			positionals: [
+				{
+					name: "envName",
+					description:
+						"Name or unique prefix of the environment (default: the one containing the current directory)",
+					complete: "environment",
+				},
+				{
+					name: "assignment",
+					description: "Variable to set",
+					placeholder: "KEY=VALUE",
+				},
+			],
+			run: ({ args }) =>
+				// With a single argument, it is the assignment and the environment
+				// comes from the working directory
+				args.assignment === undefined
+					? envSet(undefined, args.envName)
+					: envSet(args.envName, args.assignment),
+		}),
+	],
 });
 
-async function envList(args: string[]): Promise<void> {
-	const envName = args[0];
-	if (!envName) {
-		throw new Error("Usage: devenv env list <env-name>");
-	}
-
+async function envList(query: string | undefined) {
 	const db = createDatabase();
 	try {
-		const environment = getEnvironmentByName(db, envName);
-		if (!environment) {
-			throw new Error(`Environment not found: ${envName}`);
-		}
+		const environment = resolveEnvironment(db, query);
+		const envName = environment.name;
 
 		const envFiles = getEnvFiles(db, environment.id);
+		const result = {
+			environment: toEnvironmentJson(environment),
+			files: envFiles.map((f) => ({
+				path: f.relativePath,
+				content: f.content,
+				encoding: f.encoding,
+			})),
+		};
 
 		if (envFiles.length === 0) {
-			console.log(`No env files stored for environment: ${envName}`);
-			return;
+			log.info(`No env files stored for environment: ${envName}`);
+			return result;
 		}
 
 		for (const file of envFiles) {
-			console.log(`\n--- ${file.relativePath} ---`);
-			console.log(file.content);
+			log.info(`\n--- ${file.relativePath} ---`);
+			log.info(
+				file.encoding === "base64"
+					? `(binary, ${Buffer.from(file.content, "base64").length} bytes)`
+					: file.content,
+			);
 		}
+		return result;
 	} finally {
 		db.close();
 	}
 }
 
-async function envSet(args: string[]): Promise<void> {
-	const envName = args[0];
-	const keyValue = args[1];
-
-	if (!envName || !keyValue) {
-		throw new Error("Usage: devenv env set <env-name> <KEY=VALUE>");
+async function envSet(query: string | undefined, keyValue: string | undefined) {
+	if (!keyValue) {
+		throw new DevenvError(
+			"USAGE",
+			"Missing required argument: <KEY=VALUE>\nUsage: devenv env set [env-name] <KEY=VALUE>",
+		);
 	}
 
 	const equalsIndex = keyValue.indexOf("=");
 	if (equalsIndex === -1) {
-		throw new Error(`Invalid format: "${keyValue}". Expected KEY=VALUE.`);
+		throw new DevenvError(
+			"USAGE",
+			`Invalid format: "${keyValue}". Expected KEY=VALUE.`,
+		);
 	}
 
 	const key = keyValue.substring(0, equalsIndex);
@@ -72,14 +118,20 @@ async function envSet(args: string[]): Promise<void> {
 
 	const db = createDatabase();
 	try {
-		const environment = getEnvironmentByName(db, envName);
-		if (!environment) {
-			throw new Error(`Environment not found: ${envName}`);
-		}
+		const environment = resolveEnvironment(db, query);
+		const envName = environment.name;
 
 		// Get existing .env file content or start fresh
 		const envFiles = getEnvFiles(db, environment.id);
 		const envFile = envFiles.find((f) => f.relativePath === ".env");
+		// Editing base64 as text would corrupt the file
+		if (envFile && envFile.encoding !== "utf8") {
+			throw new DevenvError(
+				"USAGE",
+				`The .env of ${envName} is not UTF-8 text, so it cannot be edited with env set. Edit it in the worktree instead.`,
+			);
+		}
+		const encoding = envFile?.encoding ?? "utf8";
 		let content = envFile?.content ?? "";
 
 		// Check if key already exists and update it, otherwise append
@@ -104,8 +156,35 @@ async function envSet(args: string[]): Promise<void> {
 			content = lines.join("\n");
 		}
 
-		upsertEnvFile(db, environment.id, ".env", content);
-		console.log(`Set ${key}=${value} in ${envName}`);
+		upsertEnvFile(db, environment.id, ".env", content, encoding);
+		log.info(`Set ${key}=${value} in ${envName}`);
+
+		// The worktree gets the rendered file; the stored one keeps placeholders
+		if (environment.worktreePath && existsSync(environment.worktreePath)) {
+			const project = getEnvironmentProject(db, environment);
+			const projectConfig = (await loadProjectConfig(project.repoPath))?.config;
+			const portMappings = getPortMappings(db, environment.id);
+			const report = describeWrittenEnvFile(
+				".env",
+				writeEnvFile(
+					environment.worktreePath,
+					{ relativePath: ".env", content, encoding },
+					envFileVariables(environment, portMappings),
+					projectConfig?.envFiles?.rewriteLocalhost
+						? localhostHostnames(portMappings)
+						: null,
+				),
+			);
+			for (const warning of report.warnings) log.warn(warning);
+			for (const change of report.changes) log.info(`Rewrote ${change}`);
+		}
+
+		return {
+			environment: toEnvironmentJson(environment),
+			file: ".env",
+			key,
+			value,
+		};
 	} finally {
 		db.close();
 	}
@@ -1,13 +1,119 @@
-interface Command {
+import { DevenvError } from "../utils/errors.js";
+import { log } from "../utils/logger.js";
+import {
+	type CommandInput,
+	type CommandSchema,
+	type FlagSchema,
+	formatHelp,
+	type ParsedFlags,
+	type ParsedInput,
+	type PositionalSpec,
+	parseArgs,
+	toKebabCase,
+} from "./args.js";
+
+export interface CommandDefinition<
+	F extends FlagSchema,
+	P extends readonly PositionalSpec[],
+> {
+	name: string;
+	description: string;
+	hidden?: boolean;
+	flags?: F;
+	positionals?: P;
+	// The resolved value is the command's result, printed as the `data` field
+	// of the JSON document when devenv runs with --json.
+	run: (input: CommandInput<F, P>) => Promise<unknown>;
+}
+
+export interface CommandGroupDefinition {
 	name: string;
 	description: string;
-	run: (args: string[]) => Promise<void>;
+	hidden?: boolean;
+	subcommands: Command[];
+}
+
+export interface Command extends CommandSchema {
+	subcommands?: Command[];
+	run?: (input: ParsedInput) => Promise<unknown>;
 }
 
 const commands = new Map<string, Command>();
 
-export function registerCommand(command: Command): void {
-	commands.set(command.name, command);
+// Flags accepted by every command. The entry point strips them before
+// dispatch, so command schemas never declare them.
+export const globalFlags = {
+	json: {
+		type: "boolean",
+		description: "Print a JSON document instead of human-readable output",
+	},
+	verbose: {
+		type: "boolean",
+		description: "Show debug output, including devcontainer and Caddy logs",
+	},
+	quiet: {
+		type: "boolean",
+		description: "Only show warnings and errors",
+	},
+} satisfies FlagSchema;
+
+export function extractGlobalFlags(argv: string[]): {
+	flags: ParsedFlags<typeof globalFlags>;
+	rest: string[];
+} {
+	const flags = { json: false, verbose: false, quiet: false };
+	const byName = new Map(
+		Object.keys(globalFlags).map((key) => [
+			`--${toKebabCase(key)}`,
+			key as keyof typeof globalFlags,
+		]),
+	);
+	const rest: string[] = [];
+	let onlyPositionals = false;
+	for (const arg of argv) {
+		if (arg === "--") {
+			onlyPositionals = true;
+		}
+		const key = onlyPositionals ? undefined : byName.get(arg);
+		if (key) {
+			flags[key] = true;
+			continue;
+		}
+		rest.push(arg);
+	}
+	if (flags.verbose && flags.quiet) {
+		throw new DevenvError(
+			"USAGE",
+			"--verbose and --quiet cannot be used together",
+		);
+	}
+	return { flags, rest };
+}
+
+// Identity helper that keeps flag and positional types inferred for
+// subcommands declared inline in a command group.
+export function defineCommand<
+	const F extends FlagSchema = Record<never, never>,
+	const P extends readonly PositionalSpec[] = [],
+>(command: CommandDefinition<F, P>): Command {
+	return command as unknown as Command;
+}
+
+export function registerCommand<
+	const F extends FlagSchema = Record<never, never>,
+	const P extends readonly PositionalSpec[] = [],
+>(command: CommandDefinition<F, P>): void;
+export function registerCommand(command: CommandGroupDefinition): void;
+export function registerCommand(
+	command: CommandDefinition<FlagSchema, []> | CommandGroupDefinition,
+): void {
+	if (commands.has(command.name)) {
+		throw new DevenvError(
+			"INTERNAL",
+			`Command already registered: ${command.name}`,
+		);
+	}
+	commands.set(command.name, command as unknown as Command);
 }
 
 export function getCommand(name: string): Command | undefined {
@@ -17,3 +123,43 @@ export function getCommand(name: string): Command | undefined {
 export function getAllCommands(): Command[] {
 	return Array.from(commands.values());
 }
+
+export async function runCommand(
+	command: Command,
+	argv: string[],
+	path: string[] = [command.name],
+): Promise<unknown> {
+	if (command.subcommands) {
+		const [name, ...rest] = argv;
+		if (name === undefined || name === "--help" || name === "-h") {
+			log.info(formatHelp(command, path));
+			return null;
+		}
+		const subcommand = command.subcommands.find((sub) => sub.name === name);
+		if (!subcommand) {
+			throw new DevenvError(
+				"USAGE",
+				`Unknown subcommand: ${name}. Run "devenv ${path.join(" ")} --help" for usage.`,
+			);
+		}
+		return runCommand(subcommand, rest, [...path, subcommand.name]);
+	}
+
+	const helpIndex = argv.findIndex((arg) => arg === "--help" || arg === "-h");
+	const separatorIndex = argv.indexOf("--");
+	if (
+		helpIndex !== -1 &&
+		(separatorIndex === -1 || helpIndex < separatorIndex)
+	) {
+		log.info(formatHelp(command, path));
+		return null;
+	}
+
+	if (!command.run) {
+		throw new DevenvError(
+			"INTERNAL",
+			`Command has no handler: ${command.name}`,
+		);
+	}
+	return command.run(parseArgs(command, path, argv));
+}
@@ -3,6 +3,9 @@ import {
 	getPortMappings,
 	getProjectsWithEnvironments,
 } from "../db/database.js";
+import { projectDriftCheck } from "../environments/drift.js";
+import { log } from "../utils/logger.js";
+import { toEnvironmentJson, toPortMappingJson } from "../utils/output.js";
 import { registerCommand } from "./index.js";
 
 registerCommand({
@@ -11,19 +14,35 @@ registerCommand({
 	async run() {
 		const db = createDatabase();
 		try {
-			const projects = getProjectsWithEnvironments(db);
+			const projects = [];
+			for (const project of getProjectsWithEnvironments(db)) {
+				const environments = [];
+				const configDrifted = await projectDriftCheck(db, project);
+				for (const env of project.environments) {
+					environments.push({
+						...toEnvironmentJson(env),
+						ports: getPortMappings(db, env.id).map(toPortMappingJson),
+						configDrift: await configDrifted(env),
+					});
+				}
+				projects.push({
+					name: project.name,
+					repoPath: project.repoPath,
+					environments,
+				});
+			}
 
 			if (projects.length === 0) {
-				console.log("No environments found.");
-				console.log('Run "devenv create --repo <path>" to create one.');
-				return;
+				log.info("No environments found.");
+				log.info('Run "devenv create --repo <path>" to create one.');
+				return { projects };
 			}
 
 			for (const project of projects) {
-				console.log(`\n${project.name} (${project.repoPath})`);
+				log.info(`\n${project.name} (${project.repoPath})`);
 
 				if (project.environments.length === 0) {
-					console.log("  No environments");
+					log.info("  No environments");
 					continue;
 				}
 
@@ -31,20 +50,28 @@ registerCommand({
 					const status =
 						env.status === "running" ? "\x1b[32m●\x1b[0m" : "\x1b[90m○\x1b[0m";
 					const statusText =
-						env.status === "running" ? "\x1b[32mrunning\x1b[0m" : env.status;
+						env.status === "running"
+							? "\x1b[32mrunning\x1b[0m"
+							: env.status === "error"
+								? "\x1b[31merror\x1b[0m"
+								: env.status;
 
-					console.log(
-						`  ${status} ${env.name.padEnd(30)} ${env.branch.padEnd(20)} ${statusText}`,
+					const drift = env.configDrift ? " \x1b[33mconfig changed\x1b[0m" : "";
+					log.info(
+						`  ${status} ${env.name.padEnd(30)} ${env.branch.padEnd(20)} ${statusText}${drift}`,
 					);
+					if (env.errorMessage) {
+						// Only the first line; the full message is in the JSON output
+						log.info(`      \x1b[31m${env.errorMessage.split("\n")[0]}\x1b[0m`);
+					}
 
-					const portMappings = getPortMappings(db, env.id);
-					for (const pm of portMappings) {
-						console.log(
-							`      http://${pm.hostname} \u2192 :${pm.containerPort}`,
-						);
+					for (const pm of env.ports) {
+						log.info(`      http://${pm.hostname} → :${pm.containerPort}`);
 					}
 				}
 			}
+
+			return { projects };
 		} finally {
 			db.close();
 		}
@@ -1,51 +1,48 @@
-import { basename } from "node:path";
-import { createDatabase, getEnvironmentByName } from "../db/database.js";
+import { createDatabase } from "../db/database.js";
+import { editorFolderUri } from "../environments/workspace.js";
+import { environmentNotRunning, noContainer } from "../utils/errors.js";
+import { log } from "../utils/logger.js";
+import { toEnvironmentJson } from "../utils/output.js";
+import { resolveEnvironment } from "../utils/resolve-env.js";
 import { registerCommand } from "./index.js";
 
-function hexEncode(str: string): string {
-	return Buffer.from(str, "utf-8").toString("hex");
-}
-
 registerCommand({
 	name: "open",
 	description: "Open an environment in VS Code or Cursor",
-	async run(args: string[]) {
-		const useCursor = args.includes("--cursor");
-		const filteredArgs = args.filter((a) => a !== "--cursor");
-		const envName = filteredArgs[0];
-
-		if (!envName) {
-			throw new Error("Usage: devenv open <env-name> [--cursor]");
-		}
-
+	flags: {
+		cursor: {
+			type: "boolean",
+			description: "Open in Cursor instead of VS Code",
+		},
+	},
+	positionals: [
+		{
+			name: "envName",
+			description:
+				"Name or unique prefix of the environment (default: the one containing the current directory)",
+			complete: "environment",
+		},
+	],
+	async run({ flags, args }) {
+		const useCursor = flags.cursor;
 		const db = createDatabase();
 		try {
-			const environment = getEnvironmentByName(db, envName);
-			if (!environment) {
-				throw new Error(`Environment not found: ${envName}`);
-			}
+			const environment = resolveEnvironment(db, args.envName);
+			const envName = environment.name;
+			const { containerId } = environment;
 
 			if (environment.status !== "running") {
-				throw new Error(
-					`Environment is not running (status: ${environment.status}). Start it first with: devenv start ${envName}`,
-				);
+				throw environmentNotRunning(envName, environment.status);
 			}
 
-			if (!environment.containerId) {
-				throw new Error(`No container associated with environment: ${envName}`);
+			if (!containerId) {
+				throw noContainer(envName);
 			}
 
-			const workDir = environment.worktreePath
-				? `/workspaces/${basename(environment.worktreePath)}`
-				: "/workspaces";
-
-			const encodedId = hexEncode(environment.containerId);
-			const folderUri = `vscode-remote://attached-container+${encodedId}${workDir}`;
+			const folderUri = editorFolderUri({ ...environment, containerId });
 
 			const editor = useCursor ? "cursor" : "code";
-			console.log(
-				`Opening ${envName} in ${useCursor ? "Cursor" : "VS Code"}...`,
-			);
+			log.info(`Opening ${envName} in ${useCursor ? "Cursor" : "VS Code"}...`);
 
 			const proc = Bun.spawn([editor, "--folder-uri", folderUri], {
 				stdin: "inherit",
@@ -54,6 +51,12 @@ registerCommand({
 			});
 
 			await proc.exited;
+
+			return {
+				environment: toEnvironmentJson(environment),
+				editor,
+				folderUri,
+			};
 		} finally {
 			db.close();
 		}
@@ -0,0 +1,107 @@
+import type { Project } from "@repo/shared";
+import {
+	createDatabase,
+	getProjectByName,
+	getProjectsWithEnvironments,
+} from "../db/database.js";
+import { findDevcontainerConfig } from "../devcontainer/parser.js";
+import {
+	buildPrebuild,
+	getPrebuildStatus,
+	pruneStalePrebuilds,
+} from "../devcontainer/prebuild.js";
+import { ensureDevcontainerCLI } from "../devcontainer/prerequisites.js";
+import { loadProjectConfig } from "../project/config.js";
+import { DevenvError } from "../utils/errors.js";
+import { getRepoRoot } from "../utils/git.js";
+import { log } from "../utils/logger.js";
+import { elapsed } from "../utils/output.js";
+import { registerCommand } from "./index.js";
+
+async function resolveProject(name: string | undefined): Promise<Project> {
+	const db = createDatabase();
+	try {
+		if (name) {
+			const project = getProjectByName(db, name);
+			if (!project) {
+				throw new DevenvError(
+					"PROJECT_NOT_FOUND",
+					`Project not found: ${name}`,
+				);
+			}
+			return project;
+		}
+
+		const repoRoot = await getRepoRoot(process.cwd());
+		const project = getProjectsWithEnvironments(db).find(
+			(p) => p.repoPath === repoRoot,
+		);
+		if (!project) {
+			throw new DevenvError(
+				"PROJECT_NOT_FOUND",
+				"No project name given and the current directory is not a devenv project. Create an environment first or pass the project name.",
+			);
+		}
+		return project;
+	} finally {
+		db.close();
+	}
+}
+
+registerCommand({
+	name: "prebuild",
+	description:
+		"Build and tag a project's devcontainer image for new environments to reuse",
+	flags: {
+		force: {
+			type: "boolean",
+			description: "Rebuild even when the image is up to date",
+		},
+	},
+	positionals: [
+		{
+			name: "project",
+			description:
+				"Project to prebuild (default: the one containing the current directory)",
+		},
+	],
+	async run({ args, flags }) {
+		await ensureDevcontainerCLI();
+		const project = await resolveProject(args.project);
+
+		const loadedConfig = await loadProjectConfig(project.repoPath);
+		if (loadedConfig) {
+			log.info(`Using project config: ${loadedConfig.path}`);
+		}
+		const source = {
+			projectName: project.name,
+			repoPath: project.repoPath,
+			devcontainerConfig: await findDevcontainerConfig(project.repoPath),
+			projectConfig: loadedConfig?.config ?? null,
+		};
+
+		const status = await getPrebuildStatus(source);
+		const result = {
+			project: { name: project.name, repoPath: project.repoPath },
+			image: status.image,
+			built: false,
+			removed: [] as string[],
+		};
+		if (status.current && !flags.force) {
+			log.info(`Prebuilt image is up to date: ${status.image}`);
+			return result;
+		}
+
+		log.info(`Prebuilding ${project.name}`);
+		const start = performance.now();
+		await buildPrebuild(source);
+		result.built = true;
+		log.info(`Built ${status.image} (${elapsed(start)})`);
+
+		result.removed = await pruneStalePrebuilds(status.stale);
+		for (const tag of result.removed) {
+			log.info(`  Removed stale image ${tag}`);
+		}
+		return result;
+	},
+});
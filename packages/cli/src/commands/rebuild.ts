@@ -0,0 +1,68 @@
+import { createDatabase, getEnvironmentByName } from "../db/database.js";
+import { ensureDevcontainerCLI } from "../devcontainer/prerequisites.js";
+import { rebuildEnvironment } from "../environments/rebuild.js";
+import { log } from "../utils/logger.js";
+import {
+	elapsed,
+	toEnvironmentJson,
+	toPortMappingJson,
+} from "../utils/output.js";
+import { resolveEnvironmentExactly } from "../utils/resolve-env.js";
+import { registerCommand } from "./index.js";
+
+registerCommand({
+	name: "rebuild",
+	description:
+		"Recreate an environment's container from the current devcontainer config, keeping its worktree, ports and env files",
+	positionals: [
+		{
+			name: "envName",
+			description:
+				"Name of the environment (default: the one containing the current directory, with --yes)",
+			complete: "environment",
+		},
+	],
+	flags: {
+		yes: {
+			type: "boolean",
+			short: "y",
+			description:
+				"Act on an environment matched by prefix or the current directory without naming it in full",
+		},
+	},
+	async run({ args, flags }) {
+		await ensureDevcontainerCLI();
+		const start = performance.now();
+
+		const db = createDatabase();
+		try {
+			const environment = resolveEnvironmentExactly(
+				db,
+				args.envName,
+				"rebuild",
+				flags.yes,
+			);
+			const envName = environment.name;
+
+			log.info(`Rebuilding environment: ${envName}`);
+			const portMappings = await rebuildEnvironment(db, environment);
+
+			log.info(`Environment rebuilt: ${envName} (${elapsed(start)})`);
+			if (portMappings.length > 0) {
+				log.info("  URLs:");
+				for (const pm of portMappings) {
+					log.info(`    http://${pm.hostname} → :${pm.containerPort}`);
+				}
+			}
+
+			return {
+				environment: toEnvironmentJson(
+					getEnvironmentByName(db, envName) ?? environment,
+				),
+				ports: portMappings.map(toPortMappingJson),
+			};
+		} finally {
+			db.close();
+		}
+	},
+});
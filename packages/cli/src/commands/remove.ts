@@ -1,52 +1,48 @@
-import {
-	createDatabase,
-	deleteEnvFiles,
-	deleteEnvironment,
-	deletePortMappings,
-	getEnvironmentByName,
-	getPortMappings,
-} from "../db/database.js";
-import { removeContainer } from "../docker/client.js";
-import { removeRoute } from "../tunnel/caddy.js";
-import { formatRouteId } from "../utils/envfiles.js";
+import { createDatabase } from "../db/database.js";
+import { removeEnvironment } from "../environments/lifecycle.js";
+import { log } from "../utils/logger.js";
+import { toEnvironmentJson } from "../utils/output.js";
+import { resolveEnvironmentExactly } from "../utils/resolve-env.js";
 import { registerCommand } from "./index.js";
 
 registerCommand({
 	name: "remove",
 	description: "Remove a development environment and its container",
-	async run(args: string[]) {
-		const envName = args[0];
-		if (!envName) {
-			throw new Error("Usage: devenv remove <env-name>");
-		}
-
+	positionals: [
+		{
+			name: "envName",
+			description:
+				"Name of the environment (default: the one containing the current directory, with --yes)",
+			complete: "environment",
+		},
+	],
+	flags: {
+		yes: {
+			type: "boolean",
+			short: "y",
+			description:
+				"Act on an environment matched by prefix or the current directory without naming it in full",
+		},
+	},
+	async run({ args, flags }) {
 		const db = createDatabase();
 		try {
-			const environment = getEnvironmentByName(db, envName);
-			if (!environment) {
-				throw new Error(`Environment not found: ${envName}`);
-			}
-
-			console.log(`Removing environment: ${envName}`);
+			const environment = resolveEnvironmentExactly(
+				db,
+				args.envName,
+				"remove",
+				flags.yes,
+			);
+			const envName = environment.name;
 
-			// Remove Caddy routes
-			const portMappings = getPortMappings(db, environment.id);
-			for (const pm of portMappings) {
-				const routeId = formatRouteId(`${envName}-${pm.containerPort}`);
-				await removeRoute(routeId);
-			}
+			log.info(`Removing environment: ${envName}`);
 
-			// Remove Docker container (force=true handles running containers)
-			if (environment.containerId) {
-				await removeContainer(environment.containerId);
-			}
+			// Removes routes, the container and the environment's records
+			await removeEnvironment(db, environment);
 
-			// Clean up DB records (order matters due to foreign keys)
-			deletePortMappings(db, environment.id);
-			deleteEnvFiles(db, environment.id);
-			deleteEnvironment(db, environment.id);
+			log.info(`Environment removed: ${envName}`);
 
-			console.log(`Environment removed: ${envName}`);
+			return { environment: toEnvironmentJson(environment) };
 		} finally {
 			db.close();
 		}
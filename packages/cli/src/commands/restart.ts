@@ -0,0 +1,48 @@
+import { createDatabase, getEnvironmentByName } from "../db/database.js";
+import { restartEnvironment } from "../environments/lifecycle.js";
+import { log } from "../utils/logger.js";
+import { toEnvironmentJson, toPortMappingJson } from "../utils/output.js";
+import { resolveEnvironment } from "../utils/resolve-env.js";
+import { registerCommand } from "./index.js";
+
+registerCommand({
+	name: "restart",
+	description: "Stop and start a development environment's container",
+	positionals: [
+		{
+			name: "envName",
+			description:
+				"Name or unique prefix of the environment (default: the one containing the current directory)",
+			complete: "environment",
+		},
+	],
+	async run({ args }) {
+		const db = createDatabase();
+		try {
+			const environment = resolveEnvironment(db, args.envName);
+			const envName = environment.name;
+
+			log.info(`Restarting environment: ${envName}`);
+
+			// Restarts the container and re-registers its routes
+			const portMappings = await restartEnvironment(db, environment);
+
+			log.info(`Environment restarted: ${envName}`);
+			if (portMappings.length > 0) {
+				log.info("  URLs:");
+				for (const pm of portMappings) {
+					log.info(`    http://${pm.hostname} → :${pm.containerPort}`);
+				}
+			}
+
+			return {
+				environment: toEnvironmentJson(
+					getEnvironmentByName(db, envName) ?? environment,
+				),
+				ports: portMappings.map(toPortMappingJson),
+			};
+		} finally {
+			db.close();
+		}
+	},
+});
@@ -1,54 +1,54 @@
-import {
-	createDatabase,
-	getEnvironmentByName,
-	getPortMappings,
-	updateEnvironmentStatus,
-} from "../db/database.js";
-import { startContainer } from "../docker/client.js";
-import { addRoute, ensureCaddyRunning } from "../tunnel/caddy.js";
-import { formatRouteId } from "../utils/envfiles.js";
+import { createDatabase, getEnvironmentByName } from "../db/database.js";
+import { configDrifted } from "../environments/drift.js";
+import { startEnvironment } from "../environments/lifecycle.js";
+import { log } from "../utils/logger.js";
+import { toEnvironmentJson, toPortMappingJson } from "../utils/output.js";
+import { resolveEnvironment } from "../utils/resolve-env.js";
 import { registerCommand } from "./index.js";
 
 registerCommand({
 	name: "start",
 	description: "Start a development environment",
-	async run(args: string[]) {
-		const envName = args[0];
-		if (!envName) {
-			throw new Error("Usage: devenv start <env-name>");
-		}
-
+	positionals: [
+		{
+			name: "envName",
+			description:
+				"Name or unique prefix of the environment (default: the one containing the current directory)",
+			complete: "environment",
+		},
+	],
+	async run({ args }) {
 		const db = createDatabase();
 		try {
-			const environment = getEnvironmentByName(db, envName);
-			if (!environment) {
-				throw new Error(`Environment not found: ${envName}`);
-			}
-
-			if (!environment.containerId) {
-				throw new Error(`No container associated with environment: ${envName}`);
-			}
+			const environment = resolveEnvironment(db, args.envName);
+			const envName = environment.name;
 
-			console.log(`Starting environment: ${envName}`);
+			log.info(`Starting environment: ${envName}`);
 
-			await startContainer(environment.containerId);
-			updateEnvironmentStatus(db, environment.id, "running");
+			// Starts the container and re-registers its routes
+			const portMappings = await startEnvironment(db, environment);
 
-			// Ensure Caddy is running and re-register routes
-			await ensureCaddyRunning();
-			const portMappings = getPortMappings(db, environment.id);
-			for (const pm of portMappings) {
-				const routeId = formatRouteId(`${envName}-${pm.containerPort}`);
-				await addRoute(routeId, pm.hostname, pm.hostPort);
-			}
-
-			console.log(`Environment started: ${envName}`);
+			log.info(`Environment started: ${envName}`);
 			if (portMappings.length > 0) {
-				console.log("  URLs:");
+				log.info("  URLs:");
 				for (const pm of portMappings) {
-					console.log(`    http://${pm.hostname} → :${pm.containerPort}`);
+					log.info(`    http://${pm.hostname} → :${pm.containerPort}`);
 				}
 			}
+			const configDrift = await configDrifted(db, environment);
+			if (configDrift) {
+				log.warn(
+					`The config changed since the container was built. Run "devenv diff-config ${envName}" to see how, and "devenv rebuild ${envName}" to apply it.`,
+				);
+			}
+
+			return {
+				environment: toEnvironmentJson(
+					getEnvironmentByName(db, envName) ?? environment,
+				),
+				ports: portMappings.map(toPortMappingJson),
+				configDrift,
+			};
 		} finally {
 			db.close();
 		}
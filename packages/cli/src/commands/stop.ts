@@ -1,47 +1,39 @@
-import {
-	createDatabase,
-	getEnvironmentByName,
-	getPortMappings,
-	updateEnvironmentStatus,
-} from "../db/database.js";
-import { stopContainer } from "../docker/client.js";
-import { removeRoute } from "../tunnel/caddy.js";
-import { formatRouteId } from "../utils/envfiles.js";
+import { createDatabase, getEnvironmentByName } from "../db/database.js";
+import { stopEnvironment } from "../environments/lifecycle.js";
+import { log } from "../utils/logger.js";
+import { toEnvironmentJson } from "../utils/output.js";
+import { resolveEnvironment } from "../utils/resolve-env.js";
 import { registerCommand } from "./index.js";
 
 registerCommand({
 	name: "stop",
 	description: "Stop a development environment",
-	async run(args: string[]) {
-		const envName = args[0];
-		if (!envName) {
-			throw new Error("Usage: devenv stop <env-name>");
-		}
-
+	positionals: [
+		{
+			name: "envName",
+			description:
+				"Name or unique prefix of the environment (default: the one containing the current directory)",
+			complete: "environment",
+		},
+	],
+	async run({ args }) {
 		const db = createDatabase();
 		try {
-			const environment = getEnvironmentByName(db, envName);
-			if (!environment) {
-				throw new Error(`Environment not found: ${envName}`);
-			}
-
-			if (!environment.containerId) {
-				throw new Error(`No container associated with environment: ${envName}`);
-			}
+			const environment = resolveEnvironment(db, args.envName);
+			const envName = environment.name;
 
-			console.log(`Stopping environment: ${envName}`);
+			log.info(`Stopping environment: ${envName}`);
 
-			await stopContainer(environment.containerId);
-			updateEnvironmentStatus(db, environment.id, "stopped");
+			// Stops the container and removes its routes
+			await stopEnvironment(db, environment);
 
-			// Remove Caddy routes
-			const portMappings = getPortMappings(db, environment.id);
-			for (const pm of portMappings) {
-				const routeId = formatRouteId(`${envName}-${pm.containerPort}`);
-				await removeRoute(routeId);
-			}
+			log.info(`Environment stopped: ${envName}`);
 
-			console.log(`Environment stopped: ${envName}`);
+			return {
+				environment: toEnvironmentJson(
+					getEnvironmentByName(db, envName) ?? environment,
+				),
+			};
 		} finally {
 			db.close();
 		}
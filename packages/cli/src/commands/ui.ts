@@ -0,0 +1,22 @@
+import { runTui } from "../tui/app.js";
+import { DevenvError } from "../utils/errors.js";
+import { isJsonOutput } from "../utils/output.js";
+import { registerCommand } from "./index.js";
+
+registerCommand({
+	name: "ui",
+	description: "Browse and manage environments in a full-screen terminal UI",
+	async run() {
+		if (isJsonOutput()) {
+			throw new DevenvError(
+				"USAGE",
+				"devenv ui is interactive and does not support --json",
+			);
+		}
+		if (!process.stdin.isTTY || !process.stdout.isTTY) {
+			throw new DevenvError("USAGE", "devenv ui needs an interactive terminal");
+		}
+		await runTui();
+		return null;
+	},
+});
@@ -0,0 +1,139 @@
+import type { ResourceLimits } from "@repo/shared";
+import {
+	createDatabase,
+	getEnvironmentByName,
+	updateEnvironmentLimits,
+} from "../db/database.js";
+import { DockerError, updateContainer } from "../docker/client.js";
+import { getEnvironmentProject } from "../environments/lifecycle.js";
+import {
+	formatLimits,
+	globalLimits,
+	LIMIT_KEYS,
+	limitFlags,
+	limitsResources,
+	mergeLimits,
+	parseLimit,
+} from "../environments/limits.js";
+import { loadProjectConfig } from "../project/config.js";
+import { DevenvError } from "../utils/errors.js";
+import { log } from "../utils/logger.js";
+import { toEnvironmentJson } from "../utils/output.js";
+import { resolveEnvironment } from "../utils/resolve-env.js";
+import { registerCommand } from "./index.js";
+
+const CLEAR_VALUE = "none";
+
+registerCommand({
+	name: "update",
+	description: "Change an environment's CPU, memory and process limits",
+	flags: {
+		cpus: {
+			...limitFlags.cpus,
+			description: `${limitFlags.cpus.description}, or ${CLEAR_VALUE} to drop it`,
+		},
+		memory: {
+			...limitFlags.memory,
+			description: `${limitFlags.memory.description}, or ${CLEAR_VALUE} to drop it`,
+		},
+		pids: {
+			...limitFlags.pids,
+			description: `${limitFlags.pids.description}, or ${CLEAR_VALUE} to drop it`,
+		},
+		reset: {
+			type: "boolean",
+			description: "Drop every limit set for the environment itself",
+		},
+	},
+	positionals: [
+		{
+			name: "envName",
+			description:
+				"Name or unique prefix of the environment (default: the one containing the current directory)",
+			complete: "environment",
+		},
+	],
+	async run({ args, flags }) {
+		const changed = LIMIT_KEYS.filter((key) => flags[key] !== undefined);
+		if (changed.length === 0 && !flags.reset) {
+			throw new DevenvError(
+				"USAGE",
+				"Nothing to update. Pass --cpus, --memory, --pids or --reset.",
+			);
+		}
+
+		const db = createDatabase();
+		try {
+			const environment = resolveEnvironment(db, args.envName);
+			const envName = environment.name;
+			const project = getEnvironmentProject(db, environment);
+			const projectConfig = (await loadProjectConfig(project.repoPath))?.config;
+			const inherited = mergeLimits(globalLimits(db), projectConfig?.limits);
+
+			// Dropped limits fall back to the project and global ones
+			const envLimits: Record<string, number | string> = flags.reset
+				? {}
+				: { ...environment.resourceLimits };
+			for (const key of changed) {
+				const value = flags[key] as string;
+				if (value === CLEAR_VALUE) {
+					delete envLimits[key];
+				} else {
+					envLimits[key] = parseLimit(key, value, `--${key}`);
+				}
+			}
+			const previous = mergeLimits(inherited, environment.resourceLimits);
+			const limits = mergeLimits(inherited, envLimits as ResourceLimits);
+
+			// Docker may reject the limits, as with memory below what the
+			// container uses, so they are only saved once applied
+			let applied = false;
+			if (environment.containerId) {
+				const resources = limitsResources(limits);
+				// Docker lifts a process limit set to -1 and a CPU limit set to 0;
+				// a memory limit can only be lifted by recreating the container
+				if (previous.pids !== undefined && limits.pids === undefined) {
+					resources.PidsLimit = -1;
+				}
+				if (previous.cpus !== undefined && limits.cpus === undefined) {
+					resources.NanoCpus = 0;
+				}
+				try {
+					await updateContainer(environment.containerId, resources);
+					applied = true;
+				} catch (error) {
+					if (!(error instanceof DockerError && error.statusCode === 404)) {
+						throw error;
+					}
+				}
+			}
+			updateEnvironmentLimits(db, environment.id, envLimits);
+			log.info(`Limits for ${envName}: ${formatLimits(limits)}`);
+
+			if (!environment.containerId) {
+				log.info("No container yet; limits apply when it is created");
+			} else if (!applied) {
+				log.info(
+					"The container no longer exists; limits apply when it is recreated",
+				);
+			} else {
+				log.info("Applied to the container");
+				if (previous.memory !== undefined && limits.memory === undefined) {
+					log.warn(
+						"Lifting the memory limit takes effect when the container is recreated",
+					);
+				}
+			}
+
+			return {
+				environment: toEnvironmentJson(
+					getEnvironmentByName(db, envName) ?? environment,
+				),
+				limits: { environment: envLimits, effective: limits },
+				applied,
+			};
+		} finally {
+			db.close();
+		}
+	},
+});
@@ -0,0 +1,127 @@
+import { describe, expect, test } from "bun:test";
+import type { CommandSchema, FlagSchema } from "../../commands/args.js";
+import {
+	type CandidateSources,
+	completeWords,
+	formatCompletionResult,
+} from "../complete.js";
+
+const commands: CommandSchema[] = [
+	{
+		name: "create",
+		description: "Create",
+		flags: {
+			repo: {
+				type: "string",
+				description: "Repo",
+				complete: "directory",
+			},
+			branch: { type: "string", description: "Branch", complete: "branch" },
+			keepOnFailure: { type: "boolean", description: "Keep" },
+		},
+	},
+	{
+		name: "start",
+		description: "Start",
+		positionals: [
+			{ name: "envName", description: "Env", complete: "environment" },
+		],
+	},
+	{
+		name: "config",
+		description: "Config",
+		subcommands: [
+			{
+				name: "get",
+				description: "Get",
+				positionals: [{ name: "key", description: "Key", complete: "setting" }],
+			},
+			{ name: "list", description: "List" },
+		],
+	},
+	{ name: "__complete", description: "Hidden", hidden: true },
+];
+
+const globalFlags: FlagSchema = {
+	json: { type: "boolean", description: "JSON" },
+};
+
+const sources: CandidateSources = {
+	environment: async () => [
+		{ value: "app-main", description: "main (running)" },
+		{ value: "app-feat", description: "feat (stopped)" },
+	],
+	branch: async () => [{ value: "main" }, { value: "feat" }],
+	setting: async () => [{ value: "claude-token" }],
+};
+
+async function values(words: string[]): Promise<string[]> {
+	const result = await completeWords(commands, globalFlags, words, sources);
+	return result.candidates.map((c) => c.value);
+}
+
+describe("completeWords", () => {
+	test("completes command names and hides hidden commands", async () => {
+		expect(await values([""])).toEqual(["create", "start", "config"]);
+		expect(await values(["st"])).toEqual(["start"]);
+	});
+
+	test("completes subcommands", async () => {
+		expect(await values(["config", ""])).toEqual(["get", "list"]);
+	});
+
+	test("completes positionals from their source", async () => {
+		expect(await values(["start", "app-f"])).toEqual(["app-feat"]);
+		expect(await values(["config", "get", ""])).toEqual(["claude-token"]);
+	});
+
+	test("completes flag values from their source", async () => {
+		expect(await values(["create", "--branch", ""])).toEqual(["main", "feat"]);
+	});
+
+	test("defers path values to the shell", async () => {
+		const result = await completeWords(
+			commands,
+			globalFlags,
+			["create", "--repo", ""],
+			sources,
+		);
+		expect(result.directive).toBe("directories");
+	});
+
+	test("completes unused flag names including global flags", async () => {
+		expect(await values(["create", "--branch", "feat", "--"])).toEqual([
+			"--repo",
+			"--keep-on-failure",
+			"--json",
+			"--help",
+		]);
+	});
+
+	test("skips global flags when walking the command tree", async () => {
+		expect(await values(["--json", "start", ""])).toEqual([
+			"app-main",
+			"app-feat",
+		]);
+	});
+
+	test("returns nothing past the last positional or for unknown commands", async () => {
+		expect(await values(["start", "app-main", ""])).toEqual([]);
+		expect(await values(["nope", ""])).toEqual([]);
+		expect(await values(["config", "nope", ""])).toEqual([]);
+	});
+});
+
+describe("formatCompletionResult", () => {
+	test("prints tab-separated candidates and a directive line", () => {
+		expect(
+			formatCompletionResult({
+				candidates: [
+					{ value: "app-main", description: "main" },
+					{ value: "x" },
+				],
+				directive: "default",
+			}),
+		).toBe("app-main\tmain\nx\n:default");
+	});
+});
@@ -0,0 +1,159 @@
+import {
+	type CommandSchema,
+	type CompletionKind,
+	type FlagSchema,
+	type FlagSpec,
+	type PositionalSpec,
+	toKebabCase,
+} from "../commands/args.js";
+
+export interface Candidate {
+	value: string;
+	description?: string;
+}
+
+// Tells the shell script what to do with the result: offer the candidates,
+// or fall back to its own file or directory completion
+export type CompletionDirective = "default" | "files" | "directories";
+
+export interface CompletionResult {
+	candidates: Candidate[];
+	directive: CompletionDirective;
+}
+
+export type CandidateSources = Record<
+	"environment" | "branch" | "setting",
+	() => Promise<Candidate[]>
+>;
+
+function matching(candidates: Candidate[], prefix: string): Candidate[] {
+	return candidates.filter((c) => c.value.startsWith(prefix));
+}
+
+async function completeKind(
+	kind: CompletionKind | undefined,
+	prefix: string,
+	sources: CandidateSources,
+): Promise<CompletionResult> {
+	if (kind === "file") return { candidates: [], directive: "files" };
+	if (kind === "directory") return { candidates: [], directive: "directories" };
+	if (!kind) return { candidates: [], directive: "default" };
+	return {
+		candidates: matching(await sources[kind](), prefix),
+		directive: "default",
+	};
+}
+
+function findFlag(
+	schema: FlagSchema,
+	arg: string,
+): [string, FlagSpec] | undefined {
+	return Object.entries(schema).find(
+		([key, spec]) =>
+			arg === `--${toKebabCase(key)}` ||
+			(spec.short && arg === `-${spec.short}`),
+	);
+}
+
+function visible<T extends CommandSchema>(commands: readonly T[]): T[] {
+	return commands.filter((c) => !c.hidden);
+}
+
+/**
+ * Computes completion candidates for a command line. `words` holds every
+ * word after `devenv`; the last one is the (possibly empty) word under the
+ * cursor.
+ */
+export async function completeWords(
+	commands: readonly CommandSchema[],
+	globalFlags: FlagSchema,
+	words: string[],
+	sources: CandidateSources,
+): Promise<CompletionResult> {
+	const current = words[words.length - 1] ?? "";
+	const previous = words
+		.slice(0, -1)
+		.filter((w) => !(w.startsWith("--") && findFlag(globalFlags, w)));
+
+	// Walk down the command tree
+	let options: readonly CommandSchema[] = commands;
+	let command: CommandSchema | undefined;
+	let index = 0;
+	while (index < previous.length) {
+		const next = visible(options).find((c) => c.name === previous[index]);
+		if (!next) break;
+		command = next;
+		index++;
+		if (!next.subcommands) break;
+		options = next.subcommands;
+	}
+
+	if (!command || command.subcommands) {
+		// An unknown command or subcommand has nothing to complete
+		if (index < previous.length) {
+			return { candidates: [], directive: "default" };
+		}
+		return {
+			candidates: matching(
+				visible(options).map((c) => ({
+					value: c.name,
+					description: c.description,
+				})),
+				current,
+			),
+			directive: "default",
+		};
+	}
+
+	const flags = command.flags ?? {};
+	const rest = previous.slice(index);
+
+	// Value for a string flag
+	const last = rest[rest.length - 1];
+	const pendingFlag = last ? findFlag(flags, last) : undefined;
+	if (pendingFlag && pendingFlag[1].type === "string") {
+		return completeKind(pendingFlag[1].complete, current, sources);
+	}
+
+	if (current.startsWith("-")) {
+		const used = new Set(rest);
+		const flagCandidates: Candidate[] = [];
+		for (const [key, spec] of Object.entries({ ...flags, ...globalFlags })) {
+			const name = `--${toKebabCase(key)}`;
+			if (used.has(name) && !spec.multiple) continue;
+			flagCandidates.push({ value: name, description: spec.description });
+		}
+		flagCandidates.push({ value: "--help", description: "Show help" });
+		return {
+			candidates: matching(flagCandidates, current),
+			directive: "default",
+		};
+	}
+
+	// Count positionals already given, skipping flags and their values
+	let position = 0;
+	for (let i = 0; i < rest.length; i++) {
+		const word = rest[i] as string;
+		if (word.startsWith("-")) {
+			const flag = findFlag(flags, word);
+			if (flag?.[1].type === "string" && !word.includes("=")) i++;
+			continue;
+		}
+		position++;
+	}
+
+	const positionals: readonly PositionalSpec[] = command.positionals ?? [];
+	const lastPositional = positionals[positionals.length - 1];
+	const spec =
+		positionals[position] ??
+		(lastPositional?.variadic ? lastPositional : undefined);
+	return completeKind(spec?.complete, current, sources);
+}
+
+export function formatCompletionResult(result: CompletionResult): string {
+	const lines = result.candidates.map((c) =>
+		c.description ? `${c.value}\t${c.description}` : c.value,
+	);
+	lines.push(`:${result.directive}`);
+	return lines.join("\n");
+}
@@ -0,0 +1,86 @@
+// The scripts hand the words typed so far to `devenv __complete`, which
+// answers from the command registry and the database. Each output line is a
+// candidate (`value<TAB>description`); the last line is `:<directive>`.
+
+export const COMPLETION_SHELLS = ["bash", "zsh", "fish"] as const;
+
+export type CompletionShell = (typeof COMPLETION_SHELLS)[number];
+
+const BASH_SCRIPT = `# devenv bash completion
+# Add to ~/.bashrc: eval "$(devenv completion bash)"
+_devenv_completions() {
+	local cur=\${COMP_WORDS[COMP_CWORD]}
+	local directive=default
+	local candidates=()
+	local line
+	while IFS= read -r line; do
+		case $line in
+			:*) directive=\${line#:} ;;
+			*) candidates+=("\${line%%$'\\t'*}") ;;
+		esac
+	done < <(devenv __complete -- "\${COMP_WORDS[@]:1:COMP_CWORD}" 2>/dev/null)
+
+	case $directive in
+		files) COMPREPLY=($(compgen -f -- "$cur")) ;;
+		directories) COMPREPLY=($(compgen -d -- "$cur")) ;;
+		*)
+			local IFS=$'\\n'
+			COMPREPLY=($(compgen -W "\${candidates[*]}" -- "$cur"))
+			;;
+	esac
+}
+complete -F _devenv_completions devenv
+`;
+
+const ZSH_SCRIPT = `#compdef devenv
+# devenv zsh completion
+# Add to ~/.zshrc: source <(devenv completion zsh)
+_devenv() {
+	local -a candidates
+	local line directive=default
+	while IFS= read -r line; do
+		case $line in
+			:*) directive=\${line#:} ;;
+			*) candidates+=("\${\${line//:/\\\\:}/$'\\t'/:}") ;;
+		esac
+	done < <(devenv __complete -- "\${(@)words[2,CURRENT]}" 2>/dev/null)
+
+	case $directive in
+		files) _files ;;
+		directories) _files -/ ;;
+		*) _describe 'devenv' candidates ;;
+	esac
+}
+compdef _devenv devenv
+`;
+
+const FISH_SCRIPT = `# devenv fish completion
+# Add to ~/.config/fish/config.fish: devenv completion fish | source
+function __devenv_complete
+	set -l tokens (commandline -opc)
+	set -e tokens[1]
+	for line in (devenv __complete -- $tokens (commandline -ct) 2>/dev/null)
+		switch $line
+			case ':files'
+				__fish_complete_path (commandline -ct)
+			case ':directories'
+				__fish_complete_directories (commandline -ct)
+			case ':*'
+			case '*'
+				echo $line
+		end
+	end
+end
+complete -c devenv -f -a '(__devenv_complete)'
+`;
+
+export function generateCompletionScript(shell: CompletionShell): string {
+	switch (shell) {
+		case "bash":
+			return BASH_SCRIPT;
+		case "zsh":
+			return ZSH_SCRIPT;
+		case "fish":
+			return FISH_SCRIPT;
+	}
+}
@@ -1,19 +1,31 @@
-import type { Database } from "bun:sqlite";
+import { Database } from "bun:sqlite";
 import { beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import {
+	allocatePortMappings,
 	createDatabase,
+	getAllPortMappings,
 	getEnvFiles,
 	getEnvironmentByName,
 	getEnvironmentsByProject,
 	getNextAvailableHostPort,
 	getPortMappings,
 	getProjectByName,
+	getProjectByRepoPath,
 	getProjectsWithEnvironments,
 	insertEnvironment,
 	insertPortMapping,
 	insertProject,
+	restorePortMappings,
+	syncPortMappings,
+	updateEnvironmentAppliedConfig,
 	updateEnvironmentContainer,
+	updateEnvironmentDevcontainerConfig,
+	updateEnvironmentLimits,
 	updateEnvironmentStatus,
+	updatePortMappingHostname,
 	upsertEnvFile,
 } from "../database.js";
 
@@ -46,6 +58,12 @@ describe("projects", () => {
 		insertProject(db, "my-project", "/path/to/repo");
 		expect(() => insertProject(db, "my-project", "/other/path")).toThrow();
 	});
+
+	test("retrieve by repository path", () => {
+		const project = insertProject(db, "my-project", "/path/to/repo");
+		expect(getProjectByRepoPath(db, "/path/to/repo")?.id).toBe(project.id);
+		expect(getProjectByRepoPath(db, "/other/path")).toBeNull();
+	});
 });
 
 describe("environments", () => {
@@ -87,6 +105,67 @@ describe("environments", () => {
 		expect(updated?.status).toBe("running");
 	});
 
+	test("records an error message until the status changes again", () => {
+		const project = insertProject(db, "my-project", "/path/to/repo");
+		const env = insertEnvironment(db, project.id, "env-main", "main");
+		expect(env.errorMessage).toBeNull();
+
+		updateEnvironmentStatus(db, env.id, "error", "devcontainer up failed");
+		expect(getEnvironmentByName(db, "env-main")?.errorMessage).toBe(
+			"devcontainer up failed",
+		);
+
+		updateEnvironmentStatus(db, env.id, "running");
+		expect(getEnvironmentByName(db, "env-main")?.errorMessage).toBeNull();
+	});
+
+	test("adds error_message to databases created before it existed", () => {
+		const dir = mkdtempSync(join(tmpdir(), "devenv-db-test-"));
+		const path = join(dir, "devenv.db");
+		try {
+			const old = new Database(path);
+			old.exec(`
+				CREATE TABLE environments (
+					id INTEGER PRIMARY KEY AUTOINCREMENT,
+					project_id INTEGER NOT NULL,
+					name TEXT UNIQUE NOT NULL,
+					branch TEXT NOT NULL,
+					status TEXT DEFAULT 'created',
+					container_id TEXT,
+					worktree_path TEXT,
+					devcontainer_config TEXT,
+					created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+					updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+				);
+				INSERT INTO environments (project_id, name, branch) VALUES (1, 'env-main', 'main');
+			`);
+			old.close();
+
+			const migrated = createDatabase(path);
+			const env = getEnvironmentByName(migrated, "env-main");
+			expect(env?.errorMessage).toBeNull();
+			expect(env?.resourceLimits).toEqual({});
+			migrated.close();
+		} finally {
+			rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	test("stores the environment's own resource limits", () => {
+		const project = insertProject(db, "my-project", "/path/to/repo");
+		const env = insertEnvironment(db, project.id, "env-main", "main");
+		expect(env.resourceLimits).toEqual({});
+
+		updateEnvironmentLimits(db, env.id, { cpus: 2, memory: "4g" });
+		expect(getEnvironmentByName(db, "env-main")?.resourceLimits).toEqual({
+			cpus: 2,
+			memory: "4g",
+		});
+
+		updateEnvironmentLimits(db, env.id, {});
+		expect(getEnvironmentByName(db, "env-main")?.resourceLimits).toEqual({});
+	});
+
 	test("update container id", () => {
 		const project = insertProject(db, "my-project", "/path/to/repo");
 		const env = insertEnvironment(db, project.id, "env-main", "main");
@@ -95,6 +174,34 @@ describe("environments", () => {
 		const updated = getEnvironmentByName(db, "env-main");
 		expect(updated?.containerId).toBe("abc123");
 	});
+
+	test("replaces the stored devcontainer config", () => {
+		const project = insertProject(db, "my-project", "/path/to/repo");
+		const env = insertEnvironment(
+			db,
+			project.id,
+			"env-main",
+			"main",
+			undefined,
+			'{"image":"node:20"}',
+		);
+
+		updateEnvironmentDevcontainerConfig(db, env.id, '{"image":"node:24"}');
+		expect(getEnvironmentByName(db, "env-main")?.devcontainerConfig).toBe(
+			'{"image":"node:24"}',
+		);
+	});
+
+	test("records the applied config", () => {
+		const project = insertProject(db, "my-project", "/path/to/repo");
+		const env = insertEnvironment(db, project.id, "env-main", "main");
+		expect(env.appliedConfig).toBeNull();
+
+		updateEnvironmentAppliedConfig(db, env.id, '{"config":{}}');
+		expect(getEnvironmentByName(db, "env-main")?.appliedConfig).toBe(
+			'{"config":{}}',
+		);
+	});
 });
 
 describe("projects with environments", () => {
@@ -139,6 +246,19 @@ describe("env files", () => {
 		expect(files).toHaveLength(1);
 		expect(files[0]?.content).toBe("KEY=new");
 	});
+
+	test("keeps the encoding of binary files", () => {
+		const project = insertProject(db, "my-project", "/path/to/repo");
+		const env = insertEnvironment(db, project.id, "env-main", "main");
+
+		upsertEnvFile(db, env.id, ".env", "KEY=value");
+		upsertEnvFile(db, env.id, "dev.p12", "MIIC", "base64");
+
+		expect(getEnvFiles(db, env.id).map((f) => f.encoding)).toEqual([
+			"utf8",
+			"base64",
+		]);
+	});
 });
 
 describe("port mappings", () => {
@@ -172,6 +292,23 @@ describe("port mappings", () => {
 		).toThrow();
 	});
 
+	test("updates a hostname", () => {
+		const project = insertProject(db, "my-project", "/path/to/repo");
+		const env = insertEnvironment(db, project.id, "env-1", "feature/a");
+		const mapping = insertPortMapping(
+			db,
+			env.id,
+			3000,
+			49200,
+			"env-feature/a.localhost",
+		);
+
+		updatePortMappingHostname(db, mapping.id, "env-feature-a.localhost");
+		expect(getAllPortMappings(db).map((pm) => pm.hostname)).toEqual([
+			"env-feature-a.localhost",
+		]);
+	});
+
 	test("hostname uniqueness constraint", () => {
 		const project = insertProject(db, "my-project", "/path/to/repo");
 		const env1 = insertEnvironment(db, project.id, "env-1", "main");
@@ -201,3 +338,90 @@ describe("getNextAvailableHostPort", () => {
 		expect(getNextAvailableHostPort(db)).toBe(49202);
 	});
 });
+
+describe("allocatePortMappings", () => {
+	test("gives each environment its own consecutive host ports", () => {
+		const project = insertProject(db, "my-project", "/path/to/repo");
+		const a = insertEnvironment(db, project.id, "env-a", "a");
+		const b = insertEnvironment(db, project.id, "env-b", "b");
+
+		const first = allocatePortMappings(db, a.id, [
+			{ containerPort: 3000, hostname: "a.localhost" },
+			{ containerPort: 5432, hostname: "a-5432.localhost" },
+		]);
+		const second = allocatePortMappings(db, b.id, [
+			{ containerPort: 3000, hostname: "b.localhost" },
+		]);
+
+		expect(first.map((pm) => pm.hostPort)).toEqual([49200, 49201]);
+		expect(second.map((pm) => pm.hostPort)).toEqual([49202]);
+		expect(getPortMappings(db, a.id)).toHaveLength(2);
+	});
+
+	test("records nothing when one of the mappings fails", () => {
+		const project = insertProject(db, "my-project", "/path/to/repo");
+		const env = insertEnvironment(db, project.id, "env-a", "a");
+
+		expect(() =>
+			allocatePortMappings(db, env.id, [
+				{ containerPort: 3000, hostname: "dup.localhost" },
+				{ containerPort: 3001, hostname: "dup.localhost" },
+			]),
+		).toThrow();
+		expect(getPortMappings(db, env.id)).toEqual([]);
+	});
+});
+
+describe("syncPortMappings", () => {
+	test("maps new ports and drops unlisted ones, keeping the rest", () => {
+		const project = insertProject(db, "my-project", "/path/to/repo");
+		const env = insertEnvironment(db, project.id, "env-a", "a");
+		allocatePortMappings(db, env.id, [
+			{ containerPort: 3000, hostname: "a.localhost" },
+			{ containerPort: 5432, hostname: "a-5432.localhost" },
+		]);
+
+		const removed = syncPortMappings(db, env.id, [
+			{ containerPort: 3000, hostname: "renamed.localhost" },
+			{ containerPort: 5173, hostname: "a-5173.localhost" },
+		]);
+
+		expect(removed.map((pm) => pm.containerPort)).toEqual([5432]);
+		expect(
+			getPortMappings(db, env.id).map((pm) => [
+				pm.containerPort,
+				pm.hostPort,
+				pm.hostname,
+			]),
+		).toEqual([
+			[3000, 49200, "a.localhost"],
+			[5173, 49201, "a-5173.localhost"],
+		]);
+	});
+
+	test("restorePortMappings undoes a sync", () => {
+		const project = insertProject(db, "my-project", "/path/to/repo");
+		const env = insertEnvironment(db, project.id, "env-a", "a");
+		allocatePortMappings(db, env.id, [
+			{ containerPort: 3000, hostname: "a.localhost" },
+			{ containerPort: 5432, hostname: "a-5432.localhost" },
+		]);
+		const before = getPortMappings(db, env.id);
+
+		syncPortMappings(db, env.id, [
+			{ containerPort: 5173, hostname: "a-5173.localhost" },
+		]);
+		restorePortMappings(db, env.id, before);
+
+		expect(
+			getPortMappings(db, env.id).map((pm) => [
+				pm.containerPort,
+				pm.hostPort,
+				pm.hostname,
+			]),
+		).toEqual([
+			[3000, 49200, "a.localhost"],
+			[5432, 49201, "a-5432.localhost"],
+		]);
+	});
+});
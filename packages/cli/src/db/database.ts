@@ -11,12 +11,27 @@ import {
 	type PortMapping,
 	type Project,
 	type ProjectWithEnvironments,
+	type ResourceLimits,
 } from "@repo/shared";
 
 export function getDefaultDbPath(): string {
 	return join(homedir(), DEVENV_DIR, DEVENV_DB_FILE);
 }
 
+function addColumnIfMissing(
+	db: Database,
+	table: string,
+	column: string,
+	definition: string,
+): void {
+	const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{
+		name: string;
+	}>;
+	if (!columns.some((c) => c.name === column)) {
+		db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+	}
+}
+
 export function createDatabase(dbPath?: string): Database {
 	const path = dbPath ?? getDefaultDbPath();
 	mkdirSync(dirname(path), { recursive: true });
@@ -44,6 +59,7 @@ export function createDatabase(dbPath?: string): Database {
 			container_id TEXT,
 			worktree_path TEXT,
 			devcontainer_config TEXT,
+			error_message TEXT,
 			created_at TEXT DEFAULT CURRENT_TIMESTAMP,
 			updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
 			FOREIGN KEY (project_id) REFERENCES projects(id)
@@ -54,6 +70,7 @@ export function createDatabase(dbPath?: string): Database {
 			environment_id INTEGER NOT NULL,
 			relative_path TEXT NOT NULL,
 			content TEXT NOT NULL,
+			encoding TEXT NOT NULL DEFAULT 'utf8',
 			UNIQUE(environment_id, relative_path),
 			FOREIGN KEY (environment_id) REFERENCES environments(id)
 		);
@@ -73,6 +90,17 @@ export function createDatabase(dbPath?: string): Database {
 		);
 	`);
 
+	// Columns added since the first release, for databases created before them
+	addColumnIfMissing(db, "environments", "error_message", "TEXT");
+	addColumnIfMissing(db, "environments", "resource_limits", "TEXT");
+	addColumnIfMissing(db, "environments", "applied_config", "TEXT");
+	addColumnIfMissing(
+		db,
+		"env_files",
+		"encoding",
+		"TEXT NOT NULL DEFAULT 'utf8'",
+	);
+
 	return db;
 }
 
@@ -94,6 +122,9 @@ interface EnvironmentRow {
 	container_id: string | null;
 	worktree_path: string | null;
 	devcontainer_config: string | null;
+	applied_config: string | null;
+	error_message: string | null;
+	resource_limits: string | null;
 	created_at: string;
 	updated_at: string;
 }
@@ -103,6 +134,7 @@ interface EnvFileRow {
 	environment_id: number;
 	relative_path: string;
 	content: string;
+	encoding: string;
 }
 
 interface PortMappingRow {
@@ -134,6 +166,11 @@ function mapEnvironment(row: EnvironmentRow): Environment {
 		containerId: row.container_id,
 		worktreePath: row.worktree_path,
 		devcontainerConfig: row.devcontainer_config,
+		appliedConfig: row.applied_config,
+		errorMessage: row.error_message,
+		resourceLimits: row.resource_limits
+			? (JSON.parse(row.resource_limits) as ResourceLimits)
+			: {},
 		createdAt: row.created_at,
 		updatedAt: row.updated_at,
 	};
@@ -145,6 +182,7 @@ function mapEnvFile(row: EnvFileRow): EnvFile {
 		environmentId: row.environment_id,
 		relativePath: row.relative_path,
 		content: row.content,
+		encoding: row.encoding as EnvFile["encoding"],
 	};
 }
 
@@ -177,6 +215,26 @@ export function getProjectByName(db: Database, name: string): Project | null {
 	return row ? mapProject(row) : null;
 }
 
+export function getProjectByRepoPath(
+	db: Database,
+	repoPath: string,
+): Project | null {
+	const stmt = db.prepare("SELECT * FROM projects WHERE repo_path = ?");
+	const row = stmt.get(repoPath) as ProjectRow | null;
+	return row ? mapProject(row) : null;
+}
+
+export function getProjectById(db: Database, id: number): Project | null {
+	const stmt = db.prepare("SELECT * FROM projects WHERE id = ?");
+	const row = stmt.get(id) as ProjectRow | null;
+	return row ? mapProject(row) : null;
+}
+
+export function getAllProjects(db: Database): Project[] {
+	const stmt = db.prepare("SELECT * FROM projects ORDER BY name");
+	return (stmt.all() as ProjectRow[]).map(mapProject);
+}
+
 export function getProjectsWithEnvironments(
 	db: Database,
 ): ProjectWithEnvironments[] {
@@ -228,6 +286,11 @@ export function getEnvironmentByName(
 	return row ? mapEnvironment(row) : null;
 }
 
+export function getAllEnvironments(db: Database): Environment[] {
+	const stmt = db.prepare("SELECT * FROM environments ORDER BY name");
+	return (stmt.all() as EnvironmentRow[]).map(mapEnvironment);
+}
+
 export function getEnvironmentsByProject(
 	db: Database,
 	projectId: number,
@@ -238,26 +301,58 @@ export function getEnvironmentsByProject(
 	return (stmt.all(projectId) as EnvironmentRow[]).map(mapEnvironment);
 }
 
+export function updateEnvironmentLimits(
+	db: Database,
+	id: number,
+	limits: ResourceLimits,
+): void {
+	db.prepare(
+		"UPDATE environments SET resource_limits = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+	).run(Object.keys(limits).length > 0 ? JSON.stringify(limits) : null, id);
+}
+
+// Any status change clears the error message unless a new one is given
 export function updateEnvironmentStatus(
 	db: Database,
 	id: number,
 	status: Environment["status"],
+	errorMessage: string | null = null,
 ): void {
 	db.prepare(
-		"UPDATE environments SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
-	).run(status, id);
+		"UPDATE environments SET status = ?, error_message = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+	).run(status, errorMessage, id);
 }
 
 export function updateEnvironmentContainer(
 	db: Database,
 	id: number,
-	containerId: string,
+	containerId: string | null,
 ): void {
 	db.prepare(
 		"UPDATE environments SET container_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
 	).run(containerId, id);
 }
 
+export function updateEnvironmentDevcontainerConfig(
+	db: Database,
+	id: number,
+	devcontainerConfig: string | null,
+): void {
+	db.prepare(
+		"UPDATE environments SET devcontainer_config = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+	).run(devcontainerConfig, id);
+}
+
+export function updateEnvironmentAppliedConfig(
+	db: Database,
+	id: number,
+	appliedConfig: string,
+): void {
+	db.prepare(
+		"UPDATE environments SET applied_config = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+	).run(appliedConfig, id);
+}
+
 // Env files
 
 export function upsertEnvFile(
@@ -265,13 +360,14 @@ export function upsertEnvFile(
 	environmentId: number,
 	relativePath: string,
 	content: string,
+	encoding: EnvFile["encoding"] = "utf8",
 ): void {
 	db.prepare(
-		`INSERT INTO env_files (environment_id, relative_path, content)
-		 VALUES (?, ?, ?)
+		`INSERT INTO env_files (environment_id, relative_path, content, encoding)
+		 VALUES (?, ?, ?, ?)
 		 ON CONFLICT(environment_id, relative_path)
-		 DO UPDATE SET content = excluded.content`,
-	).run(environmentId, relativePath, content);
+		 DO UPDATE SET content = excluded.content, encoding = excluded.encoding`,
+	).run(environmentId, relativePath, content, encoding);
 }
 
 export function getEnvFiles(db: Database, environmentId: number): EnvFile[] {
@@ -313,6 +409,22 @@ export function getPortMappings(
 	return (stmt.all(environmentId) as PortMappingRow[]).map(mapPortMapping);
 }
 
+export function getAllPortMappings(db: Database): PortMapping[] {
+	const stmt = db.prepare("SELECT * FROM port_mappings ORDER BY id");
+	return (stmt.all() as PortMappingRow[]).map(mapPortMapping);
+}
+
+export function updatePortMappingHostname(
+	db: Database,
+	id: number,
+	hostname: string,
+): void {
+	db.prepare("UPDATE port_mappings SET hostname = ? WHERE id = ?").run(
+		hostname,
+		id,
+	);
+}
+
 export function deletePortMappings(db: Database, environmentId: number): void {
 	db.prepare("DELETE FROM port_mappings WHERE environment_id = ?").run(
 		environmentId,
@@ -336,8 +448,97 @@ export function getNextAvailableHostPort(db: Database): number {
 	return row.max_port ? row.max_port + 1 : HOST_PORT_RANGE_START;
 }
 
+/**
+ * Records a mapping for each port on the next free host ports. Runs as one
+ * write transaction so environments created at the same time, even by
+ * separate devenv processes, never get the same host port.
+ */
+export function allocatePortMappings(
+	db: Database,
+	environmentId: number,
+	ports: Array<{ containerPort: number; hostname: string }>,
+): PortMapping[] {
+	const allocate = db.transaction(() =>
+		ports.map(({ containerPort, hostname }) =>
+			insertPortMapping(
+				db,
+				environmentId,
+				containerPort,
+				getNextAvailableHostPort(db),
+				hostname,
+			),
+		),
+	);
+	return allocate.immediate();
+}
+
+/**
+ * Brings an environment's mappings in line with `ports`: mappings for ports
+ * no longer listed are deleted and new ports get the next free host ports,
+ * in one write transaction like allocatePortMappings. Ports already mapped
+ * keep their host port and hostname. Returns the deleted mappings.
+ */
+export function syncPortMappings(
+	db: Database,
+	environmentId: number,
+	ports: Array<{ containerPort: number; hostname: string }>,
+): PortMapping[] {
+	const sync = db.transaction(() => {
+		const existing = getPortMappings(db, environmentId);
+		const wanted = new Set(ports.map((p) => p.containerPort));
+		const removed = existing.filter((pm) => !wanted.has(pm.containerPort));
+		for (const pm of removed) {
+			db.prepare("DELETE FROM port_mappings WHERE id = ?").run(pm.id);
+		}
+		const mapped = new Set(existing.map((pm) => pm.containerPort));
+		for (const { containerPort, hostname } of ports) {
+			if (mapped.has(containerPort)) continue;
+			insertPortMapping(
+				db,
+				environmentId,
+				containerPort,
+				getNextAvailableHostPort(db),
+				hostname,
+			);
+		}
+		return removed;
+	});
+	return sync.immediate();
+}
+
+// Puts back mappings read before a sync, with their host ports and hostnames
+export function restorePortMappings(
+	db: Database,
+	environmentId: number,
+	portMappings: PortMapping[],
+): void {
+	const restore = db.transaction(() => {
+		deletePortMappings(db, environmentId);
+		for (const pm of portMappings) {
+			insertPortMapping(
+				db,
+				environmentId,
+				pm.containerPort,
+				pm.hostPort,
+				pm.hostname,
+			);
+		}
+	});
+	restore.immediate();
+}
+
 // Settings
 
+// Settings read by devenv itself; `devenv config` accepts any key
+export const KNOWN_SETTINGS: Record<string, string> = {
+	"claude-token": "OAuth token passed to Claude Code in new environments",
+	"limits.cpus": "CPU limit for every environment, such as 2 or 1.5",
+	"limits.memory": "Memory limit for every environment, such as 4g",
+	"limits.pids": "Process limit for every environment",
+	"plugins.trust":
+		'Set to "true" to load the plugins listed in repositories\' project config',
+};
+
 export function getSetting(db: Database, key: string): string | null {
 	const row = db
 		.prepare("SELECT value FROM settings WHERE key = ?")
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "bun:test";
+import {
+	buildCacheMounts,
+	cacheVolumeName,
+	parseCacheVolumeName,
+} from "../cache-volumes.js";
+import { containerWarning } from "../runner.js";
+
+describe("cacheVolumeName", () => {
+	it("names global volumes by tool only", () => {
+		expect(cacheVolumeName("npm", "global", "app")).toBe("devenv-cache-npm");
+	});
+
+	it("includes the project for project-scoped volumes", () => {
+		expect(cacheVolumeName("bun", "project", "my-app")).toBe(
+			"devenv-cache-my-app-bun",
+		);
+	});
+});
+
+describe("parseCacheVolumeName", () => {
+	it("round-trips both scopes", () => {
+		expect(parseCacheVolumeName("devenv-cache-yarn")).toEqual({
+			name: "devenv-cache-yarn",
+			tool: "yarn",
+			project: null,
+		});
+		expect(parseCacheVolumeName("devenv-cache-my-app-pnpm")).toEqual({
+			name: "devenv-cache-my-app-pnpm",
+			tool: "pnpm",
+			project: "my-app",
+		});
+	});
+
+	it("ignores volumes devenv did not name", () => {
+		expect(parseCacheVolumeName("postgres-data")).toBeNull();
+		expect(parseCacheVolumeName("devenv-cache-app-cargo")).toBeNull();
+		expect(parseCacheVolumeName("devenv-cache--npm")).toBeNull();
+	});
+});
+
+describe("buildCacheMounts", () => {
+	it("warns through devenv when the volumes stay unwritable", async () => {
+		const { fixPermissions } = buildCacheMounts("global", "app");
+		expect(containerWarning(fixPermissions)).toBeNull();
+
+		// Without sudo rights on the missing mount points, every chown fails
+		const proc = Bun.spawn(["/bin/sh", "-c", fixPermissions], {
+			env: { PATH: "/nonexistent" },
+			stderr: "pipe",
+		});
+		const stderr = await new Response(proc.stderr).text();
+		expect(await proc.exited).toBe(0);
+		expect(containerWarning(stderr)).toContain(
+			"cannot write to the package-manager caches at /devenv-cache/npm /devenv-cache/bun /devenv-cache/pnpm /devenv-cache/yarn",
+		);
+	});
+});
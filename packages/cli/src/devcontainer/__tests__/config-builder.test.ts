@@ -7,6 +7,7 @@ import {
 	buildMergedConfig,
 	detectBunUsage,
 	detectNodeUsage,
+	mountTarget,
 } from "../config-builder.js";
 
 const FAKE_REPO_PATH = "/tmp/fake-repo";
@@ -126,6 +127,7 @@ describe("buildMergedConfig", () => {
 			devcontainerConfig: null,
 			worktreePath: tempDir,
 			repoPath: FAKE_REPO_PATH,
+			projectName: "app",
 			containerEnv: {},
 			portBindings: {},
 		});
@@ -140,6 +142,7 @@ describe("buildMergedConfig", () => {
 			devcontainerConfig: null,
 			worktreePath: tempDir,
 			repoPath: FAKE_REPO_PATH,
+			projectName: "app",
 			containerEnv: {},
 			portBindings: {},
 		});
@@ -155,6 +158,7 @@ describe("buildMergedConfig", () => {
 			devcontainerConfig: { image: "python:3.12" },
 			worktreePath: tempDir,
 			repoPath: FAKE_REPO_PATH,
+			projectName: "app",
 			containerEnv: {},
 			portBindings: {},
 		});
@@ -172,8 +176,11 @@ describe("buildMergedConfig", () => {
 			},
 			worktreePath: tempDir,
 			repoPath: FAKE_REPO_PATH,
+			projectName: "app",
 			containerEnv: { NEW_VAR: "new_value" },
 			portBindings: {},
+			// Cache volumes add their own remoteEnv entries, covered below
+			projectConfig: { cache: false },
 		});
 
 		const config = JSON.parse(await Bun.file(result.configPath).text());
@@ -193,6 +200,7 @@ describe("buildMergedConfig", () => {
 			devcontainerConfig: null,
 			worktreePath: tempDir,
 			repoPath: FAKE_REPO_PATH,
+			projectName: "app",
 			containerEnv: {},
 			portBindings: { "3000": "49200", "5432": "49201" },
 		});
@@ -211,6 +219,7 @@ describe("buildMergedConfig", () => {
 			},
 			worktreePath: tempDir,
 			repoPath: FAKE_REPO_PATH,
+			projectName: "app",
 			containerEnv: {},
 			portBindings: {},
 		});
@@ -234,6 +243,7 @@ describe("buildMergedConfig", () => {
 			},
 			worktreePath: tempDir,
 			repoPath: FAKE_REPO_PATH,
+			projectName: "app",
 			containerEnv: {},
 			portBindings: {},
 		});
@@ -260,6 +270,7 @@ describe("buildMergedConfig", () => {
 			},
 			worktreePath: tempDir,
 			repoPath: FAKE_REPO_PATH,
+			projectName: "app",
 			containerEnv: {},
 			portBindings: {},
 		});
@@ -282,6 +293,7 @@ describe("buildMergedConfig", () => {
 			devcontainerConfig: null,
 			worktreePath: tempDir,
 			repoPath: FAKE_REPO_PATH,
+			projectName: "app",
 			containerEnv: {},
 			portBindings: {},
 		});
@@ -302,6 +314,7 @@ describe("buildMergedConfig", () => {
 			devcontainerConfig: null,
 			worktreePath: tempDir,
 			repoPath: FAKE_REPO_PATH,
+			projectName: "app",
 			containerEnv: {},
 			portBindings: {},
 		});
@@ -317,6 +330,7 @@ describe("buildMergedConfig", () => {
 			devcontainerConfig: null,
 			worktreePath: tempDir,
 			repoPath: FAKE_REPO_PATH,
+			projectName: "app",
 			containerEnv: {},
 			portBindings: {},
 		});
@@ -340,6 +354,7 @@ describe("buildMergedConfig", () => {
 			},
 			worktreePath: tempDir,
 			repoPath: FAKE_REPO_PATH,
+			projectName: "app",
 			containerEnv: {},
 			portBindings: {},
 		});
@@ -365,6 +380,7 @@ describe("buildMergedConfig", () => {
 			},
 			worktreePath: tempDir,
 			repoPath: FAKE_REPO_PATH,
+			projectName: "app",
 			containerEnv: {},
 			portBindings: {},
 		});
@@ -374,4 +390,193 @@ describe("buildMergedConfig", () => {
 
 		rmSync(dirname(result.configPath), { recursive: true, force: true });
 	});
+
+	it("applies ai tools, features and hooks from the project config", async () => {
+		const result = await buildMergedConfig({
+			devcontainerConfig: { postStartCommand: "echo started" },
+			worktreePath: tempDir,
+			repoPath: FAKE_REPO_PATH,
+			projectName: "app",
+			containerEnv: {},
+			portBindings: {},
+			projectConfig: {
+				aiTools: ["@openai/codex"],
+				features: { "ghcr.io/devcontainers/features/go:1": {} },
+				hooks: { postCreate: "make setup", postStart: "make dev" },
+			},
+		});
+
+		const config = JSON.parse(await Bun.file(result.configPath).text());
+		expect(config.postCreateCommand["install-ai-tools"]).toBe(
+			"npm install -g @openai/codex",
+		);
+		expect(config.postCreateCommand["devenv-post-create"]).toBe("make setup");
+		expect(config.postStartCommand).toEqual({
+			project: "echo started",
+			"devenv-post-start": "make dev",
+		});
+		expect(
+			result.additionalFeatures["ghcr.io/devcontainers/features/go:1"],
+		).toEqual({});
+
+		rmSync(dirname(result.configPath), { recursive: true, force: true });
+	});
+
+	it("skips the ai tools install when the project config lists none", async () => {
+		const result = await buildMergedConfig({
+			devcontainerConfig: null,
+			worktreePath: tempDir,
+			repoPath: FAKE_REPO_PATH,
+			projectName: "app",
+			containerEnv: {},
+			portBindings: {},
+			projectConfig: { aiTools: [] },
+		});
+
+		const config = JSON.parse(await Bun.file(result.configPath).text());
+		expect(config.postCreateCommand["install-ai-tools"]).toBeUndefined();
+
+		rmSync(dirname(result.configPath), { recursive: true, force: true });
+	});
+
+	it("mounts shared package-manager cache volumes by default", async () => {
+		const result = await buildMergedConfig({
+			devcontainerConfig: { onCreateCommand: "echo hi" },
+			worktreePath: tempDir,
+			repoPath: FAKE_REPO_PATH,
+			projectName: "app",
+			containerEnv: {},
+			portBindings: {},
+		});
+
+		const config = JSON.parse(await Bun.file(result.configPath).text());
+		expect(config.mounts).toContain(
+			"source=devenv-cache-npm,target=/devenv-cache/npm,type=volume",
+		);
+		expect(config.remoteEnv.npm_config_cache).toBe("/devenv-cache/npm");
+		expect(config.remoteEnv.BUN_INSTALL_CACHE_DIR).toBe("/devenv-cache/bun");
+		expect(config.onCreateCommand.project).toBe("echo hi");
+		expect(config.onCreateCommand["fix-cache-permissions"]).toContain(
+			"/devenv-cache/yarn",
+		);
+
+		rmSync(dirname(result.configPath), { recursive: true, force: true });
+	});
+
+	it("scopes cache volumes to the project or leaves them out", async () => {
+		const scoped = await buildMergedConfig({
+			devcontainerConfig: null,
+			worktreePath: tempDir,
+			repoPath: FAKE_REPO_PATH,
+			projectName: "app",
+			containerEnv: {},
+			portBindings: {},
+			projectConfig: { cache: "project" },
+		});
+		const off = await buildMergedConfig({
+			devcontainerConfig: null,
+			worktreePath: tempDir,
+			repoPath: FAKE_REPO_PATH,
+			projectName: "app",
+			containerEnv: {},
+			portBindings: {},
+			projectConfig: { cache: false },
+		});
+
+		const scopedConfig = JSON.parse(await Bun.file(scoped.configPath).text());
+		expect(scopedConfig.mounts).toContain(
+			"source=devenv-cache-app-pnpm,target=/devenv-cache/pnpm,type=volume",
+		);
+		const offConfig = JSON.parse(await Bun.file(off.configPath).text());
+		expect(offConfig.mounts).toHaveLength(2);
+		expect(offConfig.onCreateCommand).toBeUndefined();
+		expect(offConfig.remoteEnv.npm_config_cache).toBeUndefined();
+
+		rmSync(dirname(scoped.configPath), { recursive: true, force: true });
+		rmSync(dirname(off.configPath), { recursive: true, force: true });
+	});
+
+	it("starts from a prebuilt image without features or the AI tools install", async () => {
+		writeFileSync(join(tempDir, "package.json"), "{}");
+		const result = await buildMergedConfig({
+			devcontainerConfig: {
+				build: { dockerfile: "Dockerfile" },
+				features: { "ghcr.io/devcontainers/features/go:1": {} },
+			},
+			worktreePath: tempDir,
+			repoPath: FAKE_REPO_PATH,
+			projectName: "app",
+			containerEnv: {},
+			portBindings: {},
+			prebuiltImage: "devenv-prebuild/app:abc123",
+		});
+
+		const config = JSON.parse(await Bun.file(result.configPath).text());
+		expect(config.image).toBe("devenv-prebuild/app:abc123");
+		expect(config.build).toBeUndefined();
+		expect(config.features).toBeUndefined();
+		expect(config.postCreateCommand["install-ai-tools"]).toBeUndefined();
+		expect(result.additionalFeatures).toEqual({});
+
+		rmSync(dirname(result.configPath), { recursive: true, force: true });
+	});
+
+	it("appends resource limits to the project's runArgs", async () => {
+		const result = await buildMergedConfig({
+			devcontainerConfig: { runArgs: ["--init", "--memory=16g"] },
+			worktreePath: tempDir,
+			repoPath: FAKE_REPO_PATH,
+			projectName: "app",
+			containerEnv: {},
+			portBindings: {},
+			limits: { memory: "4g", pids: 512 },
+		});
+
+		const config = JSON.parse(await Bun.file(result.configPath).text());
+		expect(config.runArgs).toEqual([
+			"--init",
+			"--memory=16g",
+			"--memory=4g",
+			"--pids-limit=512",
+		]);
+
+		rmSync(dirname(result.configPath), { recursive: true, force: true });
+	});
+
+	it("mounts cloned volumes in place of the config's own", async () => {
+		const result = await buildMergedConfig({
+			devcontainerConfig: {
+				mounts: [
+					"source=app-data,target=/var/lib/postgresql/data,type=volume",
+					{ source: "app-logs", target: "/logs", type: "volume" },
+				],
+			},
+			worktreePath: tempDir,
+			repoPath: FAKE_REPO_PATH,
+			projectName: "app",
+			containerEnv: {},
+			portBindings: {},
+			volumes: {
+				"/var/lib/postgresql/data": "devenv-clone-app-feat-data",
+				"/home/node/.local": "devenv-clone-app-feat-local",
+			},
+		});
+
+		const config = JSON.parse(await Bun.file(result.configPath).text());
+		expect(config.mounts.slice(0, 3)).toEqual([
+			{ source: "app-logs", target: "/logs", type: "volume" },
+			"source=devenv-clone-app-feat-data,target=/var/lib/postgresql/data,type=volume",
+			"source=devenv-clone-app-feat-local,target=/home/node/.local,type=volume",
+		]);
+
+		rmSync(dirname(result.configPath), { recursive: true, force: true });
+	});
+});
+
+describe("mountTarget", () => {
+	it("reads the target of string and object mounts", () => {
+		expect(mountTarget("type=volume,source=v,dst=/data")).toBe("/data");
+		expect(mountTarget({ source: "v", target: "/data" })).toBe("/data");
+		expect(mountTarget("source=/tmp,type=bind")).toBe("");
+	});
 });
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	type PrebuildSource,
+	prebuildFingerprint,
+	prebuildInputs,
+	prebuildRepository,
+} from "../prebuild.js";
+
+describe("prebuildFingerprint", () => {
+	let tempDir: string;
+
+	beforeEach(() => {
+		tempDir = join(tmpdir(), `devenv-prebuild-test-${Date.now()}`);
+		mkdirSync(tempDir, { recursive: true });
+	});
+
+	afterEach(() => {
+		rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	function source(overrides: Partial<PrebuildSource> = {}): PrebuildSource {
+		return {
+			projectName: "app",
+			repoPath: tempDir,
+			devcontainerConfig: {
+				image: "node:24",
+				containerEnv: { A: "1", B: "2" },
+			},
+			projectConfig: null,
+			...overrides,
+		};
+	}
+
+	const fingerprint = (s: PrebuildSource) =>
+		prebuildFingerprint(prebuildInputs(s));
+
+	it("ignores key order", () => {
+		expect(
+			fingerprint(
+				source({
+					devcontainerConfig: {
+						containerEnv: { B: "2", A: "1" },
+						image: "node:24",
+					},
+				}),
+			),
+		).toBe(fingerprint(source()));
+	});
+
+	it("changes with devcontainer.json", () => {
+		expect(
+			fingerprint(source({ devcontainerConfig: { image: "node:22" } })),
+		).not.toBe(fingerprint(source()));
+	});
+
+	it("changes with detected features and AI tools", () => {
+		const before = fingerprint(source());
+		expect(fingerprint(source({ projectConfig: { aiTools: [] } }))).not.toBe(
+			before,
+		);
+		writeFileSync(join(tempDir, "bun.lock"), "");
+		expect(fingerprint(source())).not.toBe(before);
+	});
+
+	it("ignores forwardPorts, which devenv handles itself", () => {
+		expect(
+			fingerprint(
+				source({
+					devcontainerConfig: {
+						image: "node:24",
+						containerEnv: { A: "1", B: "2" },
+						forwardPorts: [8080],
+					},
+				}),
+			),
+		).toBe(fingerprint(source()));
+	});
+});
+
+describe("prebuildRepository", () => {
+	it("names one repository per project", () => {
+		expect(prebuildRepository("my-app")).toBe("devenv-prebuild/my-app");
+	});
+});
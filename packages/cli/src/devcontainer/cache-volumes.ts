@@ -0,0 +1,98 @@
+import { CACHE_VOLUME_PREFIX } from "@repo/shared";
+import { WARNING_MARKER } from "./runner.js";
+
+export const CACHE_TOOLS = ["npm", "bun", "pnpm", "yarn"] as const;
+export type CacheTool = (typeof CACHE_TOOLS)[number];
+
+// "global" shares one set of volumes between every project; "project" gives
+// each project its own
+export const CACHE_SCOPES = ["global", "project"] as const;
+export type CacheScope = (typeof CACHE_SCOPES)[number];
+export const DEFAULT_CACHE_SCOPE: CacheScope = "global";
+
+const CACHE_MOUNT_DIR = "/devenv-cache";
+
+// Each package manager reads its cache location from the environment, so the
+// cache works whatever the remote user's home directory is
+const CACHE_ENV_VARS: Record<CacheTool, string> = {
+	npm: "npm_config_cache",
+	bun: "BUN_INSTALL_CACHE_DIR",
+	pnpm: "npm_config_store_dir",
+	yarn: "YARN_CACHE_FOLDER",
+};
+
+export interface CacheVolume {
+	name: string;
+	tool: CacheTool;
+	// null for volumes shared by every project
+	project: string | null;
+}
+
+export function cacheVolumeName(
+	tool: CacheTool,
+	scope: CacheScope,
+	projectName: string,
+): string {
+	return scope === "project"
+		? `${CACHE_VOLUME_PREFIX}-${projectName}-${tool}`
+		: `${CACHE_VOLUME_PREFIX}-${tool}`;
+}
+
+/**
+ * Recovers the tool and project from a cache volume's name. Returns null for
+ * volumes devenv did not name.
+ */
+export function parseCacheVolumeName(name: string): CacheVolume | null {
+	if (!name.startsWith(`${CACHE_VOLUME_PREFIX}-`)) return null;
+	const rest = name.slice(CACHE_VOLUME_PREFIX.length + 1);
+	const dash = rest.lastIndexOf("-");
+	const tool = rest.slice(dash + 1);
+	if (!(CACHE_TOOLS as readonly string[]).includes(tool)) return null;
+	const project = dash === -1 ? null : rest.slice(0, dash);
+	if (project === "") return null;
+	return { name, tool: tool as CacheTool, project };
+}
+
+export interface CacheMounts {
+	mounts: string[];
+	env: Record<string, string>;
+	// Run in the container before any install so the remote user can write to
+	// the volumes, which Docker creates owned by root. Prints a warning for
+	// devenv to show when they stay unwritable
+	fixPermissions: string;
+}
+
+export function buildCacheMounts(
+	scope: CacheScope,
+	projectName: string,
+): CacheMounts {
+	const mounts: string[] = [];
+	const env: Record<string, string> = {};
+	const targets: string[] = [];
+	for (const tool of CACHE_TOOLS) {
+		const target = `${CACHE_MOUNT_DIR}/${tool}`;
+		targets.push(target);
+		mounts.push(
+			`source=${cacheVolumeName(tool, scope, projectName)},target=${target},type=volume`,
+		);
+		env[CACHE_ENV_VARS[tool]] = target;
+	}
+	return {
+		mounts,
+		env,
+		fixPermissions: fixPermissionsScript(targets),
+	};
+}
+
+// Only the volume roots: what the user writes inside is already theirs, and
+// a warm cache can hold many thousands of files. Failing is not fatal, as
+// the container works without a cache, but installs using it then fail.
+function fixPermissionsScript(targets: string[]): string {
+	// Split so devcontainer echoing the command does not read as the warning
+	const marker = `${WARNING_MARKER.slice(0, 2)}""${WARNING_MARKER.slice(2)}`;
+	return [
+		'failed=""',
+		`for dir in ${targets.join(" ")}; do [ -w "$dir" ] || sudo -n chown "$(id -u)" "$dir" 2>/dev/null || failed="$failed $dir"; done`,
+		`[ -z "$failed" ] || echo "${marker} $(whoami) cannot write to the package-manager caches at$failed and sudo could not take them over; installs using them will fail with EACCES. Set "cache": false in the project config to go without them." >&2`,
+	].join("; ");
+}
@@ -1,6 +1,10 @@
 import { existsSync, mkdtempSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
+import type { ResourceLimits } from "@repo/shared";
+import { limitsRunArgs } from "../environments/limits.js";
+import type { ProjectConfig } from "../project/config.js";
+import { buildCacheMounts, DEFAULT_CACHE_SCOPE } from "./cache-volumes.js";
 import type { DevcontainerConfig } from "./parser.js";
 
 const BUN_FEATURE = "ghcr.io/shyim/devcontainers-features/bun:0";
@@ -12,6 +16,8 @@ const NODE_INDICATORS = ["package.json"];
 const TURBO_FEATURE = "ghcr.io/devcontainers-extra/features/turborepo-npm:1";
 const TURBO_INDICATORS = ["turbo.json"];
 
+const DEFAULT_AI_TOOLS = ["@anthropic-ai/claude-code", "@openai/codex"];
+
 export interface MergedConfigResult {
 	configPath: string;
 	additionalFeatures: Record<string, Record<string, unknown>>;
@@ -49,7 +55,59 @@ export function buildAdditionalFeatures(
 	return features;
 }
 
-function buildPostCreateCommand(
+// Features detected in the checkout, with those declared in the project
+// config winning
+export function resolveAdditionalFeatures(
+	worktreePath: string,
+	projectConfig?: ProjectConfig | null,
+): Record<string, Record<string, unknown>> {
+	return {
+		...buildAdditionalFeatures(worktreePath),
+		...projectConfig?.features,
+	};
+}
+
+export function resolveAiTools(projectConfig?: ProjectConfig | null): string[] {
+	return projectConfig?.aiTools ?? DEFAULT_AI_TOOLS;
+}
+
+export function aiToolsInstallCommand(aiTools: string[]): string {
+	return `npm install -g ${aiTools.join(" ")}`;
+}
+
+/**
+ * The project's devcontainer config with devenv's defaults applied, minus
+ * what devenv handles itself. This is everything that decides the image.
+ */
+export function composeBuildConfig(
+	devcontainerConfig: DevcontainerConfig | null,
+): Record<string, unknown> {
+	const config: Record<string, unknown> = {};
+
+	// Start from existing config (minus fields we handle ourselves)
+	if (devcontainerConfig) {
+		Object.assign(config, devcontainerConfig);
+		// Remove fields we handle via our own mechanisms
+		delete config.forwardPorts;
+	}
+
+	// Set default image if no image/dockerFile/dockerComposeFile specified
+	if (!config.image && !config.dockerFile && !config.dockerComposeFile) {
+		config.image = "node:24";
+	}
+
+	// Default to non-root user so Claude Code --dangerously-skip-permissions works
+	// (it refuses to run as root). The node:24 base image includes a "node" user.
+	if (!config.remoteUser) {
+		config.remoteUser = "node";
+	}
+
+	return config;
+}
+
+// Normalizes a lifecycle command to the object form so devenv can add its
+// own named entries next to the project's
+function buildLifecycleCommand(
 	existingCommand: DevcontainerConfig["postCreateCommand"],
 ): Record<string, string> {
 	const commands: Record<string, string> = {};
@@ -73,88 +131,174 @@ function buildAppPort(portBindings: Record<string, string>): string[] {
 	);
 }
 
-export async function buildMergedConfig(options: {
+// Where a devcontainer.json mount, given as a string or an object, is mounted
+export function mountTarget(mount: unknown): string {
+	if (typeof mount === "string") {
+		const target = mount
+			.split(",")
+			.map((option) => option.split("="))
+			.find(([key]) => ["target", "destination", "dst"].includes(key ?? ""));
+		return target?.[1] ?? "";
+	}
+	const target = (mount as { target?: unknown } | null)?.target;
+	return typeof target === "string" ? target : "";
+}
+
+export interface MergedConfigOptions {
 	devcontainerConfig: DevcontainerConfig | null;
+	// Checkout inspected to detect which features to add
 	worktreePath: string;
 	repoPath: string;
+	// Names the cache volumes when the project keeps its own
+	projectName: string;
 	containerEnv: Record<string, string>;
 	portBindings: Record<string, string>;
 	claudeOAuthToken?: string;
-}): Promise<MergedConfigResult> {
+	projectConfig?: ProjectConfig | null;
+	// Image from `devenv prebuild` to start from instead of building
+	prebuiltImage?: string | null;
+	// Named volumes mounted in place of whatever the config mounts at each
+	// path, such as the copies made by `devenv branch --clone-state`
+	volumes?: Record<string, string>;
+	// Effective limits, already merged across global, project and environment
+	limits?: ResourceLimits;
+}
+
+export interface ComposedConfig {
+	config: Record<string, unknown>;
+	additionalFeatures: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Computes the devcontainer.json devenv runs and the features it adds,
+ * without writing anything.
+ */
+export function composeMergedConfig(
+	options: MergedConfigOptions,
+): ComposedConfig {
 	const {
 		devcontainerConfig,
 		worktreePath,
 		repoPath,
+		projectName,
 		containerEnv,
 		portBindings,
 		claudeOAuthToken,
+		projectConfig,
+		prebuiltImage,
+		volumes,
+		limits,
 	} = options;
 
-	const merged: Record<string, unknown> = {};
+	// Package-manager caches live in named volumes that outlive the container,
+	// so installs in later environments start warm
+	const cacheScope = projectConfig?.cache ?? DEFAULT_CACHE_SCOPE;
+	const cache = cacheScope ? buildCacheMounts(cacheScope, projectName) : null;
 
-	// Start from existing config (minus fields we handle ourselves)
-	if (devcontainerConfig) {
-		Object.assign(merged, devcontainerConfig);
-		// Remove fields we handle via our own mechanisms
-		delete merged.forwardPorts;
-	}
+	const merged = composeBuildConfig(devcontainerConfig);
 
-	// Set default image if no image/dockerFile/dockerComposeFile specified
-	if (!merged.image && !merged.dockerFile && !merged.dockerComposeFile) {
-		merged.image = "node:24";
-	}
-
-	// Default to non-root user so Claude Code --dangerously-skip-permissions works
-	// (it refuses to run as root). The node:24 base image includes a "node" user.
-	if (!merged.remoteUser) {
-		merged.remoteUser = "node";
+	// A prebuilt image already has the features and AI tools baked in
+	if (prebuiltImage) {
+		merged.image = prebuiltImage;
+		delete merged.build;
+		delete merged.dockerFile;
+		delete merged.features;
 	}
 
 	// Keep original containerEnv from project config unchanged (stable for Docker layer caching)
 	// Put all injected env vars into remoteEnv (applied at runtime, not baked into the image)
 	merged.remoteEnv = {
+		...cache?.env,
 		...containerEnv,
 		CLAUDE_CONFIG_DIR: "/devenv-claude-config",
 		...(claudeOAuthToken ? { CLAUDE_CODE_OAUTH_TOKEN: claudeOAuthToken } : {}),
 	};
 
 	// Mount host Claude config directory into the container
-	const existingMounts = (merged.mounts as string[]) ?? [];
+	const existingMounts = ((merged.mounts as unknown[]) ?? []).filter(
+		(mount) => !(volumes && mountTarget(mount) in volumes),
+	);
 	const repoGitDir = join(repoPath, ".git");
 	merged.mounts = [
 		...existingMounts,
+		...Object.entries(volumes ?? {}).map(
+			([target, source]) => `source=${source},target=${target},type=volume`,
+		),
 		// biome-ignore lint/suspicious/noTemplateCurlyInString: apparently this is valid
 		"source=${localEnv:HOME}/.claude,target=/devenv-claude-config,type=bind",
 		// Mount the parent repo's .git directory at the same absolute path so
 		// git worktree references resolve correctly inside the container
 		`source=${repoGitDir},target=${repoGitDir},type=bind`,
+		...(cache?.mounts ?? []),
 	];
 
+	// Appended after the project's own runArgs so devenv's limits win
+	const limitArgs = limits ? limitsRunArgs(limits) : [];
+	if (limitArgs.length > 0) {
+		merged.runArgs = [...((merged.runArgs as string[]) ?? []), ...limitArgs];
+	}
+
 	// Set appPort from our allocated port bindings
 	merged.appPort = buildAppPort(portBindings);
 
+	// onCreateCommand runs before postCreateCommand, whose entries run in
+	// parallel, so the cache volumes are writable before anything installs
+	if (cache) {
+		merged.onCreateCommand = {
+			...buildLifecycleCommand(devcontainerConfig?.onCreateCommand),
+			"fix-cache-permissions": cache.fixPermissions,
+		};
+	}
+
 	// Merge postCreateCommand
-	const postCreateCommand = buildPostCreateCommand(
+	const postCreateCommand = buildLifecycleCommand(
 		devcontainerConfig?.postCreateCommand,
 	);
 	// Install AI coding tools at runtime instead of as build features to avoid OOM during Docker build
-	postCreateCommand["install-ai-tools"] =
-		"npm install -g @anthropic-ai/claude-code @openai/codex";
+	const aiTools = resolveAiTools(projectConfig);
+	if (aiTools.length > 0 && !prebuiltImage) {
+		postCreateCommand["install-ai-tools"] = aiToolsInstallCommand(aiTools);
+	}
 	// The .git bind mount's parent directory is auto-created by Docker and owned by root.
 	// Tools like turbo that follow git worktree references to resolve the repo root
 	// will try to write to this directory and fail with permission denied.
 	postCreateCommand["fix-git-mount-permissions"] =
 		`sudo chown $(whoami) ${repoPath} 2>/dev/null || true`;
+	if (projectConfig?.hooks?.postCreate) {
+		postCreateCommand["devenv-post-create"] = projectConfig.hooks.postCreate;
+	}
 	merged.postCreateCommand = postCreateCommand;
 
-	// Build additional features
-	const additionalFeatures = buildAdditionalFeatures(worktreePath);
+	if (projectConfig?.hooks?.postStart) {
+		merged.postStartCommand = {
+			...buildLifecycleCommand(devcontainerConfig?.postStartCommand),
+			"devenv-post-start": projectConfig.hooks.postStart,
+		};
+	}
+
+	const additionalFeatures = prebuiltImage
+		? {}
+		: resolveAdditionalFeatures(worktreePath, projectConfig);
 
-	// Write to temp directory with required filename
-	// @devcontainers/cli requires config to be named devcontainer.json or .devcontainer.json
+	return { config: merged, additionalFeatures };
+}
+
+// Writes a config to a temp directory with the filename @devcontainers/cli
+// requires (devcontainer.json or .devcontainer.json). The runner removes the
+// directory once it is done with it.
+export async function writeDevcontainerConfig(
+	config: Record<string, unknown>,
+): Promise<string> {
 	const configDir = mkdtempSync(join(tmpdir(), "devenv-config-"));
 	const configPath = join(configDir, "devcontainer.json");
-	await Bun.write(configPath, JSON.stringify(merged, null, 2));
+	await Bun.write(configPath, JSON.stringify(config, null, 2));
+	return configPath;
+}
 
+export async function buildMergedConfig(
+	options: MergedConfigOptions,
+): Promise<MergedConfigResult> {
+	const { config, additionalFeatures } = composeMergedConfig(options);
+	const configPath = await writeDevcontainerConfig(config);
 	return { configPath, additionalFeatures };
 }
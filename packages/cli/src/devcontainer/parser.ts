@@ -9,7 +9,9 @@ export interface DevcontainerConfig {
 	forwardPorts?: number[];
 	containerEnv?: Record<string, string>;
 	remoteEnv?: Record<string, string>;
+	onCreateCommand?: string | string[] | Record<string, string>;
 	postCreateCommand?: string | string[] | Record<string, string>;
+	postStartCommand?: string | string[] | Record<string, string>;
 	features?: Record<string, Record<string, unknown>>;
 	appPort?: string[] | number[];
 	[key: string]: unknown;
@@ -0,0 +1,237 @@
+import { createHash } from "node:crypto";
+import { CONTAINER_LABEL_PREFIX } from "@repo/shared";
+import {
+	commitContainer,
+	createContainer,
+	getContainerLogs,
+	inspectImage,
+	listImages,
+	readLogLines,
+	removeContainer,
+	removeImage,
+	startContainer,
+	waitContainer,
+} from "../docker/client.js";
+import type { ProjectConfig } from "../project/config.js";
+import { createMutex } from "../utils/concurrency.js";
+import { DevenvError } from "../utils/errors.js";
+import { log } from "../utils/logger.js";
+import {
+	aiToolsInstallCommand,
+	composeBuildConfig,
+	resolveAdditionalFeatures,
+	resolveAiTools,
+	writeDevcontainerConfig,
+} from "./config-builder.js";
+import type { DevcontainerConfig } from "./parser.js";
+import { devcontainerBuild } from "./runner.js";
+
+// Environments created together find a stale image at the same time; only
+// the first rebuilds it
+const withPrebuildLock = createMutex();
+
+export interface PrebuildInputs {
+	buildConfig: Record<string, unknown>;
+	additionalFeatures: Record<string, Record<string, unknown>>;
+	aiTools: string[];
+}
+
+export interface PrebuildSource {
+	projectName: string;
+	repoPath: string;
+	devcontainerConfig: DevcontainerConfig | null;
+	projectConfig: ProjectConfig | null;
+}
+
+// Features are detected in the repository the image is built from, never a
+// branch's checkout, so every branch computes the same fingerprint
+export function prebuildInputs(source: PrebuildSource): PrebuildInputs {
+	return {
+		buildConfig: composeBuildConfig(source.devcontainerConfig),
+		additionalFeatures: resolveAdditionalFeatures(
+			source.repoPath,
+			source.projectConfig,
+		),
+		aiTools: resolveAiTools(source.projectConfig),
+	};
+}
+
+// JSON with object keys sorted, so key order never changes the fingerprint
+function stableStringify(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(stableStringify).join(",")}]`;
+	}
+	if (typeof value === "object" && value !== null) {
+		const entries = Object.entries(value)
+			.filter(([, v]) => v !== undefined)
+			.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+			.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+		return `{${entries.join(",")}}`;
+	}
+	return JSON.stringify(value);
+}
+
+/**
+ * Identifies everything that goes into a prebuilt image. The image is tagged
+ * with it, so a changed devcontainer.json, feature set or AI tool list no
+ * longer matches any existing image.
+ */
+export function prebuildFingerprint(inputs: PrebuildInputs): string {
+	return createHash("sha256")
+		.update(stableStringify(inputs))
+		.digest("hex")
+		.slice(0, 12);
+}
+
+export function prebuildRepository(projectName: string): string {
+	return `${CONTAINER_LABEL_PREFIX}-prebuild/${projectName}`;
+}
+
+// Tags of the project's prebuilt images, newest first
+export async function listPrebuilds(projectName: string): Promise<string[]> {
+	const repository = prebuildRepository(projectName);
+	const images = await listImages(repository);
+	return images
+		.sort((a, b) => b.Created - a.Created)
+		.flatMap((image) => image.RepoTags ?? [])
+		.filter((tag) => tag.startsWith(`${repository}:`));
+}
+
+export interface PrebuildStatus {
+	// Tag for the current inputs, whether or not it exists yet
+	image: string;
+	current: boolean;
+	// Images built from earlier inputs
+	stale: string[];
+}
+
+// Tag of the image for the current inputs, whether or not it was built
+export function prebuildImage(source: PrebuildSource): string {
+	const fingerprint = prebuildFingerprint(prebuildInputs(source));
+	return `${prebuildRepository(source.projectName)}:${fingerprint}`;
+}
+
+export async function getPrebuildStatus(
+	source: PrebuildSource,
+): Promise<PrebuildStatus> {
+	const image = prebuildImage(source);
+	const tags = await listPrebuilds(source.projectName);
+	return {
+		image,
+		current: tags.includes(image),
+		stale: tags.filter((tag) => tag !== image),
+	};
+}
+
+async function tailContainerLogs(containerId: string): Promise<string> {
+	const lines: string[] = [];
+	try {
+		const stream = await getContainerLogs(containerId, { tail: 20 });
+		for await (const line of readLogLines(stream, false)) {
+			lines.push(line);
+		}
+	} catch {
+		// The exit code is reported either way
+	}
+	return lines.join("\n");
+}
+
+/**
+ * Builds the project's image with its features, then installs the AI tools
+ * in a throwaway container and commits the result under the fingerprint tag.
+ */
+export async function buildPrebuild(
+	source: PrebuildSource,
+	onProgress: (message: string) => void = (message) => log.info(message),
+): Promise<string> {
+	if (source.devcontainerConfig?.dockerComposeFile) {
+		throw new DevenvError(
+			"USAGE",
+			"Prebuilt images are not supported for Docker Compose devcontainers",
+		);
+	}
+
+	const inputs = prebuildInputs(source);
+	const fingerprint = prebuildFingerprint(inputs);
+	const repository = prebuildRepository(source.projectName);
+	const image = `${repository}:${fingerprint}`;
+	const baseImage = `${image}-base`;
+	const hasAiTools = inputs.aiTools.length > 0;
+
+	onProgress(`  Building image ${image}...`);
+	await devcontainerBuild({
+		workspaceFolder: source.repoPath,
+		configPath: await writeDevcontainerConfig(inputs.buildConfig),
+		imageName: hasAiTools ? baseImage : image,
+		additionalFeatures: inputs.additionalFeatures,
+	});
+	if (!hasAiTools) return image;
+
+	onProgress(`  Installing ${inputs.aiTools.join(", ")}...`);
+	const { Config } = await inspectImage(baseImage);
+	const containerId = await createContainer({
+		name: `${CONTAINER_LABEL_PREFIX}-prebuild-${source.projectName}-${fingerprint}`,
+		image: baseImage,
+		cmd: ["sh", "-c", aiToolsInstallCommand(inputs.aiTools)],
+		user: "root",
+		labels: { [`${CONTAINER_LABEL_PREFIX}.prebuild`]: source.projectName },
+	});
+	try {
+		await startContainer(containerId);
+		const exitCode = await waitContainer(containerId);
+		if (exitCode !== 0) {
+			throw new Error(
+				`Installing AI tools failed (exit code ${exitCode}):\n${await tailContainerLogs(containerId)}`,
+			);
+		}
+		// Keep the image's own command and user rather than the install's
+		await commitContainer(containerId, repository, fingerprint, {
+			Cmd: Config.Cmd,
+			User: Config.User,
+		});
+	} finally {
+		await removeContainer(containerId).catch(() => {});
+		await removeImage(baseImage).catch(() => {});
+	}
+
+	return image;
+}
+
+/**
+ * Picks the prebuilt image a new environment starts from. Returns null for
+ * projects that were never prebuilt; rebuilds the image when the inputs
+ * changed since the last prebuild.
+ */
+export async function resolvePrebuild(
+	source: PrebuildSource,
+	onProgress: (message: string) => void,
+): Promise<string | null> {
+	if (source.devcontainerConfig?.dockerComposeFile) return null;
+
+	const status = await getPrebuildStatus(source);
+	if (status.current) return status.image;
+	if (status.stale.length === 0) return null;
+
+	return withPrebuildLock(async () => {
+		// Another environment may have rebuilt it while this one waited
+		if ((await getPrebuildStatus(source)).current) return status.image;
+		onProgress("  Devcontainer config changed, rebuilding prebuilt image...");
+		return buildPrebuild(source, onProgress);
+	});
+}
+
+// Removes earlier prebuilt images, skipping those containers still use
+export async function pruneStalePrebuilds(stale: string[]): Promise<string[]> {
+	const removed: string[] = [];
+	for (const tag of stale) {
+		try {
+			await removeImage(tag);
+			removed.push(tag);
+		} catch (error) {
+			log.debug(
+				`Kept ${tag}: ${error instanceof Error ? error.message : error}`,
+			);
+		}
+	}
+	return removed;
+}
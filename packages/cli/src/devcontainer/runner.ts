@@ -1,6 +1,7 @@
 import { rmSync } from "node:fs";
 import { dirname } from "node:path";
 import { CONTAINER_LABEL_PREFIX } from "@repo/shared";
+import { log } from "../utils/logger.js";
 
 interface DevcontainerUpResult {
 	containerId: string;
@@ -11,55 +12,41 @@ interface DevcontainerUpOutput {
 	containerId: string;
 }
 
-export async function devcontainerUp(options: {
-	worktreePath: string;
-	configPath: string;
-	projectName: string;
-	envName: string;
-	additionalFeatures: Record<string, Record<string, unknown>>;
-	removeExistingContainer: boolean;
-}): Promise<DevcontainerUpResult> {
-	const {
-		worktreePath,
-		configPath,
-		projectName,
-		envName,
-		additionalFeatures,
-		removeExistingContainer,
-	} = options;
+interface DevcontainerRun {
+	exitCode: number;
+	stdout: string;
+	stderr: string;
+}
 
-	const args = [
-		"up",
-		"--workspace-folder",
-		worktreePath,
-		"--config",
-		configPath,
-		"--id-label",
-		`${CONTAINER_LABEL_PREFIX}.managed=true`,
-		"--id-label",
-		`${CONTAINER_LABEL_PREFIX}.project=${projectName}`,
-		"--id-label",
-		`${CONTAINER_LABEL_PREFIX}.environment=${envName}`,
-	];
+// Lifecycle commands devenv adds print this before problems the user should
+// see; the rest of devcontainer's output only shows with --verbose
+export const WARNING_MARKER = "[devenv-warning]";
 
-	if (Object.keys(additionalFeatures).length > 0) {
-		args.push("--additional-features", JSON.stringify(additionalFeatures));
-	}
+// The warning a line of devcontainer output carries, if any
+export function containerWarning(line: string): string | null {
+	const index = line.indexOf(WARNING_MARKER);
+	if (index === -1) return null;
+	return line.slice(index + WARNING_MARKER.length).trim();
+}
 
-	if (removeExistingContainer) {
-		args.push("--remove-existing-container");
+function logOutputLine(line: string): void {
+	const warning = containerWarning(line);
+	if (warning) {
+		log.warn(warning);
+	} else {
+		log.debug(`[devcontainer] ${line}`);
 	}
+}
 
-	console.log(
-		`    [debug] Running: devcontainer ${args.slice(0, 3).join(" ")} ...`,
-	);
+async function runDevcontainer(args: string[]): Promise<DevcontainerRun> {
+	log.debug(`Running: devcontainer ${args.join(" ")}`);
 
 	const proc = Bun.spawn(["devcontainer", ...args], {
 		stdout: "pipe",
 		stderr: "pipe",
 	});
 
-	// Stream stderr in real-time so user can see progress
+	// Stream stderr in real-time so progress shows with --verbose and in the log file
 	const stderrChunks: string[] = [];
 	const stderrReader = (async () => {
 		const reader = proc.stderr.getReader();
@@ -76,13 +63,13 @@ export async function devcontainerUp(options: {
 			buffer = lines.pop() ?? "";
 			for (const line of lines) {
 				if (line.trim()) {
-					console.log(`    [devcontainer] ${line}`);
+					logOutputLine(line);
 				}
 			}
 		}
 		// Flush remaining buffer
 		if (buffer.trim()) {
-			console.log(`    [devcontainer] ${buffer}`);
+			logOutputLine(buffer);
 		}
 	})();
 
@@ -93,6 +80,49 @@ export async function devcontainerUp(options: {
 	const stderr = stderrChunks.join("");
 
 	const exitCode = await proc.exited;
+	return { exitCode, stdout, stderr };
+}
+
+export async function devcontainerUp(options: {
+	worktreePath: string;
+	configPath: string;
+	projectName: string;
+	envName: string;
+	additionalFeatures: Record<string, Record<string, unknown>>;
+	removeExistingContainer: boolean;
+}): Promise<DevcontainerUpResult> {
+	const {
+		worktreePath,
+		configPath,
+		projectName,
+		envName,
+		additionalFeatures,
+		removeExistingContainer,
+	} = options;
+
+	const args = [
+		"up",
+		"--workspace-folder",
+		worktreePath,
+		"--config",
+		configPath,
+		"--id-label",
+		`${CONTAINER_LABEL_PREFIX}.managed=true`,
+		"--id-label",
+		`${CONTAINER_LABEL_PREFIX}.project=${projectName}`,
+		"--id-label",
+		`${CONTAINER_LABEL_PREFIX}.environment=${envName}`,
+	];
+
+	if (Object.keys(additionalFeatures).length > 0) {
+		args.push("--additional-features", JSON.stringify(additionalFeatures));
+	}
+
+	if (removeExistingContainer) {
+		args.push("--remove-existing-container");
+	}
+
+	const { exitCode, stdout, stderr } = await runDevcontainer(args);
 
 	// Clean up temp config directory (configPath is <tmpdir>/devenv-config-XXXXX/devcontainer.json)
 	try {
@@ -126,3 +156,45 @@ export async function devcontainerUp(options: {
 
 	return { containerId: output.containerId };
 }
+
+/**
+ * Builds the image for a devcontainer config, features included, and tags it
+ * `imageName` without starting a container.
+ */
+export async function devcontainerBuild(options: {
+	workspaceFolder: string;
+	configPath: string;
+	imageName: string;
+	additionalFeatures: Record<string, Record<string, unknown>>;
+}): Promise<void> {
+	const { workspaceFolder, configPath, imageName, additionalFeatures } =
+		options;
+
+	const args = [
+		"build",
+		"--workspace-folder",
+		workspaceFolder,
+		"--config",
+		configPath,
+		"--image-name",
+		imageName,
+	];
+
+	if (Object.keys(additionalFeatures).length > 0) {
+		args.push("--additional-features", JSON.stringify(additionalFeatures));
+	}
+
+	const { exitCode, stdout, stderr } = await runDevcontainer(args);
+
+	try {
+		rmSync(dirname(configPath), { recursive: true });
+	} catch {
+		// Ignore cleanup errors
+	}
+
+	if (exitCode !== 0) {
+		throw new Error(
+			`devcontainer build failed (exit code ${exitCode}):\n${stderr || stdout}`,
+		);
+	}
+}
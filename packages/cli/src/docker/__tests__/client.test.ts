@@ -102,6 +102,29 @@ describe("createContainer", () => {
 			"3000/tcp": [{ HostPort: "49200" }],
 		});
 	});
+
+	test("mounts named volumes at their targets", async () => {
+		let capturedBody: Record<string, unknown> = {};
+
+		mockFetch((_url, init) => {
+			capturedBody = JSON.parse(init?.body as string);
+			return new Response(JSON.stringify({ Id: "c1", Warnings: [] }), {
+				status: 201,
+			});
+		});
+
+		const { createContainer } = await import("../client.js");
+		await createContainer({
+			name: "copy",
+			image: "alpine",
+			volumes: { "/from": "source-volume" },
+		});
+
+		const hostConfig = capturedBody.HostConfig as Record<string, unknown>;
+		expect(hostConfig.Mounts).toEqual([
+			{ Type: "volume", Source: "source-volume", Target: "/from" },
+		]);
+	});
 });
 
 describe("startContainer", () => {
@@ -227,6 +250,147 @@ describe("listContainers", () => {
 	});
 });
 
+describe("volumes", () => {
+	test("listVolumes filters by name and tolerates a null list", async () => {
+		let capturedUrl = "";
+
+		mockFetch((url) => {
+			capturedUrl = url;
+			return new Response(JSON.stringify({ Volumes: null }), { status: 200 });
+		});
+
+		const { listVolumes } = await import("../client.js");
+		expect(await listVolumes("devenv-cache")).toEqual([]);
+		expect(decodeURIComponent(capturedUrl)).toContain(
+			'{"name":["devenv-cache"]}',
+		);
+	});
+
+	test("listVolumes combines name and label filters", async () => {
+		let capturedUrl = "";
+
+		mockFetch((url) => {
+			capturedUrl = url;
+			return new Response(JSON.stringify({ Volumes: [] }), { status: 200 });
+		});
+
+		const { listVolumes } = await import("../client.js");
+		await listVolumes(undefined, "devenv.environment=app-feat");
+		expect(decodeURIComponent(capturedUrl)).toContain(
+			'{"label":["devenv.environment=app-feat"]}',
+		);
+	});
+
+	test("createVolume posts the name and labels", async () => {
+		let capturedUrl = "";
+		let capturedBody = "";
+
+		mockFetch((url, init) => {
+			capturedUrl = url;
+			capturedBody = String(init?.body);
+			return new Response(JSON.stringify({ Name: "v1" }), { status: 201 });
+		});
+
+		const { createVolume } = await import("../client.js");
+		await createVolume("v1", { "devenv.environment": "app-feat" });
+		expect(capturedUrl).toContain("/volumes/create");
+		expect(JSON.parse(capturedBody)).toEqual({
+			Name: "v1",
+			Labels: { "devenv.environment": "app-feat" },
+		});
+	});
+
+	test("removeVolume surfaces conflicts as DockerError", async () => {
+		mockFetch(
+			() =>
+				new Response(JSON.stringify({ message: "volume is in use" }), {
+					status: 409,
+				}),
+		);
+
+		const { DockerError, removeVolume } = await import("../client.js");
+		const error = await removeVolume("devenv-cache-npm").catch((e) => e);
+		expect(error).toBeInstanceOf(DockerError);
+		expect(error.statusCode).toBe(409);
+	});
+
+	test("getVolumeUsage maps missing usage data to -1", async () => {
+		mockFetch(
+			() =>
+				new Response(
+					JSON.stringify({
+						Volumes: [
+							{
+								Name: "devenv-cache-npm",
+								UsageData: { Size: 2048, RefCount: 1 },
+							},
+							{ Name: "devenv-cache-bun", UsageData: null },
+						],
+					}),
+					{ status: 200 },
+				),
+		);
+
+		const { getVolumeUsage } = await import("../client.js");
+		const usage = await getVolumeUsage();
+		expect(usage.get("devenv-cache-npm")).toEqual({ size: 2048, refCount: 1 });
+		expect(usage.get("devenv-cache-bun")).toEqual({ size: -1, refCount: -1 });
+	});
+});
+
+describe("images", () => {
+	test("commitContainer passes the target and config", async () => {
+		let capturedUrl = "";
+		let capturedBody = "";
+
+		mockFetch((url, init) => {
+			capturedUrl = url;
+			capturedBody = String(init?.body);
+			return new Response(JSON.stringify({ Id: "sha256:abc" }), {
+				status: 201,
+			});
+		});
+
+		const { commitContainer } = await import("../client.js");
+		const id = await commitContainer("c1", "devenv-prebuild/app", "abc", {
+			Cmd: ["bash"],
+		});
+
+		expect(id).toBe("sha256:abc");
+		expect(capturedUrl).toContain("/commit?container=c1");
+		expect(decodeURIComponent(capturedUrl)).toContain(
+			"repo=devenv-prebuild/app",
+		);
+		expect(JSON.parse(capturedBody)).toEqual({ Cmd: ["bash"] });
+	});
+
+	test("updateContainer posts the new resources", async () => {
+		let capturedUrl = "";
+		let capturedBody = "";
+
+		mockFetch((url, init) => {
+			capturedUrl = url;
+			capturedBody = String(init?.body);
+			return new Response(JSON.stringify({ Warnings: [] }), { status: 200 });
+		});
+
+		const { updateContainer } = await import("../client.js");
+		await updateContainer("c1", { Memory: 1024, PidsLimit: -1 });
+
+		expect(capturedUrl).toContain("/containers/c1/update");
+		expect(JSON.parse(capturedBody)).toEqual({ Memory: 1024, PidsLimit: -1 });
+	});
+
+	test("waitContainer returns the exit code", async () => {
+		mockFetch(
+			() => new Response(JSON.stringify({ StatusCode: 3 }), { status: 200 }),
+		);
+
+		const { waitContainer } = await import("../client.js");
+		expect(await waitContainer("c1")).toBe(3);
+	});
+});
+
 describe("execInContainer", () => {
 	test("creates exec instance with correct command", async () => {
 		const calls: Array<{ url: string; body?: Record<string, unknown> }> = [];
@@ -262,3 +426,114 @@ describe("execInContainer", () => {
 		expect(calls[1]?.body?.Detach).toBe(false);
 	});
 });
+
+describe("runInContainer", () => {
+	test("collects the output and reads the exit code", async () => {
+		const calls: Array<{ url: string; body?: Record<string, unknown> }> = [];
+
+		mockFetch((url, init) => {
+			calls.push({
+				url,
+				...(init?.body ? { body: JSON.parse(init.body as string) } : {}),
+			});
+			if (url.endsWith("/containers/c1/exec")) {
+				return new Response(JSON.stringify({ Id: "exec-1" }), {
+					status: 201,
+				});
+			}
+			if (url.includes("/start")) {
+				return new Response(
+					streamOf(logFrame(1, "out\n"), logFrame(2, "err\n")),
+					{ status: 200 },
+				);
+			}
+			return new Response(JSON.stringify({ ExitCode: 3 }), { status: 200 });
+		});
+
+		const { runInContainer } = await import("../client.js");
+		const result = await runInContainer("c1", ["pg_dumpall"]);
+
+		expect(result).toEqual({ exitCode: 3, output: "out\nerr\n" });
+		expect(calls[0]?.body?.Tty).toBe(false);
+		expect(calls[0]?.body?.AttachStdin).toBeUndefined();
+		expect(calls[2]?.url).toContain("/exec/exec-1/json");
+	});
+});
+
+function logFrame(stream: number, text: string): Uint8Array {
+	const payload = new TextEncoder().encode(text);
+	const frame = new Uint8Array(8 + payload.length);
+	frame[0] = stream;
+	new DataView(frame.buffer).setUint32(4, payload.length);
+	frame.set(payload, 8);
+	return frame;
+}
+
+function streamOf(...chunks: Uint8Array[]): ReadableStream<Uint8Array> {
+	return new ReadableStream({
+		start(controller) {
+			for (const chunk of chunks) controller.enqueue(chunk);
+			controller.close();
+		},
+	});
+}
+
+async function collect(lines: AsyncGenerator<string>): Promise<string[]> {
+	const result: string[] = [];
+	for await (const line of lines) result.push(line);
+	return result;
+}
+
+describe("container logs", () => {
+	test("getContainerLogs requests stdout and stderr with tail and follow", async () => {
+		let capturedUrl = "";
+		mockFetch((url) => {
+			capturedUrl = url;
+			return new Response("hello\n", { status: 200 });
+		});
+
+		const { getContainerLogs } = await import("../client.js");
+		await getContainerLogs("abc123", { tail: 50, follow: true });
+
+		expect(capturedUrl).toContain("/containers/abc123/logs?");
+		expect(capturedUrl).toContain("stdout=true");
+		expect(capturedUrl).toContain("stderr=true");
+		expect(capturedUrl).toContain("tail=50");
+		expect(capturedUrl).toContain("follow=true");
+	});
+
+	test("demuxLogFrames keeps incomplete frames for the next chunk", async () => {
+		const { demuxLogFrames } = await import("../client.js");
+		const first = logFrame(1, "out\n");
+		const second = logFrame(2, "err\n");
+		const buffer = new Uint8Array(first.length + 5);
+		buffer.set(first);
+		buffer.set(second.subarray(0, 5), first.length);
+
+		const { payload, rest } = demuxLogFrames(buffer);
+		expect(new TextDecoder().decode(payload)).toBe("out\n");
+		expect(rest).toHaveLength(5);
+	});
+
+	test("readLogLines splits multiplexed frames into lines", async () => {
+		const { readLogLines } = await import("../client.js");
+		const frames = new Uint8Array([
+			...logFrame(1, "first\nsec"),
+			...logFrame(2, "ond\r\n"),
+		]);
+		// Split mid-header to exercise buffering across chunks
+		const lines = await collect(
+			readLogLines(streamOf(frames.subarray(0, 3), frames.subarray(3)), true),
+		);
+		expect(lines).toEqual(["first", "second"]);
+	});
+
+	test("readLogLines passes TTY output through unchanged", async () => {
+		const { readLogLines } = await import("../client.js");
+		const encoder = new TextEncoder();
+		const lines = await collect(
+			readLogLines(streamOf(encoder.encode("a\nb")), false),
+		);
+		expect(lines).toEqual(["a", "b"]);
+	});
+});
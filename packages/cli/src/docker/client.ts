@@ -42,6 +42,14 @@ async function dockerFetch(
 	return res;
 }
 
+// HostConfig fields that limit a container's resources
+export interface ContainerResources {
+	NanoCpus?: number;
+	Memory?: number;
+	MemorySwap?: number;
+	PidsLimit?: number;
+}
+
 export interface CreateContainerOptions {
 	name: string;
 	image: string;
@@ -51,6 +59,10 @@ export interface CreateContainerOptions {
 	envVars?: string[];
 	labels?: Record<string, string>;
 	portBindings?: Record<string, string>;
+	// Defaults to the image's user
+	user?: string;
+	// Named volumes to mount, keyed by the path they are mounted at
+	volumes?: Record<string, string>;
 }
 
 interface CreateContainerResponse {
@@ -70,6 +82,8 @@ export async function createContainer(
 		envVars,
 		labels,
 		portBindings,
+		user,
+		volumes,
 	} = options;
 
 	const exposedPorts: Record<string, object> = {};
@@ -88,6 +102,7 @@ export async function createContainer(
 		...(cmd ? { Cmd: cmd } : {}),
 		...(entrypoint ? { Entrypoint: entrypoint } : {}),
 		Env: envVars ?? [],
+		...(user ? { User: user } : {}),
 		Labels: {
 			[`${CONTAINER_LABEL_PREFIX}.managed`]: "true",
 			...labels,
@@ -98,6 +113,15 @@ export async function createContainer(
 				? { Binds: [`${workspaceDir}:${CONTAINER_WORKSPACE_DIR}`] }
 				: {}),
 			PortBindings: hostPortBindings,
+			...(volumes
+				? {
+						Mounts: Object.entries(volumes).map(([target, source]) => ({
+							Type: "volume",
+							Source: source,
+							Target: target,
+						})),
+					}
+				: {}),
 		},
 		...(workspaceDir ? { WorkingDir: CONTAINER_WORKSPACE_DIR } : {}),
 		Tty: true,
@@ -129,6 +153,19 @@ export async function stopContainer(containerId: string): Promise<void> {
 	});
 }
 
+// Freezes every process in the container until it is unpaused
+export async function pauseContainer(containerId: string): Promise<void> {
+	await dockerFetch(`/containers/${encodeURIComponent(containerId)}/pause`, {
+		method: "POST",
+	});
+}
+
+export async function unpauseContainer(containerId: string): Promise<void> {
+	await dockerFetch(`/containers/${encodeURIComponent(containerId)}/unpause`, {
+		method: "POST",
+	});
+}
+
 export async function removeContainer(containerId: string): Promise<void> {
 	await dockerFetch(
 		`/containers/${encodeURIComponent(containerId)}?force=true`,
@@ -138,17 +175,28 @@ export async function removeContainer(containerId: string): Promise<void> {
 	);
 }
 
+export interface ContainerMount {
+	Type: "bind" | "volume" | "tmpfs" | "npipe" | "cluster";
+	// Volume name; absent for binds
+	Name?: string;
+	Source: string;
+	Destination: string;
+}
+
 interface ContainerInspectResponse {
 	Id: string;
 	Name: string;
 	State: {
 		Status: string;
 		Running: boolean;
+		Paused: boolean;
 	};
 	Config: {
 		Image: string;
 		Labels: Record<string, string>;
+		Tty: boolean;
 	};
+	Mounts: ContainerMount[];
 	NetworkSettings: {
 		Ports: Record<string, Array<{ HostIp: string; HostPort: string }> | null>;
 	};
@@ -194,6 +242,252 @@ export async function listContainers(
 	return (await res.json()) as ContainerListItem[];
 }
 
+// Changes the resource limits of a container, running or not
+export async function updateContainer(
+	containerId: string,
+	resources: ContainerResources,
+): Promise<void> {
+	await dockerFetch(`/containers/${encodeURIComponent(containerId)}/update`, {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify(resources),
+	});
+}
+
+// Resolves with the container's exit code once it stops
+export async function waitContainer(containerId: string): Promise<number> {
+	const res = await dockerFetch(
+		`/containers/${encodeURIComponent(containerId)}/wait`,
+		{ method: "POST" },
+	);
+	const body = (await res.json()) as { StatusCode: number };
+	return body.StatusCode;
+}
+
+/**
+ * Saves a container's filesystem as the image `repo:tag`. `config` overrides
+ * fields of the container's configuration in the new image.
+ */
+export async function commitContainer(
+	containerId: string,
+	repo: string,
+	tag: string,
+	config: Record<string, unknown> = {},
+): Promise<string> {
+	const params = new URLSearchParams({ container: containerId, repo, tag });
+	const res = await dockerFetch(`/commit?${params}`, {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify(config),
+	});
+	const body = (await res.json()) as { Id: string };
+	return body.Id;
+}
+
+interface ImageListItem {
+	Id: string;
+	RepoTags: string[] | null;
+	Created: number;
+}
+
+// `reference` accepts a repository, optionally with a tag pattern
+export async function listImages(reference: string): Promise<ImageListItem[]> {
+	const filters = JSON.stringify({ reference: [reference] });
+	const res = await dockerFetch(
+		`/images/json?filters=${encodeURIComponent(filters)}`,
+	);
+	return (await res.json()) as ImageListItem[];
+}
+
+interface ImageInspectResponse {
+	Id: string;
+	Config: {
+		Cmd: string[] | null;
+		User: string;
+		Labels: Record<string, string> | null;
+	};
+}
+
+export async function inspectImage(
+	image: string,
+): Promise<ImageInspectResponse> {
+	const res = await dockerFetch(`/images/${encodeURIComponent(image)}/json`);
+	return (await res.json()) as ImageInspectResponse;
+}
+
+// Removes the tag, and the image once no tag or container refers to it
+export async function removeImage(image: string): Promise<void> {
+	await dockerFetch(`/images/${encodeURIComponent(image)}`, {
+		method: "DELETE",
+	});
+}
+
+interface VolumeListItem {
+	Name: string;
+	Driver: string;
+	Mountpoint: string;
+	Labels: Record<string, string> | null;
+}
+
+// Docker's name filter matches any volume whose name contains the value
+export async function listVolumes(
+	nameFilter?: string,
+	labelFilter?: string,
+): Promise<VolumeListItem[]> {
+	let path = "/volumes";
+	if (nameFilter || labelFilter) {
+		const filters = JSON.stringify({
+			...(nameFilter ? { name: [nameFilter] } : {}),
+			...(labelFilter ? { label: [labelFilter] } : {}),
+		});
+		path += `?filters=${encodeURIComponent(filters)}`;
+	}
+	const res = await dockerFetch(path);
+	const body = (await res.json()) as { Volumes: VolumeListItem[] | null };
+	return body.Volumes ?? [];
+}
+
+// Returns the existing volume unchanged when one has the name already
+export async function createVolume(
+	name: string,
+	labels: Record<string, string> = {},
+): Promise<void> {
+	await dockerFetch("/volumes/create", {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify({ Name: name, Labels: labels }),
+	});
+}
+
+// Fails with a 409 while a container still uses the volume
+export async function removeVolume(name: string): Promise<void> {
+	await dockerFetch(`/volumes/${encodeURIComponent(name)}`, {
+		method: "DELETE",
+	});
+}
+
+export interface VolumeUsage {
+	// Bytes on disk, or -1 when Docker could not compute it
+	size: number;
+	// Containers referencing the volume, or -1 when unknown
+	refCount: number;
+}
+
+/**
+ * Reads disk usage for every volume. Docker walks each volume to compute
+ * it, so this can take a while on large ones.
+ */
+export async function getVolumeUsage(): Promise<Map<string, VolumeUsage>> {
+	const res = await dockerFetch("/system/df?type=volume");
+	const body = (await res.json()) as {
+		Volumes:
+			| { Name: string; UsageData: { Size: number; RefCount: number } | null }[]
+			| null;
+	};
+	const usage = new Map<string, VolumeUsage>();
+	for (const volume of body.Volumes ?? []) {
+		usage.set(volume.Name, {
+			size: volume.UsageData?.Size ?? -1,
+			refCount: volume.UsageData?.RefCount ?? -1,
+		});
+	}
+	return usage;
+}
+
+export interface ContainerLogsOptions {
+	tail?: number;
+	follow?: boolean;
+	signal?: AbortSignal;
+}
+
+export async function getContainerLogs(
+	containerId: string,
+	options: ContainerLogsOptions = {},
+): Promise<ReadableStream<Uint8Array>> {
+	const { tail = 100, follow = false, signal } = options;
+	const params = new URLSearchParams({
+		stdout: "true",
+		stderr: "true",
+		tail: String(tail),
+		follow: String(follow),
+	});
+	const res = await dockerFetch(
+		`/containers/${encodeURIComponent(containerId)}/logs?${params}`,
+		{ signal },
+	);
+	if (!res.body) {
+		throw new DockerError(500, "Docker returned no log stream");
+	}
+	return res.body;
+}
+
+const LOG_FRAME_HEADER_SIZE = 8;
+
+/**
+ * Splits complete frames off a multiplexed log buffer. Containers without a
+ * TTY send stdout and stderr as frames with an 8-byte header: the stream
+ * type, three zero bytes and the big-endian payload length.
+ */
+export function demuxLogFrames(buffer: Uint8Array): {
+	payload: Uint8Array;
+	rest: Uint8Array;
+} {
+	const chunks: Uint8Array[] = [];
+	let offset = 0;
+	while (buffer.length - offset >= LOG_FRAME_HEADER_SIZE) {
+		const view = new DataView(
+			buffer.buffer,
+			buffer.byteOffset + offset,
+			LOG_FRAME_HEADER_SIZE,
+		);
+		const size = view.getUint32(4);
+		const end = offset + LOG_FRAME_HEADER_SIZE + size;
+		if (end > buffer.length) break;
+		chunks.push(buffer.subarray(offset + LOG_FRAME_HEADER_SIZE, end));
+		offset = end;
+	}
+	const payload = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+	let position = 0;
+	for (const chunk of chunks) {
+		payload.set(chunk, position);
+		position += chunk.length;
+	}
+	return { payload, rest: buffer.subarray(offset) };
+}
+
+// Yields log output line by line; `multiplexed` is true for containers
+// created without a TTY
+export async function* readLogLines(
+	stream: ReadableStream<Uint8Array>,
+	multiplexed: boolean,
+): AsyncGenerator<string> {
+	const decoder = new TextDecoder();
+	let pending: Uint8Array = new Uint8Array(0);
+	let text = "";
+	const reader = stream.getReader();
+	while (true) {
+		const { done, value: chunk } = await reader.read();
+		if (done) break;
+		let data = chunk;
+		if (multiplexed) {
+			const combined = new Uint8Array(pending.length + chunk.length);
+			combined.set(pending);
+			combined.set(chunk, pending.length);
+			const { payload, rest } = demuxLogFrames(combined);
+			pending = rest;
+			data = payload;
+		}
+		text += decoder.decode(data, { stream: true });
+		const lines = text.split("\n");
+		text = lines.pop() ?? "";
+		for (const line of lines) {
+			yield line.replace(/\r$/, "");
+		}
+	}
+	text += decoder.decode();
+	if (text) yield text;
+}
+
 interface ExecCreateResponse {
 	Id: string;
 }
@@ -229,3 +523,80 @@ export async function execInContainer(
 			}),
 	};
 }
+
+export interface ExecResult {
+	exitCode: number;
+	// stdout and stderr, interleaved
+	output: string;
+}
+
+/**
+ * Runs a command in a running container without a TTY and waits for it to
+ * exit.
+ */
+export async function runInContainer(
+	containerId: string,
+	cmd: string[],
+): Promise<ExecResult> {
+	const res = await dockerFetch(
+		`/containers/${encodeURIComponent(containerId)}/exec`,
+		{
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({
+				Cmd: cmd,
+				AttachStdout: true,
+				AttachStderr: true,
+				Tty: false,
+			}),
+		},
+	);
+	const { Id } = (await res.json()) as ExecCreateResponse;
+
+	// The stream ends when the command exits
+	const started = await dockerFetch(`/exec/${encodeURIComponent(Id)}/start`, {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify({ Detach: false, Tty: false }),
+	});
+	const { payload } = demuxLogFrames(
+		new Uint8Array(await started.arrayBuffer()),
+	);
+
+	const inspected = await dockerFetch(`/exec/${encodeURIComponent(Id)}/json`);
+	const { ExitCode } = (await inspected.json()) as { ExitCode: number | null };
+	return {
+		exitCode: ExitCode ?? -1,
+		output: new TextDecoder().decode(payload),
+	};
+}
+
+// Streams a file or directory out of a container as a tar archive
+export async function getArchive(
+	containerId: string,
+	path: string,
+): Promise<ReadableStream<Uint8Array>> {
+	const res = await dockerFetch(
+		`/containers/${encodeURIComponent(containerId)}/archive?path=${encodeURIComponent(path)}`,
+	);
+	if (!res.body) {
+		throw new DockerError(500, "Docker returned no archive stream");
+	}
+	return res.body;
+}
+
+// Extracts a tar archive into a directory of the container
+export async function putArchive(
+	containerId: string,
+	dir: string,
+	archive: Blob,
+): Promise<void> {
+	await dockerFetch(
+		`/containers/${encodeURIComponent(containerId)}/archive?path=${encodeURIComponent(dir)}`,
+		{
+			method: "PUT",
+			headers: { "Content-Type": "application/x-tar" },
+			body: archive,
+		},
+	);
+}
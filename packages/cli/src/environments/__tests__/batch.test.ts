@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { stripAnsi } from "../../tui/terminal.js";
+import { type LogLevel, setConsoleHandler } from "../../utils/logger.js";
+import {
+	type BatchRow,
+	createBatchProgress,
+	formatBatchRow,
+} from "../batch.js";
+
+let messages: Array<[LogLevel, string]>;
+
+beforeEach(() => {
+	messages = [];
+	setConsoleHandler((level, message) => messages.push([level, message]));
+});
+
+afterEach(() => {
+	setConsoleHandler(null);
+});
+
+function row(overrides: Partial<BatchRow>): BatchRow {
+	return {
+		envName: "app-a",
+		state: "queued",
+		since: performance.now(),
+		detail: null,
+		...overrides,
+	};
+}
+
+describe("formatBatchRow", () => {
+	test("shows the phase and how long it has run", () => {
+		const line = stripAnsi(formatBatchRow(row({ state: "devcontainer" }), 8));
+		expect(line).toMatch(/^ {2}◐ app-a {4}devcontainer \d+\.\ds$/);
+	});
+
+	test("shows the total time when done", () => {
+		const line = stripAnsi(
+			formatBatchRow(row({ state: "done", detail: "42.0s" }), 5),
+		);
+		expect(line).toBe("  ● app-a done         42.0s");
+	});
+
+	test("shows the first line of the error when failed", () => {
+		const line = stripAnsi(
+			formatBatchRow(row({ state: "failed", detail: "boom\nstack" }), 5),
+		);
+		expect(line).toBe("  ✗ app-a failed       boom");
+	});
+});
+
+describe("createBatchProgress", () => {
+	test("logs each phase change as a line when not live", () => {
+		const progress = createBatchProgress(["app-a", "app-b"], false);
+		progress.progressFor("app-a").phase("worktree");
+		progress.progressFor("app-a").info("  Creating worktree for branch: a");
+		progress.done("app-a", 12.34);
+		progress.failed("app-b", "devcontainer up failed");
+		progress.stop();
+
+		expect(messages).toEqual([
+			["info", "  [app-a] worktree"],
+			["info", "  [app-a] done (12.3s)"],
+			["info", "  [app-b] failed: devcontainer up failed"],
+		]);
+	});
+});
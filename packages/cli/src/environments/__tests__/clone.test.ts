@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, mock, test } from "bun:test";
+import {
+	clonableVolumes,
+	clonedVolumeName,
+	cloneRepository,
+	withClonedState,
+} from "../clone.js";
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+	globalThis.fetch = originalFetch;
+});
+
+// Answers Docker API calls for one volume copy, recording each request
+function mockDocker(): string[] {
+	const requests: string[] = [];
+	globalThis.fetch = mock((url: string | URL | Request, init?: RequestInit) => {
+		const path = decodeURIComponent(new URL(url.toString()).pathname);
+		requests.push(`${init?.method ?? "GET"} ${path}`);
+		if (path.endsWith("/volumes") && !init?.method) {
+			return Promise.resolve(
+				Response.json({
+					Volumes: [
+						{
+							Name: "devenv-clone-app-feat-data",
+							Labels: {
+								"devenv.environment": "app-feat",
+								"devenv.clone-target": "/data",
+							},
+						},
+					],
+				}),
+			);
+		}
+		return Promise.resolve(new Response(null, { status: 204 }));
+	}) as unknown as typeof fetch;
+	return requests;
+}
+
+describe("clonableVolumes", () => {
+	test("keeps named volumes other than the package-manager caches", () => {
+		const data = {
+			Type: "volume" as const,
+			Name: "app-data",
+			Source: "/var/lib/docker/volumes/app-data/_data",
+			Destination: "/var/lib/postgresql/data",
+		};
+		expect(
+			clonableVolumes([
+				data,
+				{
+					Type: "volume",
+					Name: "devenv-cache-npm",
+					Source: "/var/lib/docker/volumes/devenv-cache-npm/_data",
+					Destination: "/devenv-cache/npm",
+				},
+				{
+					Type: "bind",
+					Source: "/repo/.git",
+					Destination: "/repo/.git",
+				},
+			]),
+		).toEqual([data]);
+	});
+});
+
+describe("names", () => {
+	test("derive from the new environment and the mount path", () => {
+		expect(cloneRepository("app-feat")).toBe("devenv-clone/app-feat");
+		expect(clonedVolumeName("app-feat", "/var/lib/postgresql/data")).toBe(
+			"devenv-clone-app-feat-var-lib-postgresql-data",
+		);
+		expect(clonedVolumeName("app-feat", "/")).toBe(
+			"devenv-clone-app-feat-root",
+		);
+	});
+});
+
+describe("withClonedState", () => {
+	test("removes the snapshot when creation fails", async () => {
+		const requests = mockDocker();
+		await expect(
+			withClonedState("app-feat", false, async () => {
+				throw new Error("name conflict");
+			}),
+		).rejects.toThrow("name conflict");
+
+		expect(requests).toContainEqual(
+			expect.stringMatching(/^DELETE .*\/volumes\/devenv-clone-app-feat-data$/),
+		);
+		expect(requests).toContainEqual(
+			expect.stringMatching(
+				/^DELETE .*\/images\/devenv-clone\/app-feat:latest$/,
+			),
+		);
+	});
+
+	test("keeps the snapshot with keepOnFailure or on success", async () => {
+		const requests = mockDocker();
+		await expect(
+			withClonedState("app-feat", true, async () => {
+				throw new Error("name conflict");
+			}),
+		).rejects.toThrow("name conflict");
+		expect(
+			await withClonedState("app-feat", false, async () => "created"),
+		).toBe("created");
+
+		expect(requests).toEqual([]);
+	});
+});
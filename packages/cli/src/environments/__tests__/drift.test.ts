@@ -0,0 +1,153 @@
+import type { Database } from "bun:sqlite";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Environment, Project } from "@repo/shared";
+import {
+	createDatabase,
+	getEnvironmentByName,
+	getProjectByName,
+	insertEnvironment,
+	insertPortMapping,
+	insertProject,
+	updateEnvironmentAppliedConfig,
+} from "../../db/database.js";
+import { composeMergedConfig } from "../../devcontainer/config-builder.js";
+import { environmentConfigOptions } from "../create.js";
+import { detectConfigDrift, hasDrift, projectDriftCheck } from "../drift.js";
+import { redactConfig } from "../plan.js";
+
+let db: Database;
+let repo: string;
+
+function writeDevcontainer(config: Record<string, unknown>) {
+	writeFileSync(
+		join(repo, ".devcontainer", "devcontainer.json"),
+		JSON.stringify(config),
+	);
+}
+
+// An environment whose container was built from the repository's
+// current devcontainer.json
+function builtEnvironment(): Environment {
+	const project = insertProject(db, "app", repo);
+	const devcontainerConfig = { image: "node:20" };
+	writeDevcontainer(devcontainerConfig);
+	const env = insertEnvironment(
+		db,
+		project.id,
+		"app-main",
+		"main",
+		repo,
+		JSON.stringify(devcontainerConfig),
+	);
+	const portMappings = [
+		insertPortMapping(db, env.id, 3000, 49200, "app-main.localhost"),
+	];
+	const { config, additionalFeatures } = composeMergedConfig(
+		environmentConfigOptions(
+			db,
+			{
+				project,
+				worktreePath: repo,
+				devcontainerConfig,
+				projectConfig: null,
+				portMappings,
+				limits: {},
+			},
+			null,
+		),
+	);
+	updateEnvironmentAppliedConfig(
+		db,
+		env.id,
+		JSON.stringify({ config: redactConfig(config), additionalFeatures }),
+	);
+	return getEnvironmentByName(db, "app-main") as Environment;
+}
+
+beforeEach(() => {
+	db = createDatabase(":memory:");
+	repo = mkdtempSync(join(tmpdir(), "devenv-drift-"));
+	mkdirSync(join(repo, ".devcontainer"));
+});
+
+afterEach(() => {
+	rmSync(repo, { recursive: true, force: true });
+});
+
+describe("detectConfigDrift", () => {
+	test("finds nothing when the config is unchanged", async () => {
+		const drift = await detectConfigDrift(db, builtEnvironment());
+		expect(drift).toEqual({ devcontainer: [], ports: [], merged: [] });
+		expect(hasDrift(drift)).toBe(false);
+	});
+
+	test("reports devcontainer.json changes in both configs", async () => {
+		const env = builtEnvironment();
+		writeDevcontainer({ image: "node:24" });
+
+		const drift = await detectConfigDrift(db, env);
+		expect(drift.devcontainer).toEqual([
+			{ path: "image", before: "node:20", after: "node:24" },
+		]);
+		expect(drift.merged).toContainEqual({
+			path: "config.image",
+			before: "node:20",
+			after: "node:24",
+		});
+		expect(hasDrift(drift)).toBe(true);
+	});
+
+	test("reports ports added to or removed from the config", async () => {
+		const env = builtEnvironment();
+		writeDevcontainer({ image: "node:20", forwardPorts: [5173] });
+
+		const drift = await detectConfigDrift(db, env);
+		expect(drift.ports).toEqual([
+			{ path: 'ports["3000"]', before: 3000 },
+			{ path: 'ports["5173"]', after: 5173 },
+		]);
+		expect(hasDrift(drift)).toBe(true);
+	});
+
+	test("compares devcontainer.json and ports only without an applied config", async () => {
+		const project = insertProject(db, "app", repo);
+		writeDevcontainer({ image: "node:24" });
+		const env = insertEnvironment(
+			db,
+			project.id,
+			"app-main",
+			"main",
+			repo,
+			'{"image":"node:24"}',
+		);
+		insertPortMapping(db, env.id, 3000, 49200, "app-main.localhost");
+
+		const drift = await detectConfigDrift(db, env);
+		expect(drift).toEqual({ devcontainer: [], ports: [], merged: null });
+	});
+});
+
+describe("projectDriftCheck", () => {
+	test("checks environments against the project's inputs", async () => {
+		const env = builtEnvironment();
+		const project = getProjectByName(db, "app") as Project;
+
+		const unchanged = await projectDriftCheck(db, project);
+		expect(await unchanged(env)).toBe(false);
+
+		writeDevcontainer({ image: "node:24" });
+		expect(await (await projectDriftCheck(db, project))(env)).toBe(true);
+	});
+
+	test("gives null when the project's config cannot be read", async () => {
+		const env = builtEnvironment();
+		writeFileSync(join(repo, ".devcontainer", "devcontainer.json"), "{");
+		const project = getProjectByName(db, "app") as Project;
+
+		const check = await projectDriftCheck(db, project);
+		expect(await check(env)).toBeNull();
+	});
+});
@@ -0,0 +1,39 @@
+import type { Database } from "bun:sqlite";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+	createDatabase,
+	getPortMappings,
+	insertEnvironment,
+	insertPortMapping,
+	insertProject,
+} from "../../db/database.js";
+import { setConsoleHandler } from "../../utils/logger.js";
+import { migrateInvalidHostnames } from "../lifecycle.js";
+
+let db: Database;
+
+beforeEach(() => {
+	setConsoleHandler(() => {});
+	db = createDatabase(":memory:");
+});
+
+afterEach(() => {
+	setConsoleHandler(null);
+	db.close();
+});
+
+describe("migrateInvalidHostnames", () => {
+	test("repairs invalid hostnames and leaves valid ones alone", async () => {
+		const project = insertProject(db, "myapp", "/src/myapp");
+		const env = insertEnvironment(db, project.id, "myapp-feature-a", "x");
+		insertPortMapping(db, env.id, 3000, 49200, "myapp-feature/a.localhost");
+		insertPortMapping(db, env.id, 8080, 49201, "myapp-feature-a.localhost");
+
+		expect(await migrateInvalidHostnames(db)).toBe(1);
+		const hostnames = getPortMappings(db, env.id).map((pm) => pm.hostname);
+		expect(hostnames[1]).toBe("myapp-feature-a.localhost");
+		expect(hostnames[0]).toMatch(/^myapp-feature-a-[0-9a-f]{6}\.localhost$/);
+
+		expect(await migrateInvalidHostnames(db)).toBe(0);
+	});
+});
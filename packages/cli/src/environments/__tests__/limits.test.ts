@@ -0,0 +1,120 @@
+import type { Database } from "bun:sqlite";
+import { beforeEach, describe, expect, test } from "bun:test";
+import { createDatabase, setSetting } from "../../db/database.js";
+import { DevenvError } from "../../utils/errors.js";
+import {
+	formatLimits,
+	globalLimits,
+	limitsFromFlags,
+	limitsResources,
+	limitsRunArgs,
+	memoryBytes,
+	mergeLimits,
+	parseLimit,
+	validateLimits,
+} from "../limits.js";
+
+describe("parseLimit", () => {
+	test("accepts CPUs, memory sizes and process counts", () => {
+		expect(parseLimit("cpus", "1.5", "--cpus")).toBe(1.5);
+		expect(parseLimit("memory", "4G", "--memory")).toBe("4g");
+		expect(parseLimit("pids", "512", "--pids")).toBe(512);
+	});
+
+	test("rejects invalid values, naming the source", () => {
+		for (const [key, value] of [
+			["cpus", "0"],
+			["cpus", "two"],
+			["memory", "1m"],
+			["memory", "4 gigs"],
+			["pids", "1.5"],
+		] as const) {
+			let error: unknown;
+			try {
+				parseLimit(key, value, `--${key}`);
+			} catch (e) {
+				error = e;
+			}
+			expect(error).toBeInstanceOf(DevenvError);
+			expect((error as DevenvError).message).toStartWith(`--${key}:`);
+		}
+	});
+});
+
+describe("memoryBytes", () => {
+	test("uses binary units", () => {
+		expect(memoryBytes("512m")).toBe(512 * 1024 ** 2);
+		expect(memoryBytes("1.5g")).toBe(1.5 * 1024 ** 3);
+		expect(memoryBytes("2048")).toBe(2048);
+	});
+});
+
+describe("validateLimits", () => {
+	test("collects every problem", () => {
+		const issues: string[] = [];
+		const limits = validateLimits(
+			{ cpus: 2, memory: 4, pids: -1 },
+			"limits.",
+			issues,
+		);
+		expect(limits).toEqual({ cpus: 2 });
+		expect(issues).toHaveLength(2);
+		expect(issues[0]).toStartWith("limits.memory:");
+		expect(issues[1]).toStartWith("limits.pids:");
+	});
+});
+
+describe("resolving limits", () => {
+	let db: Database;
+
+	beforeEach(() => {
+		db = createDatabase(":memory:");
+	});
+
+	test("reads global limits from settings", () => {
+		setSetting(db, "limits.memory", "8g");
+		setSetting(db, "limits.pids", "1024");
+		expect(globalLimits(db)).toEqual({ memory: "8g", pids: 1024 });
+	});
+
+	test("lets the environment win over the project and the project over global", () => {
+		expect(
+			mergeLimits(
+				{ cpus: 4, memory: "8g" },
+				{ memory: "4g", pids: 512 },
+				{ cpus: 1 },
+			),
+		).toEqual({ cpus: 1, memory: "4g", pids: 512 });
+	});
+
+	test("parses only the flags that were given", () => {
+		expect(limitsFromFlags({ memory: "2g" })).toEqual({ memory: "2g" });
+	});
+});
+
+describe("applying limits", () => {
+	const limits = { cpus: 1.5, memory: "1g", pids: 256 };
+
+	test("builds docker run flags", () => {
+		expect(limitsRunArgs(limits)).toEqual([
+			"--cpus=1.5",
+			"--memory=1g",
+			"--pids-limit=256",
+		]);
+		expect(limitsRunArgs({})).toEqual([]);
+	});
+
+	test("builds HostConfig resources", () => {
+		expect(limitsResources(limits)).toEqual({
+			NanoCpus: 1_500_000_000,
+			Memory: 1024 ** 3,
+			MemorySwap: 2 * 1024 ** 3,
+			PidsLimit: 256,
+		});
+	});
+
+	test("formats limits for humans", () => {
+		expect(formatLimits(limits)).toBe("cpus 1.5, memory 1g, pids 256");
+		expect(formatLimits({})).toBe("none");
+	});
+});
@@ -0,0 +1,102 @@
+import type { Database } from "bun:sqlite";
+import { beforeEach, describe, expect, test } from "bun:test";
+import {
+	createDatabase,
+	insertEnvironment,
+	insertPortMapping,
+	insertProject,
+} from "../../db/database.js";
+import {
+	type EnvironmentPlan,
+	formatPlan,
+	planPorts,
+	redactConfig,
+} from "../plan.js";
+
+let db: Database;
+
+beforeEach(() => {
+	db = createDatabase(":memory:");
+});
+
+describe("planPorts", () => {
+	test("allocates consecutive host ports after those in use", () => {
+		const project = insertProject(db, "app", "/repos/app");
+		const env = insertEnvironment(db, project.id, "app-main", "main", "/wt");
+		insertPortMapping(db, env.id, 3000, 49210, "app-main.localhost");
+
+		const { ports, routes } = planPorts(db, {
+			projectName: "app",
+			envName: "app-feat",
+			branch: "feat",
+			ports: [{ port: 3000 }, { port: 5173, name: "web" }],
+		});
+
+		expect(ports.map((pm) => pm.hostPort)).toEqual([49211, 49212]);
+		expect(ports[1]?.url).toBe(`http://${ports[1]?.hostname}`);
+		expect(routes.map((r) => r.id)).toEqual([
+			"devenv-app-feat-3000",
+			"devenv-app-feat-5173",
+		]);
+		expect(routes[0]?.upstream).toEndWith(":49211");
+		expect(routes[0]?.hostname).toBe(ports[0]?.hostname as string);
+	});
+});
+
+describe("redactConfig", () => {
+	test("hides secret remoteEnv values and leaves the rest", () => {
+		const config = {
+			image: "node:24",
+			remoteEnv: { CLAUDE_CODE_OAUTH_TOKEN: "secret", FOO: "bar" },
+		};
+		expect(redactConfig(config)).toEqual({
+			image: "node:24",
+			remoteEnv: { CLAUDE_CODE_OAUTH_TOKEN: "<redacted>", FOO: "bar" },
+		});
+		expect(config.remoteEnv.CLAUDE_CODE_OAUTH_TOKEN).toBe("secret");
+	});
+});
+
+describe("formatPlan", () => {
+	const plan: EnvironmentPlan = {
+		project: { name: "app", repoPath: "/repos/app", exists: false },
+		environment: { name: "app-feat", branch: "feat", exists: false },
+		worktree: {
+			path: "/repos/app/.devenv/worktrees/feat",
+			source: { kind: "new", ref: "origin/main" },
+		},
+		envFiles: [".env"],
+		ports: [],
+		routes: [],
+		container: {
+			kind: "devcontainer",
+			config: { image: "node:24" },
+			additionalFeatures: {},
+			prebuild: null,
+		},
+	};
+
+	test("summarizes each step and the merged config", () => {
+		const text = formatPlan(plan).join("\n");
+		expect(text).toContain("dry run, nothing was changed");
+		expect(text).toContain("app (/repos/app) [new]");
+		expect(text).toContain("new branch from origin/main");
+		expect(text).toContain("Env files: .env");
+		expect(text).toContain('"image": "node:24"');
+	});
+
+	test("mentions a prebuilt image that would be rebuilt", () => {
+		const text = formatPlan({
+			...plan,
+			container: {
+				kind: "devcontainer",
+				config: { image: "devenv-prebuild/app:abc" },
+				additionalFeatures: {},
+				prebuild: { image: "devenv-prebuild/app:abc", rebuild: true },
+			},
+		}).join("\n");
+		expect(text).toContain(
+			"Prebuilt image: devenv-prebuild/app:abc (rebuilt first, its inputs changed)",
+		);
+	});
+});
@@ -0,0 +1,78 @@
+import { describe, expect, test } from "bun:test";
+import type { Environment } from "@repo/shared";
+import { DevenvError } from "../../utils/errors.js";
+import {
+	checkSnapshotName,
+	postgresContainer,
+	restoreScript,
+} from "../postgres.js";
+
+function environment(overrides: Partial<Environment> = {}): Environment {
+	return {
+		id: 1,
+		projectId: 1,
+		name: "app-feat",
+		branch: "feat",
+		status: "running",
+		containerId: "c1",
+		worktreePath: "/repo/.devenv/worktrees/feat",
+		devcontainerConfig: JSON.stringify({
+			features: { "ghcr.io/devcontainers/features/postgres:1": {} },
+		}),
+		appliedConfig: null,
+		errorMessage: null,
+		resourceLimits: {},
+		createdAt: "2026-01-01 00:00:00",
+		updatedAt: "2026-01-01 00:00:00",
+		...overrides,
+	};
+}
+
+function errorCode(fn: () => unknown): string | undefined {
+	try {
+		fn();
+	} catch (error) {
+		return error instanceof DevenvError ? error.code : undefined;
+	}
+	return undefined;
+}
+
+describe("postgresContainer", () => {
+	test("returns the container of a running environment with postgres", () => {
+		expect(postgresContainer(environment())).toBe("c1");
+	});
+
+	test("rejects environments without the postgres feature", () => {
+		expect(
+			errorCode(() =>
+				postgresContainer(environment({ devcontainerConfig: null })),
+			),
+		).toBe("NO_DATABASE");
+	});
+
+	test("rejects stopped environments", () => {
+		expect(
+			errorCode(() => postgresContainer(environment({ status: "stopped" }))),
+		).toBe("ENV_NOT_RUNNING");
+	});
+});
+
+describe("checkSnapshotName", () => {
+	test("accepts names usable as file names only", () => {
+		expect(() => checkSnapshotName("before-migration.2")).not.toThrow();
+		for (const name of ["", "../other", "a/b", ".hidden", "with space"]) {
+			expect(errorCode(() => checkSnapshotName(name))).toBe("USAGE");
+		}
+	});
+});
+
+describe("restoreScript", () => {
+	test("waits for the server and closes other sessions before restoring", () => {
+		const script = restoreScript();
+		const ready = script.indexOf("pg_isready");
+		const terminate = script.indexOf("pg_terminate_backend");
+		expect(ready).toBeGreaterThanOrEqual(0);
+		expect(terminate).toBeGreaterThan(ready);
+		expect(script.indexOf("-f /tmp/devenv-db.sql")).toBeGreaterThan(terminate);
+	});
+});
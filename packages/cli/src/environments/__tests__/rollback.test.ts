@@ -0,0 +1,94 @@
+import type { Database } from "bun:sqlite";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+	createDatabase,
+	getEnvironmentByName,
+	insertEnvironment,
+	insertProject,
+} from "../../db/database.js";
+import { setConsoleHandler } from "../../utils/logger.js";
+import { createRollback, failEnvironmentSetup } from "../rollback.js";
+
+beforeEach(() => {
+	setConsoleHandler(() => {});
+});
+
+afterEach(() => {
+	setConsoleHandler(null);
+});
+
+describe("createRollback", () => {
+	test("undoes steps newest first", async () => {
+		const undone: string[] = [];
+		const rollback = createRollback();
+		rollback.add("worktree", () => {
+			undone.push("worktree");
+		});
+		rollback.add("container", async () => {
+			undone.push("container");
+		});
+
+		expect(await rollback.run()).toEqual([]);
+		expect(undone).toEqual(["container", "worktree"]);
+	});
+
+	test("carries on past steps that fail to undo", async () => {
+		const undone: string[] = [];
+		const rollback = createRollback();
+		rollback.add("worktree", () => {
+			undone.push("worktree");
+		});
+		rollback.add("container", () => {
+			throw new Error("docker is down");
+		});
+
+		expect(await rollback.run()).toEqual(["container"]);
+		expect(undone).toEqual(["worktree"]);
+	});
+});
+
+describe("failEnvironmentSetup", () => {
+	let db: Database;
+
+	beforeEach(() => {
+		db = createDatabase(":memory:");
+	});
+
+	test("rolls back and records the failure on the environment", async () => {
+		const project = insertProject(db, "app", "/repos/app");
+		const env = insertEnvironment(db, project.id, "app-feat", "feat");
+		let undone = false;
+		const rollback = createRollback();
+		rollback.add("worktree", () => {
+			undone = true;
+		});
+
+		await failEnvironmentSetup(
+			db,
+			env,
+			new Error("devcontainer up failed"),
+			rollback,
+			false,
+		);
+
+		expect(undone).toBe(true);
+		const failed = getEnvironmentByName(db, "app-feat");
+		expect(failed?.status).toBe("error");
+		expect(failed?.errorMessage).toBe("devcontainer up failed");
+	});
+
+	test("leaves everything in place when asked to keep it", async () => {
+		const project = insertProject(db, "app", "/repos/app");
+		const env = insertEnvironment(db, project.id, "app-feat", "feat");
+		let undone = false;
+		const rollback = createRollback();
+		rollback.add("worktree", () => {
+			undone = true;
+		});
+
+		await failEnvironmentSetup(db, env, new Error("boom"), rollback, true);
+
+		expect(undone).toBe(false);
+		expect(getEnvironmentByName(db, "app-feat")?.status).toBe("error");
+	});
+});
@@ -0,0 +1,125 @@
+import { ansi, cursorUp, padEnd } from "../tui/terminal.js";
+import { log, setConsoleHandler } from "../utils/logger.js";
+import { elapsed } from "../utils/output.js";
+import type { CreatePhase, CreateProgress } from "./create.js";
+
+// How often the live display redraws, so elapsed times keep ticking
+const REDRAW_INTERVAL_MS = 250;
+
+export type BatchState = "queued" | CreatePhase | "done" | "failed";
+
+export interface BatchRow {
+	envName: string;
+	state: BatchState;
+	// performance.now() when the current state began
+	since: number;
+	// Total seconds once done, or the error message once failed
+	detail: string | null;
+}
+
+export function formatBatchRow(row: BatchRow, nameWidth: number): string {
+	const name = padEnd(row.envName, nameWidth);
+	switch (row.state) {
+		case "queued":
+			return `  ${ansi.dim}○${ansi.reset} ${name} ${ansi.dim}queued${ansi.reset}`;
+		case "done":
+			return `  ${ansi.green}●${ansi.reset} ${name} ${ansi.green}${padEnd("done", 12)}${ansi.reset} ${row.detail ?? ""}`;
+		case "failed":
+			return `  ${ansi.red}✗${ansi.reset} ${name} ${ansi.red}${padEnd("failed", 12)}${ansi.reset} ${(row.detail ?? "").split("\n")[0]}`;
+		default:
+			return `  ${ansi.yellow}◐${ansi.reset} ${name} ${padEnd(row.state, 12)} ${ansi.dim}${elapsed(row.since)}${ansi.reset}`;
+	}
+}
+
+export interface BatchProgress {
+	progressFor(envName: string): CreateProgress;
+	done(envName: string, totalSeconds: number): void;
+	failed(envName: string, message: string): void;
+	// Stops redrawing and prints any warnings held back while it ran
+	stop(): void;
+}
+
+/**
+ * Shows where each environment of a batch create is up to. With `live`, one
+ * line per environment is redrawn in place; otherwise each change is logged
+ * as its own line, which suits log files and pipes.
+ */
+export function createBatchProgress(
+	envNames: string[],
+	live: boolean,
+): BatchProgress {
+	const rows = new Map<string, BatchRow>(
+		envNames.map((envName) => [
+			envName,
+			{ envName, state: "queued", since: performance.now(), detail: null },
+		]),
+	);
+	const nameWidth = Math.max(...envNames.map((name) => name.length));
+	const held: string[] = [];
+	let drawn = 0;
+
+	const draw = () => {
+		let out = cursorUp(drawn);
+		for (const row of rows.values()) {
+			out += `${formatBatchRow(row, nameWidth)}${ansi.clearLine}\n`;
+		}
+		process.stdout.write(out);
+		drawn = rows.size;
+	};
+
+	let timer: ReturnType<typeof setInterval> | null = null;
+	if (live) {
+		// Anything logged mid-draw would break the layout, so warnings wait
+		// until the end; info still reaches the log file
+		setConsoleHandler((level, message) => {
+			if (level === "warn" || level === "error") held.push(message);
+		});
+		draw();
+		timer = setInterval(draw, REDRAW_INTERVAL_MS);
+	}
+
+	const update = (
+		envName: string,
+		state: BatchState,
+		detail: string | null = null,
+	) => {
+		const row = rows.get(envName);
+		if (!row) return;
+		row.state = state;
+		row.since = performance.now();
+		row.detail = detail;
+		if (live) {
+			draw();
+		} else if (state === "failed") {
+			log.info(`  [${envName}] failed: ${detail}`);
+		} else {
+			log.info(`  [${envName}] ${state}${detail ? ` (${detail})` : ""}`);
+		}
+	};
+
+	return {
+		progressFor(envName) {
+			return {
+				phase: (phase) => update(envName, phase),
+				info: (message) => log.debug(`[${envName}] ${message.trim()}`),
+				warn: (message) => log.warn(`[${envName}] ${message}`),
+			};
+		},
+		done(envName, totalSeconds) {
+			update(envName, "done", `${totalSeconds.toFixed(1)}s`);
+		},
+		failed(envName, message) {
+			update(envName, "failed", message);
+		},
+		stop() {
+			if (!live) return;
+			if (timer) clearInterval(timer);
+			draw();
+			setConsoleHandler(null);
+			// Already in the log file; only the terminal missed them
+			for (const message of held) {
+				console.error(message);
+			}
+		},
+	};
+}
@@ -0,0 +1,183 @@
+import {
+	CACHE_VOLUME_PREFIX,
+	CONTAINER_LABEL_PREFIX,
+	type Environment,
+} from "@repo/shared";
+import {
+	type ContainerMount,
+	commitContainer,
+	createContainer,
+	createVolume,
+	DockerError,
+	inspectContainer,
+	listVolumes,
+	pauseContainer,
+	removeContainer,
+	removeImage,
+	removeVolume,
+	startContainer,
+	unpauseContainer,
+	waitContainer,
+} from "../docker/client.js";
+import { noContainer } from "../utils/errors.js";
+import { log } from "../utils/logger.js";
+import { slugify } from "../utils/naming.js";
+
+const CLONE_TAG = "latest";
+const ENVIRONMENT_LABEL = `${CONTAINER_LABEL_PREFIX}.environment`;
+// Path the copied volume replaces in the new environment's container
+const CLONE_TARGET_LABEL = `${CONTAINER_LABEL_PREFIX}.clone-target`;
+
+// What a branched environment starts from instead of a fresh container
+export interface ClonedState {
+	// Snapshot of the source container's filesystem
+	image: string;
+	// Copies of the source's volumes, keyed by the path they are mounted at
+	volumes: Record<string, string>;
+}
+
+export function cloneRepository(envName: string): string {
+	return `${CONTAINER_LABEL_PREFIX}-clone/${envName}`;
+}
+
+export function clonedVolumeName(envName: string, target: string): string {
+	return `${CONTAINER_LABEL_PREFIX}-clone-${envName}-${slugify(target) || "root"}`;
+}
+
+// Volumes holding the container's own state; shared caches stay shared
+export function clonableVolumes(mounts: ContainerMount[]): ContainerMount[] {
+	return mounts.filter(
+		(mount) =>
+			mount.Type === "volume" &&
+			mount.Name !== undefined &&
+			!mount.Name.startsWith(`${CACHE_VOLUME_PREFIX}-`),
+	);
+}
+
+// Copies a volume's contents in a throwaway container running `image`
+async function copyVolume(
+	image: string,
+	from: string,
+	to: string,
+): Promise<void> {
+	const containerId = await createContainer({
+		name: `${CONTAINER_LABEL_PREFIX}-copy-${to}`,
+		image,
+		entrypoint: ["sh", "-c"],
+		cmd: ["cp -a /from/. /to/"],
+		user: "root",
+		volumes: { "/from": from, "/to": to },
+	});
+	try {
+		await startContainer(containerId);
+		const exitCode = await waitContainer(containerId);
+		if (exitCode !== 0) {
+			throw new Error(`Copying volume ${from} failed (exit code ${exitCode})`);
+		}
+	} finally {
+		await removeContainer(containerId).catch(() => {});
+	}
+}
+
+/**
+ * Snapshots the source environment's container for `envName`: commits its
+ * filesystem to an image and copies each of its volumes, except the shared
+ * package-manager caches. A running container is paused meanwhile so the
+ * copies are consistent. Anything already created is removed on failure.
+ */
+export async function cloneEnvironmentState(
+	source: Environment,
+	envName: string,
+	onProgress: (message: string) => void = (message) => log.info(message),
+): Promise<ClonedState> {
+	if (!source.containerId) {
+		throw noContainer(source.name);
+	}
+	const containerId = source.containerId;
+	const info = await inspectContainer(containerId);
+	const pause = info.State.Running && !info.State.Paused;
+
+	// Leftovers of an earlier attempt would be copied over otherwise
+	await removeClonedState(envName);
+
+	if (pause) await pauseContainer(containerId);
+	try {
+		const image = `${cloneRepository(envName)}:${CLONE_TAG}`;
+		onProgress(`  Snapshotting the container of ${source.name}...`);
+		await commitContainer(containerId, cloneRepository(envName), CLONE_TAG);
+
+		const volumes: Record<string, string> = {};
+		for (const mount of clonableVolumes(info.Mounts ?? [])) {
+			const name = clonedVolumeName(envName, mount.Destination);
+			onProgress(`  Copying volume ${mount.Name} (${mount.Destination})...`);
+			await createVolume(name, {
+				[ENVIRONMENT_LABEL]: envName,
+				[CLONE_TARGET_LABEL]: mount.Destination,
+			});
+			await copyVolume(image, mount.Name as string, name);
+			volumes[mount.Destination] = name;
+		}
+		return { image, volumes };
+	} catch (error) {
+		await removeClonedState(envName).catch(() => {});
+		throw error;
+	} finally {
+		if (pause) await unpauseContainer(containerId);
+	}
+}
+
+// The environment's volume copies, keyed by the path they are mounted at
+export async function findClonedVolumes(
+	envName: string,
+): Promise<Record<string, string>> {
+	const volumes: Record<string, string> = {};
+	for (const volume of await listVolumes(
+		undefined,
+		`${ENVIRONMENT_LABEL}=${envName}`,
+	)) {
+		const target = volume.Labels?.[CLONE_TARGET_LABEL];
+		if (target !== undefined) volumes[target] = volume.Name;
+	}
+	return volumes;
+}
+
+/**
+ * Removes the snapshot image and volume copies made for `envName`, if any.
+ * Fails while the environment's container still uses them.
+ */
+export async function removeClonedState(envName: string): Promise<void> {
+	for (const name of Object.values(await findClonedVolumes(envName))) {
+		await removeVolume(name);
+	}
+	try {
+		await removeImage(`${cloneRepository(envName)}:${CLONE_TAG}`);
+	} catch (error) {
+		if (!(error instanceof DockerError && error.statusCode === 404)) {
+			throw error;
+		}
+	}
+}
+
+/**
+ * Runs `create` for the environment whose state was cloned, removing the
+ * snapshot and volume copies when it fails, unless `keep` is set. Creation
+ * can fail before it takes over cleaning them up, as on a name conflict.
+ */
+export async function withClonedState<T>(
+	envName: string,
+	keep: boolean,
+	create: () => Promise<T>,
+): Promise<T> {
+	try {
+		return await create();
+	} catch (error) {
+		if (!keep) {
+			await removeClonedState(envName).catch((cleanupError: unknown) =>
+				log.warn(
+					`Could not remove the snapshot made for ${envName}: ${cleanupError instanceof Error ? cleanupError.message : cleanupError}`,
+				),
+			);
+		}
+		throw error;
+	}
+}
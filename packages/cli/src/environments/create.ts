@@ -0,0 +1,505 @@
+import type { Database } from "bun:sqlite";
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import {
+	DEVENV_DIR,
+	DEVENV_WORKTREES_DIR,
+	type EnvFile,
+	type Environment,
+	type PortMapping,
+	type Project,
+	type ResourceLimits,
+} from "@repo/shared";
+import {
+	allocatePortMappings,
+	deleteEnvFiles,
+	deletePortMappings,
+	getEnvironmentByName,
+	getPortMappings,
+	getSetting,
+	insertEnvironment,
+	updateEnvironmentAppliedConfig,
+	updateEnvironmentContainer,
+	updateEnvironmentLimits,
+	updateEnvironmentStatus,
+	upsertEnvFile,
+} from "../db/database.js";
+import {
+	composeMergedConfig,
+	type MergedConfigOptions,
+	type MergedConfigResult,
+	writeDevcontainerConfig,
+} from "../devcontainer/config-builder.js";
+import {
+	type DevcontainerConfig,
+	detectPostgresFeature,
+	findDevcontainerConfig,
+	resolveEnvVars,
+} from "../devcontainer/parser.js";
+import { resolvePrebuild } from "../devcontainer/prebuild.js";
+import { devcontainerUp } from "../devcontainer/runner.js";
+import { DockerError, inspectContainer } from "../docker/client.js";
+import { emit } from "../plugins/events.js";
+import { type ProjectConfig, resolveProjectPorts } from "../project/config.js";
+import { createMutex } from "../utils/concurrency.js";
+import {
+	describeWrittenEnvFile,
+	discoverEnvFiles,
+	envFileVariables,
+	localhostHostnames,
+	writeEnvFile,
+} from "../utils/envfiles.js";
+import { DevenvError } from "../utils/errors.js";
+import {
+	createWorktree,
+	deleteBranch,
+	describeWorktreeSource,
+	removeWorktree,
+	type WorktreeSource,
+} from "../utils/git.js";
+import { getLogLevel, log } from "../utils/logger.js";
+import { generateHostname } from "../utils/naming.js";
+import { elapsed, elapsedSeconds } from "../utils/output.js";
+import { type ClonedState, removeClonedState } from "./clone.js";
+import {
+	addEnvironmentRoutes,
+	migrateInvalidHostnames,
+	removeEnvironmentContainers,
+	removeEnvironmentRoutes,
+} from "./lifecycle.js";
+import { formatLimits, globalLimits, mergeLimits } from "./limits.js";
+import { redactConfig } from "./plan.js";
+import { createRollback, failEnvironmentSetup } from "./rollback.js";
+
+// Steps that touch state shared by every environment run one at a time when
+// several are created at once: git locks .git/config and refs while adding
+// worktrees, and the first proxy route may have to start Caddy
+const withGitLock = createMutex();
+const withProxyLock = createMutex();
+
+export type CreatePhase =
+	| "worktree"
+	| "ports"
+	| "env-files"
+	| "devcontainer"
+	| "proxy";
+
+/**
+ * Where createEnvironment reports progress. A single create logs each step;
+ * batch creation shows the current phase of every environment instead.
+ */
+export interface CreateProgress {
+	phase(phase: CreatePhase): void;
+	info(message: string): void;
+	warn(message: string): void;
+}
+
+export const consoleProgress: CreateProgress = {
+	phase() {},
+	info: (message) => log.info(message),
+	warn: (message) => log.warn(message),
+};
+
+export interface CreateEnvironmentOptions {
+	project: Project;
+	envName: string;
+	branch: string;
+	base?: string;
+	// Set when the user passed --base, so ignoring it is worth a warning
+	explicitBase?: boolean;
+	projectConfig: ProjectConfig | null;
+	keepOnFailure: boolean;
+	// Limits for this environment only, stored with it
+	limits?: ResourceLimits;
+	// Env files to store and write, instead of those found in the repository
+	envFiles?: Pick<EnvFile, "relativePath" | "content" | "encoding">[];
+	// Snapshot to start the container from, removed again if setup fails
+	clonedState?: ClonedState;
+}
+
+export interface CreatedEnvironment {
+	environment: Environment;
+	worktree: WorktreeSource | null;
+	portMappings: PortMapping[];
+	postgres: { container: string; host: string | null } | null;
+	// Seconds spent in each phase that ran, and in total
+	timings: Record<string, number>;
+}
+
+/**
+ * Creates one environment: worktree, records, devcontainer and proxy
+ * routes. On failure, undoes what it did (unless `keepOnFailure`) and marks
+ * the environment as failed before rethrowing.
+ */
+export async function createEnvironment(
+	db: Database,
+	options: CreateEnvironmentOptions,
+	progress: CreateProgress = consoleProgress,
+): Promise<CreatedEnvironment> {
+	const { project, envName, branch, projectConfig } = options;
+	const projectName = project.name;
+	const repoPath = project.repoPath;
+	const totalStart = performance.now();
+
+	const worktreePath = join(repoPath, DEVENV_DIR, DEVENV_WORKTREES_DIR, branch);
+	// New hostnames are checked against the existing ones, so those recorded
+	// by earlier versions are repaired first
+	await migrateInvalidHostnames(db);
+	await emit("beforeCreate", { project, envName, branch, worktreePath });
+
+	// Environment
+	const devcontainerConfig = await findDevcontainerConfig(repoPath);
+	let environment = getEnvironmentByName(db, envName);
+	const removeExistingContainer = environment !== null;
+	if (environment?.status === "running") {
+		// Verify the container is actually running in Docker
+		let containerActuallyRunning = false;
+		if (environment.containerId) {
+			try {
+				const info = await inspectContainer(environment.containerId);
+				containerActuallyRunning = info.State.Running;
+			} catch (e) {
+				if (e instanceof DockerError && e.statusCode === 404) {
+					// Container no longer exists
+				} else {
+					throw e;
+				}
+			}
+		}
+		if (containerActuallyRunning) {
+			throw new DevenvError(
+				"ENV_EXISTS",
+				`Environment "${envName}" already exists and is running. Use 'devenv remove' first.`,
+			);
+		}
+		// DB status is stale — container is gone or stopped
+		updateEnvironmentStatus(db, environment.id, "stopped");
+	}
+
+	// Read before any work so an invalid setting fails fast
+	const baseLimits = mergeLimits(globalLimits(db), projectConfig?.limits);
+
+	// Each step below registers how to undo it, so a failure partway leaves
+	// nothing behind but the environment record and its error
+	const rollback = createRollback();
+	const timings: Record<string, number> = {};
+	let worktree: WorktreeSource | null = null;
+	let portMappings: PortMapping[];
+	let setUp: Environment;
+	try {
+		if (options.clonedState) {
+			rollback.add("cloned state", () => removeClonedState(envName));
+		}
+		if (!existsSync(worktreePath)) {
+			progress.phase("worktree");
+			progress.info(`  Creating worktree for branch: ${branch}`);
+			const wtStart = performance.now();
+			const source = await withGitLock(() =>
+				createWorktree(repoPath, branch, worktreePath, options.base),
+			);
+			worktree = source;
+			rollback.add(`worktree ${worktreePath}`, () =>
+				withGitLock(async () => {
+					await removeWorktree(repoPath, worktreePath);
+					if (source.kind !== "local") {
+						await deleteBranch(repoPath, branch);
+					}
+				}),
+			);
+			if (options.explicitBase && source.kind !== "new") {
+				progress.warn(`--base ignored: ${describeWorktreeSource(source)}`);
+			}
+			timings.worktree = elapsedSeconds(wtStart);
+			progress.info(
+				`  Worktree created, ${describeWorktreeSource(source)} (${elapsed(wtStart)})`,
+			);
+		}
+
+		if (environment) {
+			progress.info(`  Resuming setup for existing environment: ${envName}`);
+		} else {
+			environment = insertEnvironment(
+				db,
+				project.id,
+				envName,
+				branch,
+				worktreePath,
+				devcontainerConfig ? JSON.stringify(devcontainerConfig) : undefined,
+			);
+		}
+		const environmentId = environment.id;
+		if (options.limits && Object.keys(options.limits).length > 0) {
+			const envLimits = mergeLimits(environment.resourceLimits, options.limits);
+			updateEnvironmentLimits(db, environmentId, envLimits);
+			environment = { ...environment, resourceLimits: envLimits };
+		}
+		const limits = mergeLimits(baseLimits, environment.resourceLimits);
+
+		// Port mappings, replacing any left by a previous failed attempt
+		progress.phase("ports");
+		deletePortMappings(db, environment.id);
+		rollback.add("port mappings", () => deletePortMappings(db, environmentId));
+		portMappings = allocatePortMappings(
+			db,
+			environment.id,
+			resolveProjectPorts(devcontainerConfig, projectConfig).map(
+				({ port, name }) => ({
+					containerPort: port,
+					hostname: generateHostname(
+						{ projectName, envName, branch },
+						port,
+						name,
+						projectConfig?.hostnames,
+					),
+				}),
+			),
+		);
+		// Env files — discover from original repo unless given, and copy to
+		// worktree with placeholders filled in from the port mappings
+		progress.phase("env-files");
+		const envFiles =
+			options.envFiles ??
+			(await discoverEnvFiles(repoPath, projectConfig?.envFiles));
+		rollback.add("env file records", () => deleteEnvFiles(db, environmentId));
+		const variables = envFileVariables(environment, portMappings);
+		const hostnames = projectConfig?.envFiles?.rewriteLocalhost
+			? localhostHostnames(portMappings)
+			: null;
+		const changes: string[] = [];
+		for (const envFile of envFiles) {
+			upsertEnvFile(
+				db,
+				environment.id,
+				envFile.relativePath,
+				envFile.content,
+				envFile.encoding,
+			);
+			// Copy env file to worktree so it exists in the container workspace
+			const report = describeWrittenEnvFile(
+				envFile.relativePath,
+				writeEnvFile(worktreePath, envFile, variables, hostnames),
+			);
+			for (const warning of report.warnings) progress.warn(`  ${warning}`);
+			changes.push(...report.changes);
+		}
+		if (envFiles.length > 0) {
+			progress.info(`  Copied ${envFiles.length} env file(s) to worktree`);
+		}
+		if (changes.length > 0) {
+			progress.info(`  Rewrote ${changes.length} localhost URL(s):`);
+			for (const change of changes) progress.info(`    ${change}`);
+		}
+
+		// Build merged devcontainer config and run devcontainer up
+		progress.phase("devcontainer");
+		const { configPath, additionalFeatures, applied } =
+			await buildEnvironmentConfig(
+				db,
+				{
+					project,
+					worktreePath,
+					devcontainerConfig,
+					projectConfig,
+					portMappings,
+					limits,
+					image: options.clonedState?.image,
+					volumes: options.clonedState?.volumes,
+				},
+				progress,
+			);
+		if (Object.keys(limits).length > 0) {
+			progress.info(`  Resource limits: ${formatLimits(limits)}`);
+		}
+
+		progress.info(
+			getLogLevel() === "debug"
+				? "  Starting devcontainer..."
+				: "  Starting devcontainer (run with --verbose to follow its output)...",
+		);
+		const dcStart = performance.now();
+		// Registered up front: a failed devcontainer up can still leave a
+		// container behind
+		rollback.add("container", async () => {
+			await removeEnvironmentContainers(envName);
+			updateEnvironmentContainer(db, environmentId, null);
+		});
+		const { containerId } = await devcontainerUp({
+			worktreePath,
+			configPath,
+			projectName,
+			envName,
+			additionalFeatures,
+			removeExistingContainer,
+		});
+		timings.devcontainer = elapsedSeconds(dcStart);
+		progress.info(`  Devcontainer started (${elapsed(dcStart)})`);
+
+		updateEnvironmentContainer(db, environment.id, containerId);
+		updateEnvironmentAppliedConfig(db, environment.id, JSON.stringify(applied));
+		updateEnvironmentStatus(db, environment.id, "running");
+
+		// Caddy routes
+		progress.phase("proxy");
+		progress.info("  Configuring reverse proxy...");
+		const caddyStart = performance.now();
+		const routed = environment;
+		rollback.add("proxy routes", () => removeEnvironmentRoutes(db, routed));
+		await withProxyLock(() => addEnvironmentRoutes(db, routed));
+		timings.proxy = elapsedSeconds(caddyStart);
+		progress.info(`  Reverse proxy configured (${elapsed(caddyStart)})`);
+
+		setUp = routed;
+	} catch (error) {
+		await failEnvironmentSetup(
+			db,
+			environment,
+			error,
+			rollback,
+			options.keepOnFailure,
+		);
+		throw error;
+	}
+
+	const created = getEnvironmentByName(db, envName) ?? setUp;
+	await emit("afterCreate", {
+		project,
+		environment: created,
+		portMappings: getPortMappings(db, created.id),
+	});
+
+	const pgMapping = portMappings.find((pm) => pm.containerPort === 5432);
+	timings.total = elapsedSeconds(totalStart);
+	return {
+		environment: created,
+		worktree,
+		portMappings,
+		postgres: detectPostgresFeature(devcontainerConfig)
+			? {
+					container: "postgres://postgres@localhost:5432/postgres",
+					host: pgMapping
+						? `postgres://postgres@localhost:${pgMapping.hostPort}/postgres`
+						: null,
+				}
+			: null,
+		timings,
+	};
+}
+
+export interface EnvironmentConfigInputs {
+	project: Project;
+	worktreePath: string;
+	devcontainerConfig: DevcontainerConfig | null;
+	projectConfig: ProjectConfig | null;
+	portMappings: PortMapping[];
+	// Effective limits, already merged across global, project and environment
+	limits: ResourceLimits;
+	// Image to start from instead of building or using a prebuilt one
+	image?: string;
+	volumes?: Record<string, string>;
+}
+
+// What a container was built with, stored to tell when the config drifts
+export interface AppliedConfig {
+	// The merged devcontainer.json, secrets redacted
+	config: Record<string, unknown>;
+	additionalFeatures: Record<string, Record<string, unknown>>;
+	// Snapshot and volume copies from `branch --clone-state`
+	image?: string;
+	volumes?: Record<string, string>;
+}
+
+export interface EnvironmentConfig extends MergedConfigResult {
+	applied: AppliedConfig;
+}
+
+// buildMergedConfig options for an environment, given the prebuilt image
+// it starts from
+export function environmentConfigOptions(
+	db: Database,
+	inputs: EnvironmentConfigInputs,
+	prebuiltImage: string | null,
+): MergedConfigOptions {
+	const { project, devcontainerConfig } = inputs;
+	const portBindings: Record<string, string> = {};
+	for (const pm of inputs.portMappings) {
+		portBindings[String(pm.containerPort)] = String(pm.hostPort);
+	}
+	return {
+		devcontainerConfig,
+		worktreePath: inputs.worktreePath,
+		repoPath: project.repoPath,
+		projectName: project.name,
+		// Build container env vars from devcontainer config only
+		// (env files are copied as files to the worktree, not flattened into env vars)
+		containerEnv: resolveEnvVars(devcontainerConfig),
+		portBindings,
+		claudeOAuthToken: getSetting(db, "claude-token") ?? undefined,
+		projectConfig: inputs.projectConfig,
+		prebuiltImage: inputs.image ?? prebuiltImage,
+		volumes: inputs.volumes,
+		limits: inputs.limits,
+	};
+}
+
+/**
+ * Writes the devcontainer.json an environment's container runs with: the
+ * project's config plus its port bindings, the settings devenv injects and
+ * the image it starts from. A stale prebuilt image is rebuilt first.
+ */
+export async function buildEnvironmentConfig(
+	db: Database,
+	inputs: EnvironmentConfigInputs,
+	progress: CreateProgress = consoleProgress,
+): Promise<EnvironmentConfig> {
+	const { project, devcontainerConfig, projectConfig } = inputs;
+	progress.info("  Building devcontainer configuration...");
+
+	const prebuiltImage = inputs.image
+		? null
+		: await resolvePrebuild(
+				{
+					projectName: project.name,
+					repoPath: project.repoPath,
+					devcontainerConfig,
+					projectConfig,
+				},
+				(message) => progress.info(message),
+			);
+	if (inputs.image) {
+		progress.info(`  Starting from snapshot ${inputs.image}`);
+	} else if (prebuiltImage) {
+		progress.info(`  Using prebuilt image ${prebuiltImage}`);
+	}
+
+	const { config, additionalFeatures } = composeMergedConfig(
+		environmentConfigOptions(db, inputs, prebuiltImage),
+	);
+	const volumes = inputs.volumes ?? {};
+	return {
+		configPath: await writeDevcontainerConfig(config),
+		additionalFeatures,
+		applied: {
+			config: redactConfig(config),
+			additionalFeatures,
+			...(inputs.image ? { image: inputs.image } : {}),
+			...(Object.keys(volumes).length > 0 ? { volumes } : {}),
+		},
+	};
+}
+
+export function printCreatedSummary(created: CreatedEnvironment): void {
+	log.info(`  Name:   ${created.environment.name}`);
+	log.info(`  Branch: ${created.environment.branch}`);
+	log.info(`  Status: running`);
+	log.info("  URLs:");
+	for (const pm of created.portMappings) {
+		log.info(`    http://${pm.hostname} → :${pm.containerPort}`);
+	}
+	if (created.postgres) {
+		log.info("  PostgreSQL:");
+		log.info(`    ${created.postgres.container} (inside container)`);
+		if (created.postgres.host) {
+			log.info(`    ${created.postgres.host} (from host)`);
+		}
+	}
+}
@@ -0,0 +1,199 @@
+import type { Database } from "bun:sqlite";
+import { existsSync } from "node:fs";
+import type { Environment, Project, ResourceLimits } from "@repo/shared";
+import { getPortMappings } from "../db/database.js";
+import { composeMergedConfig } from "../devcontainer/config-builder.js";
+import {
+	type DevcontainerConfig,
+	findDevcontainerConfig,
+} from "../devcontainer/parser.js";
+import { prebuildImage, prebuildRepository } from "../devcontainer/prebuild.js";
+import {
+	loadProjectConfig,
+	type ProjectConfig,
+	resolveProjectPorts,
+} from "../project/config.js";
+import { diffJson, type JsonChange } from "../utils/json-diff.js";
+import { type AppliedConfig, environmentConfigOptions } from "./create.js";
+import { getEnvironmentProject } from "./lifecycle.js";
+import { globalLimits, mergeLimits } from "./limits.js";
+import { redactConfig } from "./plan.js";
+
+export interface ConfigDrift {
+	// The project's devcontainer.json against the copy stored at creation
+	devcontainer: JsonChange[];
+	// Container ports routed against those the config now forwards
+	ports: JsonChange[];
+	// The merged config devenv would run now against the one the container
+	// was built with; null for containers built before it was recorded or
+	// whose worktree is gone
+	merged: JsonChange[] | null;
+}
+
+// Keyed by number, so a change names the port rather than a list position
+function portSet(ports: number[]): Record<string, number> {
+	return Object.fromEntries(ports.map((port) => [String(port), port]));
+}
+
+export function hasDrift(drift: ConfigDrift): boolean {
+	return (
+		drift.devcontainer.length > 0 ||
+		drift.ports.length > 0 ||
+		(drift.merged?.length ?? 0) > 0
+	);
+}
+
+// What drift is measured against, shared by a project's environments
+export interface ProjectDriftInputs {
+	project: Project;
+	devcontainerConfig: DevcontainerConfig | null;
+	projectConfig: ProjectConfig | null;
+	globalLimits: ResourceLimits;
+	// The image the current config would prebuild, hashed on first use
+	prebuildImage: () => string;
+}
+
+/**
+ * Reads a project's devcontainer.json, project config and the global
+ * limits once, so listing many environments does not read them per
+ * environment.
+ */
+async function loadDriftInputs(
+	db: Database,
+	project: Project,
+): Promise<ProjectDriftInputs> {
+	const devcontainerConfig = await findDevcontainerConfig(project.repoPath);
+	const projectConfig =
+		(await loadProjectConfig(project.repoPath))?.config ?? null;
+	let image: string | undefined;
+	return {
+		project,
+		devcontainerConfig,
+		projectConfig,
+		globalLimits: globalLimits(db),
+		prebuildImage: () => {
+			image ??= prebuildImage({
+				projectName: project.name,
+				repoPath: project.repoPath,
+				devcontainerConfig,
+				projectConfig,
+			});
+			return image;
+		},
+	};
+}
+
+/**
+ * Compares an environment's container config and routed ports with what
+ * `rebuild` would produce from the project's current devcontainer.json,
+ * project config, limits and settings. Reads files and the database only;
+ * a stale prebuilt image shows as a changed `image`, without checking which
+ * images exist.
+ */
+export async function detectConfigDrift(
+	db: Database,
+	environment: Environment,
+	inputs?: ProjectDriftInputs,
+): Promise<ConfigDrift> {
+	const loaded =
+		inputs ??
+		(await loadDriftInputs(db, getEnvironmentProject(db, environment)));
+	const { project, devcontainerConfig, projectConfig } = loaded;
+	const stored = environment.devcontainerConfig
+		? (JSON.parse(environment.devcontainerConfig) as DevcontainerConfig)
+		: null;
+	const portMappings = getPortMappings(db, environment.id);
+	const drift: ConfigDrift = {
+		devcontainer: diffJson(stored, devcontainerConfig),
+		ports: diffJson(
+			portSet(portMappings.map((pm) => pm.containerPort)),
+			portSet(
+				resolveProjectPorts(devcontainerConfig, projectConfig).map(
+					(p) => p.port,
+				),
+			),
+			"ports",
+		),
+		merged: null,
+	};
+
+	const { worktreePath } = environment;
+	if (
+		!environment.appliedConfig ||
+		!worktreePath ||
+		!existsSync(worktreePath)
+	) {
+		return drift;
+	}
+	const applied = JSON.parse(environment.appliedConfig) as AppliedConfig;
+	const configInputs = {
+		project,
+		worktreePath,
+		devcontainerConfig,
+		projectConfig,
+		portMappings,
+		limits: mergeLimits(
+			loaded.globalLimits,
+			projectConfig?.limits,
+			environment.resourceLimits,
+		),
+		image: applied.image,
+		volumes: applied.volumes,
+	};
+	// Only containers started from a prebuild compare against the image
+	// the current config would prebuild
+	const appliedImage = applied.config.image;
+	const prebuilt =
+		typeof appliedImage === "string" &&
+		appliedImage.startsWith(`${prebuildRepository(project.name)}:`)
+			? loaded.prebuildImage()
+			: null;
+
+	const { config, additionalFeatures } = composeMergedConfig(
+		environmentConfigOptions(db, configInputs, prebuilt),
+	);
+	drift.merged = diffJson(
+		{
+			config: applied.config,
+			additionalFeatures: applied.additionalFeatures,
+		},
+		{ config: redactConfig(config), additionalFeatures },
+	);
+	return drift;
+}
+
+/**
+ * Returns a check of whether each of a project's environments drifted,
+ * reading the project's inputs once. The check gives null when drift
+ * cannot be told, as for a project whose config no longer parses.
+ */
+export async function projectDriftCheck(
+	db: Database,
+	project: Project,
+): Promise<(environment: Environment) => Promise<boolean | null>> {
+	let inputs: ProjectDriftInputs;
+	try {
+		inputs = await loadDriftInputs(db, project);
+	} catch {
+		return async () => null;
+	}
+	return async (environment) => {
+		try {
+			return hasDrift(await detectConfigDrift(db, environment, inputs));
+		} catch {
+			return null;
+		}
+	};
+}
+
+// Whether the environment drifted, or null when that cannot be told
+export async function configDrifted(
+	db: Database,
+	environment: Environment,
+): Promise<boolean | null> {
+	const check = await projectDriftCheck(
+		db,
+		getEnvironmentProject(db, environment),
+	);
+	return check(environment);
+}
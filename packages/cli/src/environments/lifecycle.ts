@@ -0,0 +1,229 @@
+import type { Database } from "bun:sqlite";
+import {
+	CONTAINER_LABEL_PREFIX,
+	type Environment,
+	type PortMapping,
+	type Project,
+} from "@repo/shared";
+import {
+	deleteEnvFiles,
+	deleteEnvironment,
+	deletePortMappings,
+	getAllEnvironments,
+	getAllPortMappings,
+	getPortMappings,
+	getProjectById,
+	updateEnvironmentStatus,
+	updatePortMappingHostname,
+} from "../db/database.js";
+import {
+	DockerError,
+	listContainers,
+	removeContainer,
+	startContainer,
+	stopContainer,
+} from "../docker/client.js";
+import { emit } from "../plugins/events.js";
+import { addRoute, ensureCaddyRunning, removeRoute } from "../tunnel/caddy.js";
+import { DevenvError, noContainer } from "../utils/errors.js";
+import { log } from "../utils/logger.js";
+import {
+	formatRouteId,
+	isValidHostname,
+	repairHostname,
+} from "../utils/naming.js";
+import { removeClonedState } from "./clone.js";
+import { removeDbSnapshots } from "./postgres.js";
+
+export function routeIdFor(
+	environment: Environment,
+	portMapping: PortMapping,
+): string {
+	return formatRouteId(`${environment.name}-${portMapping.containerPort}`);
+}
+
+export function getEnvironmentProject(
+	db: Database,
+	environment: Environment,
+): Project {
+	const project = getProjectById(db, environment.projectId);
+	if (!project) {
+		throw new DevenvError(
+			"PROJECT_NOT_FOUND",
+			`Project not found for environment: ${environment.name}`,
+		);
+	}
+	return project;
+}
+
+/**
+ * Registers a Caddy route for each of the environment's port mappings,
+ * starting Caddy first if needed.
+ */
+export async function addEnvironmentRoutes(
+	db: Database,
+	environment: Environment,
+): Promise<PortMapping[]> {
+	const project = getEnvironmentProject(db, environment);
+	const portMappings = getPortMappings(db, environment.id);
+	await ensureCaddyRunning();
+	for (const portMapping of portMappings) {
+		const routeId = routeIdFor(environment, portMapping);
+		await addRoute(routeId, portMapping.hostname, portMapping.hostPort);
+		await emit("routeAdded", { project, environment, portMapping, routeId });
+	}
+	return portMappings;
+}
+
+export async function removeEnvironmentRoutes(
+	db: Database,
+	environment: Environment,
+): Promise<PortMapping[]> {
+	const portMappings = getPortMappings(db, environment.id);
+	for (const portMapping of portMappings) {
+		await removeRoute(routeIdFor(environment, portMapping));
+	}
+	return portMappings;
+}
+
+export async function startEnvironment(
+	db: Database,
+	environment: Environment,
+): Promise<PortMapping[]> {
+	if (!environment.containerId) {
+		throw noContainer(environment.name);
+	}
+
+	// Routes are registered here, so hostnames from earlier versions are
+	// repaired first
+	await migrateInvalidHostnames(db);
+	await startContainer(environment.containerId);
+	updateEnvironmentStatus(db, environment.id, "running");
+
+	const portMappings = await addEnvironmentRoutes(db, environment);
+	await emit("afterStart", {
+		project: getEnvironmentProject(db, environment),
+		environment: { ...environment, status: "running" },
+		portMappings,
+	});
+	return portMappings;
+}
+
+export async function stopEnvironment(
+	db: Database,
+	environment: Environment,
+): Promise<void> {
+	if (!environment.containerId) {
+		throw noContainer(environment.name);
+	}
+
+	await stopContainer(environment.containerId);
+	updateEnvironmentStatus(db, environment.id, "stopped");
+	await removeEnvironmentRoutes(db, environment);
+}
+
+/**
+ * Stops the container, if it is running, and starts it again, registering
+ * its routes anew.
+ */
+export async function restartEnvironment(
+	db: Database,
+	environment: Environment,
+): Promise<PortMapping[]> {
+	if (!environment.containerId) {
+		throw noContainer(environment.name);
+	}
+
+	try {
+		await stopContainer(environment.containerId);
+	} catch (error) {
+		// 304: the container was not running
+		if (!(error instanceof DockerError && error.statusCode === 304)) {
+			throw error;
+		}
+	}
+	await removeEnvironmentRoutes(db, environment);
+	return startEnvironment(db, environment);
+}
+
+// Removes every container labelled with the environment's name, including
+// one left behind by a devcontainer up that failed partway
+export async function removeEnvironmentContainers(
+	envName: string,
+): Promise<void> {
+	const containers = await listContainers(
+		`${CONTAINER_LABEL_PREFIX}.environment=${envName}`,
+	);
+	for (const container of containers) {
+		await removeContainer(container.Id);
+	}
+}
+
+export async function removeEnvironment(
+	db: Database,
+	environment: Environment,
+): Promise<void> {
+	await emit("beforeRemove", {
+		project: getEnvironmentProject(db, environment),
+		environment,
+		portMappings: getPortMappings(db, environment.id),
+	});
+
+	await removeEnvironmentRoutes(db, environment);
+
+	// Remove Docker container (force=true handles running containers)
+	if (environment.containerId) {
+		await removeContainer(environment.containerId);
+	}
+	// Snapshot and volume copies from `branch --clone-state`
+	await removeClonedState(environment.name).catch((error) =>
+		log.warn(
+			`Could not remove the cloned state of ${environment.name}: ${error instanceof Error ? error.message : error}`,
+		),
+	);
+
+	removeDbSnapshots(environment.name);
+
+	// Clean up DB records (order matters due to foreign keys)
+	deletePortMappings(db, environment.id);
+	deleteEnvFiles(db, environment.id);
+	deleteEnvironment(db, environment.id);
+}
+
+/**
+ * Rewrites hostnames recorded before names were checked, such as
+ * `proj-feature/login.localhost`, and re-registers the routes of running
+ * environments under the new names. Returns how many hostnames changed.
+ * Run when an environment is created or started rather than on every
+ * command, so reads and dry runs change nothing.
+ */
+export async function migrateInvalidHostnames(db: Database): Promise<number> {
+	const portMappings = getAllPortMappings(db);
+	const invalid = portMappings.filter((pm) => !isValidHostname(pm.hostname));
+	if (invalid.length === 0) return 0;
+
+	const taken = new Set(portMappings.map((pm) => pm.hostname));
+	const environmentIds = new Set<number>();
+	for (const portMapping of invalid) {
+		const hostname = repairHostname(portMapping.hostname, taken);
+		updatePortMappingHostname(db, portMapping.id, hostname);
+		taken.add(hostname);
+		environmentIds.add(portMapping.environmentId);
+		log.info(`Renamed host ${portMapping.hostname} to ${hostname}`);
+	}
+
+	// Routes are upserted by id, so re-adding them replaces the old hostnames
+	const running = getAllEnvironments(db).filter(
+		(env) => environmentIds.has(env.id) && env.status === "running",
+	);
+	for (const environment of running) {
+		try {
+			await addEnvironmentRoutes(db, environment);
+		} catch (error) {
+			log.warn(
+				`Could not update the routes of ${environment.name}: ${error instanceof Error ? error.message : error}. Restart it to apply the new hostnames.`,
+			);
+		}
+	}
+	return invalid.length;
+}
@@ -0,0 +1,167 @@
+import type { Database } from "bun:sqlite";
+import type { ResourceLimits } from "@repo/shared";
+import type { FlagSchema } from "../commands/args.js";
+import { getSetting } from "../db/database.js";
+import type { ContainerResources } from "../docker/client.js";
+import { DevenvError } from "../utils/errors.js";
+
+export const LIMIT_KEYS = ["cpus", "memory", "pids"] as const;
+export type LimitKey = (typeof LIMIT_KEYS)[number];
+
+// Docker refuses memory limits below 6 MiB
+const MIN_MEMORY_BYTES = 6 * 1024 * 1024;
+const MEMORY_PATTERN = /^(\d+(?:\.\d+)?)([bkmg]?)$/;
+const MEMORY_UNITS: Record<string, number> = {
+	"": 1,
+	b: 1,
+	k: 1024,
+	m: 1024 ** 2,
+	g: 1024 ** 3,
+};
+
+export function memoryBytes(memory: string): number {
+	const match = MEMORY_PATTERN.exec(memory.toLowerCase());
+	if (!match) return Number.NaN;
+	const [, amount = "", unit = ""] = match;
+	return Math.floor(Number(amount) * (MEMORY_UNITS[unit] ?? 1));
+}
+
+const EXPECTED: Record<LimitKey, string> = {
+	cpus: "a positive number of CPUs, such as 2 or 1.5",
+	memory: "a size of at least 6m, such as 512m or 4g",
+	pids: "a positive whole number",
+};
+
+// Returns the problem with a limit value, or null when it is valid
+function checkLimit(key: LimitKey, value: unknown): string | null {
+	const valid =
+		key === "memory"
+			? typeof value === "string" && memoryBytes(value) >= MIN_MEMORY_BYTES
+			: typeof value === "number" &&
+				value > 0 &&
+				(key === "cpus" || Number.isInteger(value));
+	return valid ? null : `expected ${EXPECTED[key]}`;
+}
+
+/**
+ * Parses a limit typed on the command line or stored as a setting. `source`
+ * names where it came from in the error.
+ */
+export function parseLimit(
+	key: LimitKey,
+	value: string,
+	source: string,
+): number | string {
+	const parsed = key === "memory" ? value.toLowerCase() : Number(value);
+	const problem = checkLimit(key, parsed);
+	if (problem) {
+		throw new DevenvError("USAGE", `${source}: ${problem}, got "${value}"`);
+	}
+	return parsed;
+}
+
+// Validates the `limits` object of a project config, collecting issues
+export function validateLimits(
+	raw: Record<string, unknown>,
+	path: string,
+	issues: string[],
+): ResourceLimits {
+	const limits: Record<string, unknown> = {};
+	for (const key of LIMIT_KEYS) {
+		if (raw[key] === undefined) continue;
+		const problem = checkLimit(key, raw[key]);
+		if (problem) {
+			issues.push(`${path}${key}: ${problem}`);
+		} else {
+			limits[key] = raw[key];
+		}
+	}
+	return limits as ResourceLimits;
+}
+
+export function globalLimits(db: Database): ResourceLimits {
+	const limits: Record<string, number | string> = {};
+	for (const key of LIMIT_KEYS) {
+		const value = getSetting(db, `limits.${key}`);
+		if (value !== null) {
+			limits[key] = parseLimit(key, value, `Setting limits.${key}`);
+		}
+	}
+	return limits as ResourceLimits;
+}
+
+// Later levels win field by field: global, then project, then environment
+export function mergeLimits(
+	...levels: (ResourceLimits | null | undefined)[]
+): ResourceLimits {
+	const merged: ResourceLimits = {};
+	for (const level of levels) {
+		Object.assign(
+			merged,
+			Object.fromEntries(
+				Object.entries(level ?? {}).filter(([, v]) => v !== undefined),
+			),
+		);
+	}
+	return merged;
+}
+
+// docker run flags, for the runArgs of a devcontainer config
+export function limitsRunArgs(limits: ResourceLimits): string[] {
+	const args: string[] = [];
+	if (limits.cpus !== undefined) args.push(`--cpus=${limits.cpus}`);
+	if (limits.memory !== undefined) args.push(`--memory=${limits.memory}`);
+	if (limits.pids !== undefined) args.push(`--pids-limit=${limits.pids}`);
+	return args;
+}
+
+export function limitsResources(limits: ResourceLimits): ContainerResources {
+	const resources: ContainerResources = {};
+	if (limits.cpus !== undefined) {
+		resources.NanoCpus = Math.round(limits.cpus * 1e9);
+	}
+	if (limits.memory !== undefined) {
+		resources.Memory = memoryBytes(limits.memory);
+		// Matches docker run, which allows as much swap as memory
+		resources.MemorySwap = resources.Memory * 2;
+	}
+	if (limits.pids !== undefined) resources.PidsLimit = limits.pids;
+	return resources;
+}
+
+export function formatLimits(limits: ResourceLimits): string {
+	const parts = LIMIT_KEYS.filter((key) => limits[key] !== undefined).map(
+		(key) => `${key} ${limits[key]}`,
+	);
+	return parts.length > 0 ? parts.join(", ") : "none";
+}
+
+// Flags of the commands that set an environment's own limits
+export const limitFlags = {
+	cpus: {
+		type: "string",
+		description: "CPU limit for the environment, such as 2 or 1.5",
+		placeholder: "n",
+	},
+	memory: {
+		type: "string",
+		description: "Memory limit for the environment, such as 4g",
+		placeholder: "size",
+	},
+	pids: {
+		type: "string",
+		description: "Process limit for the environment",
+		placeholder: "n",
+	},
+} satisfies FlagSchema;
+
+export function limitsFromFlags(
+	flags: Partial<Record<LimitKey, string>>,
+): ResourceLimits {
+	const limits: Record<string, number | string> = {};
+	for (const key of LIMIT_KEYS) {
+		const value = flags[key];
+		if (value !== undefined) limits[key] = parseLimit(key, value, `--${key}`);
+	}
+	return limits as ResourceLimits;
+}
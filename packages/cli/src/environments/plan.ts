@@ -0,0 +1,264 @@
+import type { Database } from "bun:sqlite";
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import {
+	DEVENV_DIR,
+	DEVENV_WORKTREES_DIR,
+	type ResourceLimits,
+} from "@repo/shared";
+import {
+	getEnvironmentByName,
+	getNextAvailableHostPort,
+	getProjectByName,
+	getSetting,
+} from "../db/database.js";
+import { composeMergedConfig } from "../devcontainer/config-builder.js";
+import {
+	findDevcontainerConfig,
+	resolveEnvVars,
+} from "../devcontainer/parser.js";
+import { getPrebuildStatus } from "../devcontainer/prebuild.js";
+import {
+	type PortConfig,
+	type ProjectConfig,
+	resolveProjectPorts,
+} from "../project/config.js";
+import { buildRoute } from "../tunnel/caddy.js";
+import { discoverEnvFiles } from "../utils/envfiles.js";
+import {
+	describeWorktreeSource,
+	resolveWorktreeSource,
+	type WorktreeSource,
+} from "../utils/git.js";
+import {
+	formatRouteId,
+	generateHostname,
+	type HostnameOptions,
+	type HostnameTarget,
+} from "../utils/naming.js";
+import { type PortMappingJson, toPortMappingJson } from "../utils/output.js";
+import { globalLimits, mergeLimits } from "./limits.js";
+
+// Environment variables whose values never appear in a plan
+const SECRET_ENV_VARS = ["CLAUDE_CODE_OAUTH_TOKEN"];
+const REDACTED = "<redacted>";
+
+export interface RoutePlan {
+	id: string;
+	hostname: string;
+	upstream: string;
+	config: ReturnType<typeof buildRoute>;
+}
+
+export interface ContainerPlan {
+	kind: "devcontainer";
+	config: Record<string, unknown>;
+	additionalFeatures: Record<string, Record<string, unknown>>;
+	// Set when the project was prebuilt; `rebuild` when its inputs changed
+	// and the image would be rebuilt first
+	prebuild: { image: string; rebuild: boolean } | null;
+}
+
+/**
+ * Everything create or branch would do, computed without side effects.
+ */
+export interface EnvironmentPlan {
+	project: { name: string; repoPath: string; exists: boolean };
+	environment: { name: string; branch: string; exists: boolean };
+	// `source` is null when the worktree already exists and is reused
+	worktree: { path: string; source: WorktreeSource | null };
+	envFiles: string[];
+	ports: PortMappingJson[];
+	routes: RoutePlan[];
+	container: ContainerPlan;
+}
+
+/**
+ * Previews the host ports and hostnames the environment would get. Host
+ * ports are allocated one after another, so the preview continues from the
+ * next free port.
+ */
+export function planPorts(
+	db: Database,
+	options: HostnameTarget & {
+		ports: PortConfig[];
+		hostnames?: HostnameOptions;
+	},
+): { ports: PortMappingJson[]; routes: RoutePlan[] } {
+	const { envName } = options;
+	const firstHostPort = getNextAvailableHostPort(db);
+	const ports = options.ports.map(({ port, name }, i) =>
+		toPortMappingJson({
+			containerPort: port,
+			hostPort: firstHostPort + i,
+			hostname: generateHostname(options, port, name, options.hostnames),
+		}),
+	);
+	const routes = ports.map((pm) => {
+		const id = formatRouteId(`${envName}-${pm.containerPort}`);
+		const config = buildRoute(id, pm.hostname, pm.hostPort);
+		return {
+			id,
+			hostname: pm.hostname,
+			upstream: config.handle[0]?.upstreams[0]?.dial ?? "",
+			config,
+		};
+	});
+	return { ports, routes };
+}
+
+/**
+ * Works out what create or branch would do, reading state but changing
+ * nothing. `envFiles` lists the files branch copies from its source; create
+ * discovers them in the repository.
+ */
+export async function planEnvironment(
+	db: Database,
+	options: {
+		repoPath: string;
+		projectName: string;
+		envName: string;
+		branch: string;
+		base?: string;
+		projectConfig: ProjectConfig | null;
+		limits: ResourceLimits;
+		envFiles?: string[];
+	},
+): Promise<EnvironmentPlan> {
+	const { repoPath, projectName, envName, branch, projectConfig } = options;
+	const worktreePath = join(repoPath, DEVENV_DIR, DEVENV_WORKTREES_DIR, branch);
+	const worktreeExists = existsSync(worktreePath);
+	const source = worktreeExists
+		? null
+		: await resolveWorktreeSource(repoPath, branch, options.base);
+
+	const devcontainerConfig = await findDevcontainerConfig(repoPath);
+	const envFiles =
+		options.envFiles ??
+		(await discoverEnvFiles(repoPath, projectConfig?.envFiles)).map(
+			(f) => f.relativePath,
+		);
+
+	const { ports, routes } = planPorts(db, {
+		projectName,
+		envName,
+		branch,
+		ports: resolveProjectPorts(devcontainerConfig, projectConfig),
+		hostnames: projectConfig?.hostnames,
+	});
+	// Read-only: a stale image is reported, not rebuilt
+	const prebuildStatus = devcontainerConfig?.dockerComposeFile
+		? null
+		: await getPrebuildStatus({
+				projectName,
+				repoPath,
+				devcontainerConfig,
+				projectConfig,
+			});
+	const prebuild =
+		prebuildStatus &&
+		(prebuildStatus.current || prebuildStatus.stale.length > 0)
+			? { image: prebuildStatus.image, rebuild: !prebuildStatus.current }
+			: null;
+	const { config, additionalFeatures } = composeMergedConfig({
+		devcontainerConfig,
+		// Until the worktree exists, detect features from the repository
+		worktreePath: worktreeExists ? worktreePath : repoPath,
+		repoPath,
+		projectName,
+		containerEnv: resolveEnvVars(devcontainerConfig),
+		portBindings: Object.fromEntries(
+			ports.map((pm) => [String(pm.containerPort), String(pm.hostPort)]),
+		),
+		claudeOAuthToken: getSetting(db, "claude-token") ?? undefined,
+		projectConfig,
+		prebuiltImage: prebuild?.image,
+		limits: mergeLimits(
+			globalLimits(db),
+			projectConfig?.limits,
+			getEnvironmentByName(db, envName)?.resourceLimits,
+			options.limits,
+		),
+	});
+
+	return {
+		project: {
+			name: projectName,
+			repoPath,
+			exists: getProjectByName(db, projectName) !== null,
+		},
+		environment: {
+			name: envName,
+			branch,
+			exists: getEnvironmentByName(db, envName) !== null,
+		},
+		worktree: { path: worktreePath, source },
+		envFiles,
+		ports,
+		routes,
+		container: {
+			kind: "devcontainer",
+			config: redactConfig(config),
+			additionalFeatures,
+			prebuild,
+		},
+	};
+}
+
+export function redactConfig(
+	config: Record<string, unknown>,
+): Record<string, unknown> {
+	const remoteEnv = config.remoteEnv as Record<string, string> | undefined;
+	if (!remoteEnv) return config;
+	const redacted = { ...remoteEnv };
+	for (const key of SECRET_ENV_VARS) {
+		if (key in redacted) redacted[key] = REDACTED;
+	}
+	return { ...config, remoteEnv: redacted };
+}
+
+function indent(text: string, prefix: string): string[] {
+	return text.split("\n").map((line) => prefix + line);
+}
+
+export function formatPlan(plan: EnvironmentPlan): string[] {
+	const lines = [
+		`Plan for ${plan.environment.name} (dry run, nothing was changed)`,
+		`  Project:   ${plan.project.name} (${plan.project.repoPath})${plan.project.exists ? "" : " [new]"}`,
+		`  Branch:    ${plan.environment.branch}${plan.environment.exists ? " [resumes existing environment]" : ""}`,
+		`  Worktree:  ${plan.worktree.path}`,
+		`             ${plan.worktree.source ? describeWorktreeSource(plan.worktree.source) : "already exists, reused"}`,
+		`  Env files: ${plan.envFiles.length > 0 ? plan.envFiles.join(", ") : "none"}`,
+	];
+
+	lines.push("  Ports:");
+	if (plan.ports.length === 0) lines.push("    none");
+	for (const pm of plan.ports) {
+		lines.push(
+			`    ${pm.url} → :${pm.containerPort} (host port ${pm.hostPort})`,
+		);
+	}
+
+	lines.push("  Caddy routes:");
+	if (plan.routes.length === 0) lines.push("    none");
+	for (const route of plan.routes) {
+		lines.push(`    ${route.id}: ${route.hostname} → ${route.upstream}`);
+	}
+
+	const { container } = plan;
+	if (container.prebuild) {
+		lines.push(
+			`  Prebuilt image: ${container.prebuild.image}${container.prebuild.rebuild ? " (rebuilt first, its inputs changed)" : ""}`,
+		);
+	}
+	lines.push("  Additional features:");
+	const features = Object.entries(container.additionalFeatures);
+	if (features.length === 0) lines.push("    none");
+	for (const [id, options] of features) {
+		lines.push(`    ${id} ${JSON.stringify(options)}`);
+	}
+	lines.push("  devcontainer.json:");
+	lines.push(...indent(JSON.stringify(container.config, null, 2), "    "));
+
+	return lines;
+}
@@ -0,0 +1,208 @@
+import {
+	existsSync,
+	mkdirSync,
+	readdirSync,
+	renameSync,
+	rmSync,
+	statSync,
+} from "node:fs";
+import { homedir, tmpdir } from "node:os";
+import { join } from "node:path";
+import { DEVENV_DIR, type Environment } from "@repo/shared";
+import {
+	type DevcontainerConfig,
+	detectPostgresFeature,
+} from "../devcontainer/parser.js";
+import { getArchive, putArchive, runInContainer } from "../docker/client.js";
+import { DevenvError, environmentNotRunning } from "../utils/errors.js";
+
+const DB_SNAPSHOTS_DIR = "db-snapshots";
+// Snapshots are tar archives holding the dump, as Docker copies files out
+const SNAPSHOT_EXTENSION = ".tar";
+const SNAPSHOT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+// Where the dump is written inside the container while it is copied
+const DUMP_DIR = "/tmp";
+const DUMP_FILE = "devenv-db.sql";
+const DUMP_PATH = `${DUMP_DIR}/${DUMP_FILE}`;
+// Matches the connection string create prints for the postgres feature
+const CONNECTION = "-h localhost -U postgres";
+
+export function getDbSnapshotsDir(): string {
+	return join(homedir(), DEVENV_DIR, DB_SNAPSHOTS_DIR);
+}
+
+function snapshotPath(envName: string, name: string): string {
+	return join(getDbSnapshotsDir(), envName, `${name}${SNAPSHOT_EXTENSION}`);
+}
+
+export function checkSnapshotName(name: string): void {
+	if (!SNAPSHOT_NAME_PATTERN.test(name)) {
+		throw new DevenvError(
+			"USAGE",
+			`Invalid snapshot name "${name}": use letters, digits, dots, dashes and underscores`,
+		);
+	}
+}
+
+/**
+ * Returns the container of an environment whose devcontainer runs Postgres
+ * through the postgres feature. The container must be running.
+ */
+export function postgresContainer(environment: Environment): string {
+	const config = environment.devcontainerConfig
+		? (JSON.parse(environment.devcontainerConfig) as DevcontainerConfig)
+		: null;
+	if (!detectPostgresFeature(config)) {
+		throw new DevenvError(
+			"NO_DATABASE",
+			`Environment ${environment.name} does not use the postgres devcontainer feature`,
+		);
+	}
+	if (environment.status !== "running" || !environment.containerId) {
+		throw environmentNotRunning(environment.name, environment.status);
+	}
+	return environment.containerId;
+}
+
+// Dumps every database, with statements dropping each object first
+export function dumpScript(): string {
+	return `pg_dumpall ${CONNECTION} --clean --if-exists -f ${DUMP_PATH}`;
+}
+
+// Waits for a server that may still be starting, as in a new environment,
+// and closes other sessions, as open connections block DROP DATABASE.
+// Without ON_ERROR_STOP, psql carries on past statements that cannot apply,
+// such as dropping the role it is connected as.
+export function restoreScript(): string {
+	return [
+		`for i in $(seq 30); do pg_isready ${CONNECTION} -q && break; sleep 1; done`,
+		`psql ${CONNECTION} -d postgres -q -c "SELECT pg_terminate_backend(pid) FROM pg_stat_activity WHERE pid <> pg_backend_pid() AND datname IS NOT NULL"`,
+		`psql ${CONNECTION} -d postgres -q -f ${DUMP_PATH}`,
+	].join(" && ");
+}
+
+async function runScript(
+	containerId: string,
+	script: string,
+	action: string,
+): Promise<void> {
+	const { exitCode, output } = await runInContainer(containerId, [
+		"sh",
+		"-c",
+		script,
+	]);
+	if (exitCode !== 0) {
+		throw new Error(
+			`${action} failed (exit code ${exitCode}):\n${output.trim()}`,
+		);
+	}
+}
+
+async function removeDump(containerId: string): Promise<void> {
+	await runInContainer(containerId, ["rm", "-f", DUMP_PATH]).catch(() => {});
+}
+
+// Dumps the container's databases into a tar archive at `file`
+async function dumpTo(containerId: string, file: string): Promise<void> {
+	try {
+		await runScript(containerId, dumpScript(), "Dumping the database");
+		const archive = await getArchive(containerId, DUMP_PATH);
+		await Bun.write(file, new Response(archive));
+	} finally {
+		await removeDump(containerId);
+	}
+}
+
+// Replaces the container's databases with the dump archived at `file`
+async function restoreFrom(containerId: string, file: string): Promise<void> {
+	await putArchive(containerId, DUMP_DIR, Bun.file(file));
+	try {
+		await runScript(containerId, restoreScript(), "Restoring the database");
+	} finally {
+		await removeDump(containerId);
+	}
+}
+
+/**
+ * Copies every database of `source` into `target`, replacing the target's
+ * databases with the same names.
+ */
+export async function cloneDatabase(
+	source: Environment,
+	target: Environment,
+): Promise<void> {
+	const sourceContainer = postgresContainer(source);
+	const targetContainer = postgresContainer(target);
+	const file = join(tmpdir(), `devenv-db-${source.name}-${Date.now()}.tar`);
+	try {
+		await dumpTo(sourceContainer, file);
+		await restoreFrom(targetContainer, file);
+	} finally {
+		rmSync(file, { force: true });
+	}
+}
+
+export interface DbSnapshot {
+	name: string;
+	path: string;
+	size: number;
+	createdAt: string;
+}
+
+export async function snapshotDatabase(
+	environment: Environment,
+	name: string,
+): Promise<DbSnapshot> {
+	checkSnapshotName(name);
+	const containerId = postgresContainer(environment);
+	const path = snapshotPath(environment.name, name);
+	mkdirSync(join(getDbSnapshotsDir(), environment.name), { recursive: true });
+	// A snapshot with the same name is only replaced by a complete dump
+	const partial = `${path}.partial`;
+	try {
+		await dumpTo(containerId, partial);
+		renameSync(partial, path);
+	} finally {
+		rmSync(partial, { force: true });
+	}
+	return toSnapshot(name, path);
+}
+
+export async function restoreDatabase(
+	environment: Environment,
+	name: string,
+): Promise<DbSnapshot> {
+	checkSnapshotName(name);
+	const path = snapshotPath(environment.name, name);
+	if (!existsSync(path)) {
+		const available = listDbSnapshots(environment.name).map((s) => s.name);
+		throw new DevenvError(
+			"SNAPSHOT_NOT_FOUND",
+			`No snapshot named "${name}" for ${environment.name}${available.length > 0 ? `. Available: ${available.join(", ")}` : ""}`,
+		);
+	}
+	await restoreFrom(postgresContainer(environment), path);
+	return toSnapshot(name, path);
+}
+
+function toSnapshot(name: string, path: string): DbSnapshot {
+	const stats = statSync(path);
+	return { name, path, size: stats.size, createdAt: stats.mtime.toISOString() };
+}
+
+// The environment's snapshots, oldest first
+export function listDbSnapshots(envName: string): DbSnapshot[] {
+	const dir = join(getDbSnapshotsDir(), envName);
+	if (!existsSync(dir)) return [];
+	return readdirSync(dir)
+		.filter((file) => file.endsWith(SNAPSHOT_EXTENSION))
+		.map((file) =>
+			toSnapshot(file.slice(0, -SNAPSHOT_EXTENSION.length), join(dir, file)),
+		)
+		.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function removeDbSnapshots(envName: string): void {
+	rmSync(join(getDbSnapshotsDir(), envName), { recursive: true, force: true });
+}
@@ -0,0 +1,211 @@
+import type { Database } from "bun:sqlite";
+import { existsSync } from "node:fs";
+import type { Environment, PortMapping } from "@repo/shared";
+import {
+	getPortMappings,
+	restorePortMappings,
+	syncPortMappings,
+	updateEnvironmentAppliedConfig,
+	updateEnvironmentContainer,
+	updateEnvironmentDevcontainerConfig,
+	updateEnvironmentStatus,
+} from "../db/database.js";
+import { findDevcontainerConfig } from "../devcontainer/parser.js";
+import { devcontainerUp } from "../devcontainer/runner.js";
+import { loadProjectConfig, resolveProjectPorts } from "../project/config.js";
+import { removeRoute } from "../tunnel/caddy.js";
+import { DevenvError } from "../utils/errors.js";
+import { getLogLevel } from "../utils/logger.js";
+import { generateHostname } from "../utils/naming.js";
+import { elapsed } from "../utils/output.js";
+import { findClonedVolumes } from "./clone.js";
+import {
+	type AppliedConfig,
+	buildEnvironmentConfig,
+	type CreateProgress,
+	consoleProgress,
+} from "./create.js";
+import {
+	addEnvironmentRoutes,
+	getEnvironmentProject,
+	routeIdFor,
+} from "./lifecycle.js";
+import { formatLimits, globalLimits, mergeLimits } from "./limits.js";
+import { createRollback, type Rollback } from "./rollback.js";
+
+/**
+ * Maps ports added to the config since the environment was created and
+ * drops those removed from it. The old mappings are put back if the
+ * rebuild fails before the new container is up.
+ */
+function syncEnvironmentPorts(
+	db: Database,
+	environment: Environment,
+	ports: Array<{ containerPort: number; hostname: string }>,
+	rollback: Rollback,
+	progress: CreateProgress,
+): { portMappings: PortMapping[]; removed: PortMapping[] } {
+	const previous = getPortMappings(db, environment.id);
+	const removed = syncPortMappings(db, environment.id, ports);
+	rollback.add("port mapping changes", () =>
+		restorePortMappings(db, environment.id, previous),
+	);
+	for (const portMapping of removed) {
+		progress.info(`  Port ${portMapping.containerPort} removed`);
+	}
+	const before = new Set(previous.map((pm) => pm.containerPort));
+	const portMappings = getPortMappings(db, environment.id);
+	for (const pm of portMappings) {
+		if (!before.has(pm.containerPort)) {
+			progress.info(`  Port ${pm.containerPort} added: http://${pm.hostname}`);
+		}
+	}
+	return { portMappings, removed };
+}
+
+// Drops the routes of ports the rebuilt container no longer maps
+async function removePortRoutes(
+	environment: Environment,
+	removed: PortMapping[],
+	progress: CreateProgress,
+): Promise<void> {
+	for (const portMapping of removed) {
+		try {
+			await removeRoute(routeIdFor(environment, portMapping));
+		} catch (error) {
+			progress.warn(
+				`Could not remove the route for port ${portMapping.containerPort}: ${error instanceof Error ? error.message : error}`,
+			);
+		}
+	}
+}
+
+/**
+ * Recreates an environment's container from the project's current
+ * devcontainer.json and project config. The worktree, env files and the
+ * mappings and hostnames of ports still in the config stay as they are, and
+ * volume copies made by `branch --clone-state` stay mounted; the image is
+ * built afresh rather than taken from the snapshot.
+ */
+export async function rebuildEnvironment(
+	db: Database,
+	environment: Environment,
+	progress: CreateProgress = consoleProgress,
+): Promise<PortMapping[]> {
+	const { worktreePath } = environment;
+	if (!worktreePath || !existsSync(worktreePath)) {
+		throw new DevenvError(
+			"USAGE",
+			`The worktree of ${environment.name} is missing. Remove the environment and create it again.`,
+		);
+	}
+	const project = getEnvironmentProject(db, environment);
+	const projectConfig =
+		(await loadProjectConfig(project.repoPath))?.config ?? null;
+	const devcontainerConfig = await findDevcontainerConfig(project.repoPath);
+	const limits = mergeLimits(
+		globalLimits(db),
+		projectConfig?.limits,
+		environment.resourceLimits,
+	);
+	const rollback = createRollback();
+	const { portMappings, removed } = syncEnvironmentPorts(
+		db,
+		environment,
+		resolveProjectPorts(devcontainerConfig, projectConfig).map(
+			({ port, name }) => ({
+				containerPort: port,
+				hostname: generateHostname(
+					{
+						projectName: project.name,
+						envName: environment.name,
+						branch: environment.branch,
+					},
+					port,
+					name,
+					projectConfig?.hostnames,
+				),
+			}),
+		),
+		rollback,
+		progress,
+	);
+
+	let containerId: string;
+	let applied: AppliedConfig;
+	try {
+		const built = await buildEnvironmentConfig(
+			db,
+			{
+				project,
+				worktreePath,
+				devcontainerConfig,
+				projectConfig,
+				portMappings,
+				limits,
+				volumes: await findClonedVolumes(environment.name),
+			},
+			progress,
+		);
+		applied = built.applied;
+		if (Object.keys(limits).length > 0) {
+			progress.info(`  Resource limits: ${formatLimits(limits)}`);
+		}
+
+		progress.info(
+			getLogLevel() === "debug"
+				? "  Recreating devcontainer..."
+				: "  Recreating devcontainer (run with --verbose to follow its output)...",
+		);
+		const dcStart = performance.now();
+		try {
+			({ containerId } = await devcontainerUp({
+				worktreePath,
+				configPath: built.configPath,
+				projectName: project.name,
+				envName: environment.name,
+				additionalFeatures: built.additionalFeatures,
+				removeExistingContainer: true,
+			}));
+		} catch (error) {
+			// The old container may already be gone
+			failRebuild(db, environment, error);
+			throw error;
+		}
+		progress.info(`  Devcontainer started (${elapsed(dcStart)})`);
+	} catch (error) {
+		// No container runs with the synced ports, so the old ones stay mapped
+		await rollback.run();
+		throw error;
+	}
+
+	try {
+		updateEnvironmentContainer(db, environment.id, containerId);
+		updateEnvironmentDevcontainerConfig(
+			db,
+			environment.id,
+			devcontainerConfig ? JSON.stringify(devcontainerConfig) : null,
+		);
+		updateEnvironmentAppliedConfig(db, environment.id, JSON.stringify(applied));
+		updateEnvironmentStatus(db, environment.id, "running");
+		await removePortRoutes(environment, removed, progress);
+		await addEnvironmentRoutes(db, environment);
+	} catch (error) {
+		failRebuild(db, environment, error);
+		throw error;
+	}
+	return portMappings;
+}
+
+function failRebuild(
+	db: Database,
+	environment: Environment,
+	error: unknown,
+): void {
+	updateEnvironmentStatus(
+		db,
+		environment.id,
+		"error",
+		error instanceof Error ? error.message : String(error),
+	);
+}
@@ -0,0 +1,78 @@
+import type { Database } from "bun:sqlite";
+import type { Environment } from "@repo/shared";
+import { updateEnvironmentStatus } from "../db/database.js";
+import { log } from "../utils/logger.js";
+
+interface RollbackStep {
+	description: string;
+	undo: () => unknown;
+}
+
+/**
+ * Records the steps of a multi-step operation so they can be undone, newest
+ * first, if a later step fails.
+ */
+export interface Rollback {
+	add(description: string, undo: () => unknown): void;
+	// Undoes every recorded step, carrying on past steps that fail to undo.
+	// Returns the descriptions of those that failed.
+	run(): Promise<string[]>;
+}
+
+export function createRollback(): Rollback {
+	const steps: RollbackStep[] = [];
+	return {
+		add(description, undo) {
+			steps.push({ description, undo });
+		},
+		async run() {
+			const failed: string[] = [];
+			while (steps.length > 0) {
+				const step = steps.pop() as RollbackStep;
+				try {
+					await step.undo();
+					log.debug(`  Undid: ${step.description}`);
+				} catch (error) {
+					log.warn(
+						`Could not undo ${step.description}: ${error instanceof Error ? error.message : error}`,
+					);
+					failed.push(step.description);
+				}
+			}
+			return failed;
+		},
+	};
+}
+
+/**
+ * Cleans up after create or branch fails partway: undoes the completed
+ * steps unless `keep` is set, then marks the environment as failed with the
+ * reason so list and the dashboard can show it.
+ */
+export async function failEnvironmentSetup(
+	db: Database,
+	environment: Environment | null,
+	error: unknown,
+	rollback: Rollback,
+	keep: boolean,
+): Promise<void> {
+	const message = error instanceof Error ? error.message : String(error);
+
+	if (keep) {
+		log.warn(
+			"Setup failed; leaving the partly created environment in place (--keep-on-failure)",
+		);
+	} else {
+		log.info("  Setup failed, rolling back...");
+		const failed = await rollback.run();
+		if (failed.length > 0) {
+			log.warn(
+				`Rollback left ${failed.length} step(s) behind; see the log for details`,
+			);
+		}
+	}
+
+	if (environment) {
+		updateEnvironmentStatus(db, environment.id, "error", message);
+	}
+}
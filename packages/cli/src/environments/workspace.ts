@@ -0,0 +1,48 @@
+import { basename } from "node:path";
+import type { Environment } from "@repo/shared";
+
+export type Editor = "code" | "cursor";
+
+// devcontainer CLI mounts the workspace to /workspaces/<folder-name>
+export function containerWorkDir(environment: Environment): string {
+	return environment.worktreePath
+		? `/workspaces/${basename(environment.worktreePath)}`
+		: "/workspaces";
+}
+
+/**
+ * Command line for an interactive login shell in the environment's
+ * workspace.
+ *
+ * Uses devcontainer exec instead of docker exec to automatically apply
+ * remoteEnv (including CLAUDE_CONFIG_DIR and CLAUDE_CODE_OAUTH_TOKEN from
+ * config-builder.ts), so nothing has to be kept in sync with the config
+ * builder here.
+ */
+export function shellCommand(
+	environment: Environment & { containerId: string },
+): string[] {
+	// devcontainer exec doesn't yet support -w/--workdir flag (https://github.com/devcontainers/cli/issues/703)
+	// so we use a wrapper command to cd to the workspace and then exec bash.
+	return [
+		"devcontainer",
+		"exec",
+		"--container-id",
+		environment.containerId,
+		"sh",
+		"-c",
+		`cd ${containerWorkDir(environment)} && exec /bin/bash -l`,
+	];
+}
+
+function hexEncode(str: string): string {
+	return Buffer.from(str, "utf-8").toString("hex");
+}
+
+// Folder URI that attaches VS Code or Cursor to the running container
+export function editorFolderUri(
+	environment: Environment & { containerId: string },
+): string {
+	const encodedId = hexEncode(environment.containerId);
+	return `vscode-remote://attached-container+${encodedId}${containerWorkDir(environment)}`;
+}
@@ -1,11 +1,30 @@
 #!/usr/bin/env bun
 
-import { getAllCommands, getCommand } from "./commands/index.js";
+import { toKebabCase } from "./commands/args.js";
+import {
+	extractGlobalFlags,
+	getAllCommands,
+	getCommand,
+	globalFlags,
+	runCommand,
+} from "./commands/index.js";
+import { loadPlugins } from "./plugins/loader.js";
+import { DevenvError, toErrorPayload } from "./utils/errors.js";
+import {
+	getLogFilePath,
+	log,
+	openLogFile,
+	setLogLevel,
+} from "./utils/logger.js";
+import { isJsonOutput, printJson, setOutputMode } from "./utils/output.js";
 
 // Commands will be imported here as they are built:
 import "./commands/create.js";
 import "./commands/start.js";
 import "./commands/stop.js";
+import "./commands/restart.js";
+import "./commands/rebuild.js";
+import "./commands/diff-config.js";
 import "./commands/remove.js";
 import "./commands/list.js";
 import "./commands/shell.js";
@@ -13,47 +32,119 @@ import "./commands/open.js";
 import "./commands/branch.js";
 import "./commands/env.js";
 import "./commands/dashboard.js";
+import "./commands/ui.js";
 import "./commands/config.js";
+import "./commands/cache.js";
+import "./commands/prebuild.js";
+import "./commands/update.js";
+import "./commands/db.js";
+import "./commands/completion.js";
 
-function printHelp(): void {
-	console.log("devenv — Docker-based development environments\n");
-	console.log("Usage: devenv <command> [options]\n");
-	console.log("Commands:");
-
-	const commands = getAllCommands();
+// Prose help goes through the logger, so in JSON mode it reaches stderr and
+// stdout carries only the JSON document returned here
+function printHelp(): {
+	commands: Array<{ name: string; description: string }>;
+} {
+	const commands = getAllCommands().filter((cmd) => !cmd.hidden);
+	const lines = [
+		"devenv — Docker-based development environments\n",
+		"Usage: devenv <command> [options]\n",
+		"Commands:",
+	];
 	if (commands.length === 0) {
-		console.log("  (no commands registered yet)");
+		lines.push("  (no commands registered yet)");
 	} else {
 		for (const cmd of commands) {
-			console.log(`  ${cmd.name.padEnd(12)} ${cmd.description}`);
+			lines.push(`  ${cmd.name.padEnd(12)} ${cmd.description}`);
 		}
 	}
 
-	console.log("\nOptions:");
-	console.log("  --help     Show this help message");
+	lines.push("\nOptions:");
+	for (const [key, spec] of Object.entries(globalFlags)) {
+		lines.push(`  ${`--${toKebabCase(key)}`.padEnd(10)} ${spec.description}`);
+	}
+	lines.push(`  ${"--help".padEnd(10)} Show this help message`);
+	lines.push('\nRun "devenv <command> --help" for command usage.');
+	log.info(lines.join("\n"));
+
+	return {
+		commands: commands.map(({ name, description }) => ({ name, description })),
+	};
 }
 
+let commandName: string | null = null;
+
 async function main(): Promise<void> {
-	const args = process.argv.slice(2);
+	const { flags, rest: args } = extractGlobalFlags(process.argv.slice(2));
+	if (flags.json) {
+		setOutputMode("json");
+	}
+	if (flags.verbose) {
+		setLogLevel("debug");
+	} else if (flags.quiet) {
+		setLogLevel("warn");
+	}
+
+	// Every command run gets a log file, except help and shell completion
+	const first = args[0];
+	const hidden = first !== undefined && getCommand(first)?.hidden === true;
+	if (first && !first.startsWith("-") && !hidden) {
+		openLogFile(first, process.argv.slice(2));
+	}
 
-	if (args.length === 0 || args.includes("--help") || args.includes("-h")) {
-		printHelp();
+	// Plugins register their commands alongside the built-in ones. Hidden
+	// commands, such as the completion run on every TAB press, skip them so
+	// no plugin code runs without an explicit command
+	if (!hidden) {
+		await loadPlugins();
+	}
+
+	if (args.length === 0 || args[0] === "--help" || args[0] === "-h") {
+		const help = printHelp();
+		if (isJsonOutput()) {
+			printJson({ ok: true, command: "help", data: help });
+		}
 		process.exit(0);
 	}
 
-	const commandName = args[0] as string;
+	commandName = args[0] as string;
 	const command = getCommand(commandName);
 
 	if (!command) {
-		console.error(`Unknown command: ${commandName}`);
-		console.error('Run "devenv --help" for usage information.');
-		process.exit(1);
+		throw new DevenvError(
+			"UNKNOWN_COMMAND",
+			`Unknown command: ${commandName}. Run "devenv --help" for usage information.`,
+		);
 	}
 
-	await command.run(args.slice(1));
+	const data = await runCommand(command, args.slice(1));
+	if (isJsonOutput()) {
+		printJson({ ok: true, command: command.name, data: data ?? null });
+	}
 }
 
 main().catch((error: unknown) => {
-	console.error("Error:", error instanceof Error ? error.message : error);
+	const message = error instanceof Error ? error.message : String(error);
+	const logFile = getLogFilePath();
+	// DevenvErrors are expected failures whose message says it all; anything
+	// else gets its stack trace logged and a pointer to the log file
+	const unexpected = !(error instanceof DevenvError);
+	if (unexpected && error instanceof Error && error.stack) {
+		log.debug(error.stack);
+	}
+	if (isJsonOutput()) {
+		log.debug(`Error: ${message}`);
+		printJson({
+			ok: false,
+			command: commandName,
+			error: toErrorPayload(error),
+			logFile,
+		});
+	} else {
+		log.error(`Error: ${message}`);
+		if (unexpected && logFile) {
+			log.error(`See the log for details: ${logFile}`);
+		}
+	}
 	process.exit(1);
 });
@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+import type { Environment, Project } from "@repo/shared";
+import { type EnvironmentContext, emit, on } from "../events.js";
+
+const project: Project = {
+	id: 1,
+	name: "app",
+	repoPath: "/repo/app",
+	status: "active",
+	createdAt: "",
+	updatedAt: "",
+};
+
+const environment: Environment = {
+	id: 1,
+	projectId: 1,
+	name: "app-main",
+	branch: "main",
+	status: "running",
+	containerId: "abc",
+	worktreePath: "/repo/app/.devenv/worktrees/main",
+	devcontainerConfig: null,
+	appliedConfig: null,
+	errorMessage: null,
+	resourceLimits: {},
+	createdAt: "",
+	updatedAt: "",
+};
+
+const context: EnvironmentContext = { project, environment, portMappings: [] };
+
+describe("lifecycle events", () => {
+	test("runs handlers in subscription order with the context", async () => {
+		const calls: string[] = [];
+		const offFirst = on("afterStart", async (ctx) => {
+			calls.push(`first:${ctx.environment.name}`);
+		});
+		const offSecond = on("afterStart", (ctx) => {
+			calls.push(`second:${ctx.project.name}`);
+		});
+
+		await emit("afterStart", context);
+		offFirst();
+		offSecond();
+
+		expect(calls).toEqual(["first:app-main", "second:app"]);
+	});
+
+	test("stops calling a handler once unsubscribed", async () => {
+		let count = 0;
+		const off = on("afterCreate", () => {
+			count++;
+		});
+		await emit("afterCreate", context);
+		off();
+		await emit("afterCreate", context);
+
+		expect(count).toBe(1);
+	});
+
+	test("only calls handlers for the emitted event", async () => {
+		let called = false;
+		const off = on("beforeRemove", () => {
+			called = true;
+		});
+		await emit("afterStart", context);
+		off();
+
+		expect(called).toBe(false);
+	});
+
+	test("propagates handler errors to the emitter", async () => {
+		const off = on("beforeRemove", () => {
+			throw new Error("environment is protected");
+		});
+		await expect(emit("beforeRemove", context)).rejects.toThrow(
+			"environment is protected",
+		);
+		off();
+	});
+});
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getCommand } from "../../commands/index.js";
+import { discoverPluginPaths, loadPlugin, loadPlugins } from "../loader.js";
+
+let tempDir: string;
+
+beforeEach(async () => {
+	tempDir = await mkdtemp(join(tmpdir(), "devenv-plugins-test-"));
+});
+
+afterEach(async () => {
+	await rm(tempDir, { recursive: true, force: true });
+});
+
+describe("discoverPluginPaths", () => {
+	test("returns an empty list when the directory is missing", () => {
+		expect(discoverPluginPaths(join(tempDir, "missing"))).toEqual([]);
+	});
+
+	test("lists script files and directories, skipping the rest", async () => {
+		await writeFile(join(tempDir, "b.ts"), "");
+		await writeFile(join(tempDir, "a.js"), "");
+		await writeFile(join(tempDir, "README.md"), "");
+		await writeFile(join(tempDir, ".hidden.ts"), "");
+		await mkdir(join(tempDir, "packaged"));
+
+		expect(discoverPluginPaths(tempDir)).toEqual([
+			join(tempDir, "a.js"),
+			join(tempDir, "b.ts"),
+			join(tempDir, "packaged"),
+		]);
+	});
+});
+
+describe("loadPlugin", () => {
+	test("runs setup so the plugin can register commands", async () => {
+		const path = join(tempDir, "greet.ts");
+		await writeFile(
+			path,
+			`export default {
+				name: "greet",
+				setup(api) {
+					api.registerCommand({
+						name: "plugin-test-greet",
+						description: "Greet",
+						async run() {
+							return "hi";
+						},
+					});
+				},
+			};`,
+		);
+
+		const plugin = await loadPlugin(path);
+		expect(plugin.name).toBe("greet");
+		expect(getCommand("plugin-test-greet")?.description).toBe("Greet");
+	});
+
+	test("rejects modules without a setup function", async () => {
+		const path = join(tempDir, "broken.ts");
+		await writeFile(path, "export default { name: 'broken' };");
+
+		await expect(loadPlugin(path)).rejects.toThrow("setup function");
+	});
+});
+
+describe("loadPlugins", () => {
+	// A repository whose project config lists a plugin registering `command`
+	async function repoWithPlugin(command: string): Promise<void> {
+		const proc = Bun.spawn(["git", "init", "-q", tempDir]);
+		await proc.exited;
+		await writeFile(
+			join(tempDir, "devenv.json"),
+			JSON.stringify({ plugins: ["./plugin.ts"] }),
+		);
+		await writeFile(
+			join(tempDir, "plugin.ts"),
+			`export default {
+				name: "${command}",
+				setup(api) {
+					api.registerCommand({
+						name: "${command}",
+						description: "Project plugin",
+						async run() {},
+					});
+				},
+			};`,
+		);
+	}
+
+	test("skips the project's plugins unless trusted", async () => {
+		await repoWithPlugin("plugin-test-untrusted");
+		await loadPlugins(tempDir, false);
+		expect(getCommand("plugin-test-untrusted")).toBeUndefined();
+	});
+
+	test("loads the project's plugins once trusted", async () => {
+		await repoWithPlugin("plugin-test-trusted");
+		await loadPlugins(tempDir, true);
+		expect(getCommand("plugin-test-trusted")?.description).toBe(
+			"Project plugin",
+		);
+	});
+});
@@ -0,0 +1,67 @@
+import type { Environment, PortMapping, Project } from "@repo/shared";
+
+export interface CreateContext {
+	project: Project;
+	envName: string;
+	branch: string;
+	worktreePath: string;
+}
+
+export interface EnvironmentContext {
+	project: Project;
+	environment: Environment;
+	portMappings: PortMapping[];
+}
+
+export interface RouteContext {
+	project: Project;
+	environment: Environment;
+	portMapping: PortMapping;
+	routeId: string;
+}
+
+export interface LifecycleEvents {
+	// Before the worktree and container are set up; throwing cancels the create
+	beforeCreate: CreateContext;
+	afterCreate: EnvironmentContext;
+	afterStart: EnvironmentContext;
+	// Before the routes, container and records are removed; throwing cancels
+	beforeRemove: EnvironmentContext;
+	routeAdded: RouteContext;
+}
+
+export type LifecycleEvent = keyof LifecycleEvents;
+
+export type LifecycleHandler<E extends LifecycleEvent> = (
+	context: LifecycleEvents[E],
+) => void | Promise<void>;
+
+const handlers = new Map<LifecycleEvent, LifecycleHandler<LifecycleEvent>[]>();
+
+/**
+ * Subscribes to a lifecycle event. Returns a function that removes the
+ * handler again.
+ */
+export function on<E extends LifecycleEvent>(
+	event: E,
+	handler: LifecycleHandler<E>,
+): () => void {
+	const list = handlers.get(event) ?? [];
+	list.push(handler as LifecycleHandler<LifecycleEvent>);
+	handlers.set(event, list);
+	return () => {
+		const index = list.indexOf(handler as LifecycleHandler<LifecycleEvent>);
+		if (index !== -1) list.splice(index, 1);
+	};
+}
+
+// Runs handlers one at a time in subscription order; an error from a handler
+// propagates to the command that emitted the event
+export async function emit<E extends LifecycleEvent>(
+	event: E,
+	context: LifecycleEvents[E],
+): Promise<void> {
+	for (const handler of [...(handlers.get(event) ?? [])]) {
+		await handler(context);
+	}
+}
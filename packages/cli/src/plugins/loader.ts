@@ -0,0 +1,140 @@
+import { existsSync, readdirSync } from "node:fs";
+import { homedir } from "node:os";
+import { isAbsolute, join, resolve } from "node:path";
+import { DEVENV_DIR } from "@repo/shared";
+import { defineCommand, registerCommand } from "../commands/index.js";
+import { createDatabase, getSetting } from "../db/database.js";
+import { loadProjectConfig } from "../project/config.js";
+import { getRepoRoot } from "../utils/git.js";
+import { log } from "../utils/logger.js";
+import { on } from "./events.js";
+
+export const PLUGINS_DIR = "plugins";
+// Setting that lets repositories' project configs load plugins
+export const TRUST_SETTING = "plugins.trust";
+
+export interface PluginApi {
+	registerCommand: typeof registerCommand;
+	defineCommand: typeof defineCommand;
+	on: typeof on;
+	log: typeof log;
+}
+
+export interface DevenvPlugin {
+	name: string;
+	setup: (api: PluginApi) => void | Promise<void>;
+}
+
+// Identity helper so plugin modules get type checking on their default export
+export function definePlugin(plugin: DevenvPlugin): DevenvPlugin {
+	return plugin;
+}
+
+const pluginApi: PluginApi = { registerCommand, defineCommand, on, log };
+
+export function getUserPluginsDir(): string {
+	return join(homedir(), DEVENV_DIR, PLUGINS_DIR);
+}
+
+/**
+ * Lists plugin entry points in a plugins directory: script files directly
+ * inside it and subdirectories (resolved through their package.json or
+ * index file).
+ */
+export function discoverPluginPaths(dir: string): string[] {
+	if (!existsSync(dir)) return [];
+	return readdirSync(dir, { withFileTypes: true })
+		.filter(
+			(entry) =>
+				!entry.name.startsWith(".") &&
+				(entry.isDirectory() || /\.(ts|js|mjs)$/.test(entry.name)),
+		)
+		.map((entry) => join(dir, entry.name))
+		.sort();
+}
+
+// Relative paths in the project config are relative to the repository root;
+// anything else is resolved like an import from there
+function resolveProjectPlugin(specifier: string, repoRoot: string): string {
+	if (isAbsolute(specifier) || specifier.startsWith(".")) {
+		return resolve(repoRoot, specifier);
+	}
+	return Bun.resolveSync(specifier, repoRoot);
+}
+
+async function projectPluginPaths(cwd: string): Promise<string[]> {
+	const repoRoot = await getRepoRoot(cwd);
+	if (!repoRoot) return [];
+
+	let plugins: string[] | undefined;
+	try {
+		plugins = (await loadProjectConfig(repoRoot))?.config.plugins;
+	} catch {
+		// An invalid config is reported by the commands that use it
+		return [];
+	}
+	return (plugins ?? []).map((specifier) =>
+		resolveProjectPlugin(specifier, repoRoot),
+	);
+}
+
+function projectPluginsTrusted(): boolean {
+	const db = createDatabase();
+	try {
+		return getSetting(db, TRUST_SETTING) === "true";
+	} finally {
+		db.close();
+	}
+}
+
+export async function loadPlugin(path: string): Promise<DevenvPlugin> {
+	const mod = (await import(path)) as { default?: unknown };
+	const plugin = mod.default as Partial<DevenvPlugin> | undefined;
+	if (!plugin || typeof plugin.setup !== "function") {
+		throw new Error("default export must be a plugin with a setup function");
+	}
+	await plugin.setup(pluginApi);
+	return plugin as DevenvPlugin;
+}
+
+/**
+ * Loads plugins from ~/.devenv/plugins and from the `plugins` list of the
+ * project config of the repository containing `cwd`. The project's plugins
+ * run code from whatever repository devenv is used in, so they are skipped
+ * with a warning unless the `plugins.trust` setting is "true". A plugin that
+ * fails to load is reported and skipped so it cannot break unrelated
+ * commands.
+ */
+export async function loadPlugins(
+	cwd: string = process.cwd(),
+	trustProject?: boolean,
+): Promise<DevenvPlugin[]> {
+	const paths = discoverPluginPaths(getUserPluginsDir());
+	try {
+		const projectPaths = await projectPluginPaths(cwd);
+		if (projectPaths.length > 0 && (trustProject ?? projectPluginsTrusted())) {
+			log.debug(`Loading project plugins: ${projectPaths.join(", ")}`);
+			paths.push(...projectPaths);
+		} else if (projectPaths.length > 0) {
+			log.warn(
+				`not loading the project config's plugins (${projectPaths.join(", ")}); run "devenv config set ${TRUST_SETTING} true" to allow them`,
+			);
+		}
+	} catch (error) {
+		log.warn(
+			`could not resolve project plugins: ${error instanceof Error ? error.message : error}`,
+		);
+	}
+
+	const loaded: DevenvPlugin[] = [];
+	for (const path of new Set(paths)) {
+		try {
+			loaded.push(await loadPlugin(path));
+		} catch (error) {
+			log.warn(
+				`failed to load plugin ${path}: ${error instanceof Error ? error.message : error}`,
+			);
+		}
+	}
+	return loaded;
+}
@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DevenvError } from "../../utils/errors.js";
+import {
+	loadProjectConfig,
+	resolveProjectPorts,
+	validateProjectConfig,
+} from "../config.js";
+
+function expectInvalid(raw: unknown): string {
+	try {
+		validateProjectConfig(raw, "devenv.json");
+	} catch (error) {
+		expect(error).toBeInstanceOf(DevenvError);
+		expect((error as DevenvError).code).toBe("INVALID_PROJECT_CONFIG");
+		return (error as DevenvError).message;
+	}
+	throw new Error("expected validation to fail");
+}
+
+describe("validateProjectConfig", () => {
+	test("accepts a full config", () => {
+		const config = validateProjectConfig(
+			{
+				$schema: "./schema.json",
+				ports: [3000, { port: 8787, name: "api" }],
+				envFiles: {
+					include: [".env*", ".dev.vars"],
+					exclude: ["*.bak"],
+					depth: 3,
+					rewriteLocalhost: true,
+				},
+				features: { "ghcr.io/devcontainers/features/go:1": {} },
+				aiTools: ["@anthropic-ai/claude-code"],
+				hooks: { postCreate: "bun install", postStart: "bun dev" },
+				baseBranch: "develop",
+				cache: "project",
+				limits: { cpus: 2, memory: "4g", pids: 512 },
+				hostnames: { template: "{name}.{branch}.{project}", suffix: ".test" },
+				plugins: ["./tools/devenv-plugin.ts"],
+			},
+			"devenv.json",
+		);
+		expect(config).toEqual({
+			ports: [{ port: 3000 }, { port: 8787, name: "api" }],
+			envFiles: {
+				include: [".env*", ".dev.vars"],
+				exclude: ["*.bak"],
+				depth: 3,
+				rewriteLocalhost: true,
+			},
+			features: { "ghcr.io/devcontainers/features/go:1": {} },
+			aiTools: ["@anthropic-ai/claude-code"],
+			hooks: { postCreate: "bun install", postStart: "bun dev" },
+			baseBranch: "develop",
+			cache: "project",
+			limits: { cpus: 2, memory: "4g", pids: 512 },
+			hostnames: { template: "{name}.{branch}.{project}", suffix: ".test" },
+			plugins: ["./tools/devenv-plugin.ts"],
+		});
+	});
+
+	test("accepts false to turn cache volumes off", () => {
+		expect(validateProjectConfig({ cache: false }, "devenv.json")).toEqual({
+			cache: false,
+		});
+	});
+
+	test("accepts an empty object", () => {
+		expect(validateProjectConfig({}, "devenv.json")).toEqual({});
+	});
+
+	test("reports every problem at once", () => {
+		const message = expectInvalid({
+			ports: [0, { port: 3000, name: "Not Valid" }],
+			hooks: { postCreate: 1 },
+			envFiles: { exclude: "*.bak", depth: -1 },
+			cache: "shared",
+			limits: { memory: "lots", swap: "1g" },
+			hostnames: { template: "{branch}", suffix: "test" },
+			extra: true,
+		});
+		expect(message).toContain("hostnames.template: must include {env}");
+		expect(message).toContain("hostnames.suffix");
+		expect(message).toContain("limits.memory");
+		expect(message).toContain("limits.swap: unknown key");
+		expect(message).toContain('cache: expected "global", "project" or false');
+		expect(message).toContain("envFiles.exclude");
+		expect(message).toContain("envFiles.depth");
+		expect(message).toContain("extra: unknown key");
+		expect(message).toContain("ports[0].port");
+		expect(message).toContain("ports[1].name");
+		expect(message).toContain("hooks.postCreate");
+	});
+
+	test("reports duplicate ports and names", () => {
+		const message = expectInvalid({
+			ports: [
+				3000,
+				{ port: 3000, name: "web" },
+				{ port: 8787, name: "api" },
+				{ port: 8788, name: "api" },
+			],
+		});
+		expect(message).toContain("ports[1].port: duplicate");
+		expect(message).toContain("ports[3].name: duplicate");
+		expect(message).not.toContain("ports[2]");
+	});
+
+	test("rejects non-object configs", () => {
+		expect(expectInvalid([])).toContain("expected a JSON object");
+	});
+});
+
+describe("loadProjectConfig", () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = await mkdtemp(join(tmpdir(), "devenv-project-test-"));
+	});
+
+	afterEach(async () => {
+		await rm(tempDir, { recursive: true, force: true });
+	});
+
+	test("returns null when the repo has no config", async () => {
+		expect(await loadProjectConfig(tempDir)).toBeNull();
+	});
+
+	test("prefers .devenv/config.json over devenv.json", async () => {
+		await mkdir(join(tempDir, ".devenv"));
+		await writeFile(
+			join(tempDir, ".devenv", "config.json"),
+			JSON.stringify({ baseBranch: "develop" }),
+		);
+		await writeFile(
+			join(tempDir, "devenv.json"),
+			JSON.stringify({ baseBranch: "main" }),
+		);
+
+		const loaded = await loadProjectConfig(tempDir);
+		expect(loaded?.path).toBe(join(tempDir, ".devenv", "config.json"));
+		expect(loaded?.config.baseBranch).toBe("develop");
+	});
+
+	test("reports malformed JSON as an invalid config", async () => {
+		await writeFile(join(tempDir, "devenv.json"), "{ nope");
+		await expect(loadProjectConfig(tempDir)).rejects.toThrow(
+			"Invalid project config",
+		);
+	});
+});
+
+describe("resolveProjectPorts", () => {
+	test("prefers ports from the project config", () => {
+		expect(
+			resolveProjectPorts(
+				{ forwardPorts: [3000] },
+				{ ports: [{ port: 8080, name: "api" }] },
+			),
+		).toEqual([{ port: 8080, name: "api" }]);
+	});
+
+	test("falls back to forwardPorts", () => {
+		expect(resolveProjectPorts({ forwardPorts: [3000, 5432] }, null)).toEqual([
+			{ port: 3000 },
+			{ port: 5432 },
+		]);
+	});
+});
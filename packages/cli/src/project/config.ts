@@ -0,0 +1,375 @@
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { DEVENV_DIR, type ResourceLimits } from "@repo/shared";
+import {
+	CACHE_SCOPES,
+	type CacheScope,
+} from "../devcontainer/cache-volumes.js";
+import {
+	type DevcontainerConfig,
+	resolveForwardPorts,
+} from "../devcontainer/parser.js";
+import { LIMIT_KEYS, validateLimits } from "../environments/limits.js";
+import { DevenvError } from "../utils/errors.js";
+import {
+	checkHostnameSuffix,
+	checkHostnameTemplate,
+	type HostnameOptions,
+} from "../utils/naming.js";
+
+export const PROJECT_CONFIG_FILES = [
+	join(DEVENV_DIR, "config.json"),
+	"devenv.json",
+];
+
+export interface PortConfig {
+	port: number;
+	// Alias used in the hostname instead of the port number
+	name?: string;
+}
+
+export interface EnvFilesConfig {
+	// Glob patterns matched against each file's path relative to the repo
+	include?: string[];
+	exclude?: string[];
+	// Directory levels below the repository root to search
+	depth?: number;
+	// Point localhost URLs on forwarded ports at the environment's hostnames
+	rewriteLocalhost?: boolean;
+}
+
+export interface HooksConfig {
+	// Run inside the container after it is created, alongside the project's
+	// own postCreateCommand
+	postCreate?: string;
+	// Run inside the container every time it starts
+	postStart?: string;
+}
+
+export interface ProjectConfig {
+	ports?: PortConfig[];
+	envFiles?: EnvFilesConfig;
+	features?: Record<string, Record<string, unknown>>;
+	aiTools?: string[];
+	hooks?: HooksConfig;
+	baseBranch?: string;
+	// Which environments share package-manager cache volumes, or false to
+	// mount none
+	cache?: CacheScope | false;
+	// Resource limits for the project's containers, overriding global ones
+	limits?: ResourceLimits;
+	// Template and domain suffix of the environments' hostnames
+	hostnames?: HostnameOptions;
+	// Plugin modules loaded for commands run inside this repository
+	plugins?: string[];
+}
+
+export interface LoadedProjectConfig {
+	path: string;
+	config: ProjectConfig;
+}
+
+const HOSTNAME_LABEL_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function checkKeys(
+	value: Record<string, unknown>,
+	allowed: string[],
+	path: string,
+	issues: string[],
+): void {
+	for (const key of Object.keys(value)) {
+		if (!allowed.includes(key)) {
+			issues.push(`${path}${key}: unknown key`);
+		}
+	}
+}
+
+function validatePorts(value: unknown, issues: string[]): PortConfig[] {
+	if (!Array.isArray(value)) {
+		issues.push("ports: expected an array");
+		return [];
+	}
+	const ports: PortConfig[] = [];
+	// Each port is mapped once, and names become hostnames
+	const seenPorts = new Set<number>();
+	const seenNames = new Set<string>();
+	value.forEach((entry, i) => {
+		const spec = typeof entry === "number" ? { port: entry } : entry;
+		if (!isRecord(spec)) {
+			issues.push(`ports[${i}]: expected a port number or { port, name }`);
+			return;
+		}
+		checkKeys(spec, ["port", "name"], `ports[${i}].`, issues);
+		const { port, name } = spec;
+		if (
+			typeof port !== "number" ||
+			!Number.isInteger(port) ||
+			port < 1 ||
+			port > 65535
+		) {
+			issues.push(`ports[${i}].port: expected an integer from 1 to 65535`);
+			return;
+		}
+		if (
+			name !== undefined &&
+			(typeof name !== "string" || !HOSTNAME_LABEL_PATTERN.test(name))
+		) {
+			issues.push(
+				`ports[${i}].name: expected lowercase letters, digits and dashes`,
+			);
+			return;
+		}
+		if (seenPorts.has(port)) {
+			issues.push(`ports[${i}].port: duplicate`);
+			return;
+		}
+		seenPorts.add(port);
+		if (name !== undefined && seenNames.has(name)) {
+			issues.push(`ports[${i}].name: duplicate`);
+			return;
+		}
+		if (name !== undefined) seenNames.add(name);
+		ports.push(name === undefined ? { port } : { port, name });
+	});
+	return ports;
+}
+
+/**
+ * Checks a parsed config file against the schema, reporting every problem
+ * at once rather than stopping at the first.
+ */
+export function validateProjectConfig(
+	raw: unknown,
+	source: string,
+): ProjectConfig {
+	const issues: string[] = [];
+	const config: ProjectConfig = {};
+
+	if (!isRecord(raw)) {
+		issues.push("expected a JSON object");
+	} else {
+		checkKeys(
+			raw,
+			[
+				"$schema",
+				"ports",
+				"envFiles",
+				"features",
+				"aiTools",
+				"hooks",
+				"baseBranch",
+				"cache",
+				"limits",
+				"hostnames",
+				"plugins",
+			],
+			"",
+			issues,
+		);
+
+		if (raw.ports !== undefined) {
+			config.ports = validatePorts(raw.ports, issues);
+		}
+
+		if (raw.envFiles !== undefined) {
+			if (!isRecord(raw.envFiles)) {
+				issues.push("envFiles: expected an object");
+			} else {
+				checkKeys(
+					raw.envFiles,
+					["include", "exclude", "depth", "rewriteLocalhost"],
+					"envFiles.",
+					issues,
+				);
+				const { include, exclude, depth, rewriteLocalhost } = raw.envFiles;
+				const envFiles: EnvFilesConfig = {};
+				for (const [name, patterns] of [
+					["include", include],
+					["exclude", exclude],
+				] as const) {
+					if (patterns === undefined) continue;
+					if (!isStringArray(patterns)) {
+						issues.push(`envFiles.${name}: expected an array of glob patterns`);
+					} else {
+						envFiles[name] = patterns;
+					}
+				}
+				if (depth !== undefined) {
+					if (
+						typeof depth !== "number" ||
+						!Number.isInteger(depth) ||
+						depth < 0
+					) {
+						issues.push("envFiles.depth: expected a whole number from 0");
+					} else {
+						envFiles.depth = depth;
+					}
+				}
+				if (rewriteLocalhost !== undefined) {
+					if (typeof rewriteLocalhost !== "boolean") {
+						issues.push("envFiles.rewriteLocalhost: expected true or false");
+					} else {
+						envFiles.rewriteLocalhost = rewriteLocalhost;
+					}
+				}
+				config.envFiles = envFiles;
+			}
+		}
+
+		if (raw.features !== undefined) {
+			if (
+				!isRecord(raw.features) ||
+				!Object.values(raw.features).every(isRecord)
+			) {
+				issues.push(
+					"features: expected an object mapping feature IDs to option objects",
+				);
+			} else {
+				config.features = raw.features as ProjectConfig["features"];
+			}
+		}
+
+		if (raw.aiTools !== undefined) {
+			if (!isStringArray(raw.aiTools)) {
+				issues.push("aiTools: expected an array of npm package names");
+			} else {
+				config.aiTools = raw.aiTools;
+			}
+		}
+
+		if (raw.hooks !== undefined) {
+			if (!isRecord(raw.hooks)) {
+				issues.push("hooks: expected an object");
+			} else {
+				checkKeys(raw.hooks, ["postCreate", "postStart"], "hooks.", issues);
+				const hooks: HooksConfig = {};
+				for (const name of ["postCreate", "postStart"] as const) {
+					const command = raw.hooks[name];
+					if (command === undefined) continue;
+					if (typeof command !== "string") {
+						issues.push(`hooks.${name}: expected a shell command string`);
+					} else {
+						hooks[name] = command;
+					}
+				}
+				config.hooks = hooks;
+			}
+		}
+
+		if (raw.baseBranch !== undefined) {
+			if (typeof raw.baseBranch !== "string" || raw.baseBranch === "") {
+				issues.push("baseBranch: expected a branch or ref name");
+			} else {
+				config.baseBranch = raw.baseBranch;
+			}
+		}
+
+		if (raw.cache !== undefined) {
+			if (
+				raw.cache !== false &&
+				!(CACHE_SCOPES as readonly unknown[]).includes(raw.cache)
+			) {
+				issues.push(
+					`cache: expected ${CACHE_SCOPES.map((s) => `"${s}"`).join(", ")} or false`,
+				);
+			} else {
+				config.cache = raw.cache as CacheScope | false;
+			}
+		}
+
+		if (raw.limits !== undefined) {
+			if (!isRecord(raw.limits)) {
+				issues.push("limits: expected an object");
+			} else {
+				checkKeys(raw.limits, [...LIMIT_KEYS], "limits.", issues);
+				config.limits = validateLimits(raw.limits, "limits.", issues);
+			}
+		}
+
+		if (raw.hostnames !== undefined) {
+			if (!isRecord(raw.hostnames)) {
+				issues.push("hostnames: expected an object");
+			} else {
+				checkKeys(raw.hostnames, ["template", "suffix"], "hostnames.", issues);
+				const hostnames: HostnameOptions = {};
+				for (const [name, check] of [
+					["template", checkHostnameTemplate],
+					["suffix", checkHostnameSuffix],
+				] as const) {
+					const value = raw.hostnames[name];
+					if (value === undefined) continue;
+					const problem =
+						typeof value === "string" ? check(value) : "expected a string";
+					if (problem) {
+						issues.push(`hostnames.${name}: ${problem}`);
+					} else {
+						hostnames[name] = value as string;
+					}
+				}
+				config.hostnames = hostnames;
+			}
+		}
+
+		if (raw.plugins !== undefined) {
+			if (!isStringArray(raw.plugins)) {
+				issues.push("plugins: expected an array of module paths");
+			} else {
+				config.plugins = raw.plugins;
+			}
+		}
+	}
+
+	if (issues.length > 0) {
+		throw new DevenvError(
+			"INVALID_PROJECT_CONFIG",
+			`Invalid project config ${source}:\n${issues.map((i) => `  - ${i}`).join("\n")}`,
+		);
+	}
+
+	return config;
+}
+
+/**
+ * Loads the repository's devenv config from .devenv/config.json or
+ * devenv.json. Returns null when the repository has neither.
+ */
+export async function loadProjectConfig(
+	repoPath: string,
+): Promise<LoadedProjectConfig | null> {
+	for (const candidate of PROJECT_CONFIG_FILES) {
+		const path = join(repoPath, candidate);
+		if (!existsSync(path)) continue;
+
+		let raw: unknown;
+		try {
+			raw = JSON.parse(await Bun.file(path).text());
+		} catch (error) {
+			throw new DevenvError(
+				"INVALID_PROJECT_CONFIG",
+				`Invalid project config ${path}: ${error instanceof Error ? error.message : error}`,
+			);
+		}
+		return { path, config: validateProjectConfig(raw, path) };
+	}
+
+	return null;
+}
+
+// Ports declared in the project config take precedence over forwardPorts
+export function resolveProjectPorts(
+	devcontainerConfig: DevcontainerConfig | null,
+	projectConfig: ProjectConfig | null,
+): PortConfig[] {
+	if (projectConfig?.ports && projectConfig.ports.length > 0) {
+		return projectConfig.ports;
+	}
+	return resolveForwardPorts(devcontainerConfig).map((port) => ({ port }));
+}
@@ -0,0 +1,44 @@
+import type { Environment, Project } from "@repo/shared";
+import type { EnvironmentRow, ProjectGroup } from "../state.js";
+
+export const project: Project = {
+	id: 1,
+	name: "app",
+	repoPath: "/repo/app",
+	status: "active",
+	createdAt: "",
+	updatedAt: "",
+};
+
+export function makeRow(
+	name: string,
+	overrides: Partial<EnvironmentRow> = {},
+): EnvironmentRow {
+	const environment: Environment = {
+		id: name.length,
+		projectId: project.id,
+		name,
+		branch: name.replace(/^app-/, ""),
+		status: "running",
+		containerId: `${name}-container`,
+		worktreePath: null,
+		devcontainerConfig: null,
+		appliedConfig: null,
+		errorMessage: null,
+		resourceLimits: {},
+		createdAt: "",
+		updatedAt: "",
+	};
+	return {
+		project,
+		environment,
+		portMappings: [],
+		containerState: "running",
+		tty: false,
+		...overrides,
+	};
+}
+
+export function makeGroups(...names: string[]): ProjectGroup[] {
+	return [{ project, rows: names.map((name) => makeRow(name)) }];
+}
@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import { renderScreen } from "../render.js";
+import { createState, moveSelection, withGroups } from "../state.js";
+import { stripAnsi, visibleLength } from "../terminal.js";
+import { makeGroups, makeRow, project } from "./fixtures.js";
+
+const size = { columns: 120, rows: 20 };
+
+describe("renderScreen", () => {
+	test("lists projects with their environments and URLs", () => {
+		const row = makeRow("app-main", {
+			portMappings: [
+				{
+					id: 1,
+					environmentId: 1,
+					containerPort: 3000,
+					hostPort: 49200,
+					hostname: "app-main.localhost",
+				},
+			],
+		});
+		const state = withGroups(
+			createState(),
+			[{ project, rows: [row] }],
+			new Date(),
+		);
+		const text = renderScreen(state, size).map(stripAnsi).join("\n");
+
+		expect(text).toContain("1 environment");
+		expect(text).toContain("app (/repo/app)");
+		expect(text).toMatch(
+			/> ● app-main\s+main\s+running\s+http:\/\/app-main\.localhost/,
+		);
+	});
+
+	test("marks the selected row", () => {
+		const state = moveSelection(
+			withGroups(createState(), makeGroups("app-a", "app-b"), new Date()),
+			1,
+		);
+		const lines = renderScreen(state, size).map(stripAnsi);
+		expect(lines.find((l) => l.includes("app-b"))).toStartWith(">");
+		expect(lines.find((l) => l.includes("app-a"))).toStartWith(" ");
+	});
+
+	test("fits the screen size", () => {
+		const names = Array.from({ length: 50 }, (_, i) => `app-${i}`);
+		const state = moveSelection(
+			withGroups(createState(), makeGroups(...names), new Date()),
+			40,
+		);
+		const lines = renderScreen(state, { columns: 40, rows: 12 });
+
+		expect(lines).toHaveLength(12);
+		for (const line of lines) {
+			expect(visibleLength(line)).toBeLessThanOrEqual(40);
+		}
+		// Scrolled so the selection is still on screen
+		expect(lines.map(stripAnsi).some((l) => l.startsWith("> ● app-40"))).toBe(
+			true,
+		);
+	});
+
+	test("shows the remove confirmation in the status line", () => {
+		const state = {
+			...withGroups(createState(), makeGroups("app-a"), new Date()),
+			confirmRemove: "app-a",
+		};
+		const lines = renderScreen(state, size).map(stripAnsi);
+		expect(lines[lines.length - 2]).toContain("Remove app-a?");
+	});
+
+	test("splits the screen when logs are open", () => {
+		const state = {
+			...withGroups(createState(), makeGroups("app-a"), new Date()),
+			logs: { envName: "app-a", lines: ["listening on :3000"] },
+		};
+		const text = renderScreen(state, size).map(stripAnsi).join("\n");
+		expect(text).toContain("logs: app-a");
+		expect(text).toContain("listening on :3000");
+	});
+});
@@ -0,0 +1,120 @@
+import { describe, expect, test } from "bun:test";
+import {
+	appendLogLines,
+	createState,
+	displayStatus,
+	findRow,
+	MAX_LOG_LINES,
+	moveSelection,
+	selectedRow,
+	type TuiState,
+	withGroups,
+} from "../state.js";
+import { makeGroups, makeRow } from "./fixtures.js";
+
+describe("moveSelection", () => {
+	test("clamps to the first and last rows", () => {
+		const state = withGroups(
+			createState(),
+			makeGroups("app-a", "app-b", "app-c"),
+			new Date(),
+		);
+		expect(moveSelection(state, 1).selected).toBe(1);
+		expect(moveSelection(state, -1).selected).toBe(0);
+		expect(moveSelection(state, Infinity).selected).toBe(2);
+	});
+
+	test("stays at zero without rows", () => {
+		expect(moveSelection(createState(), 1).selected).toBe(0);
+	});
+});
+
+describe("withGroups", () => {
+	test("keeps the same environment selected across refreshes", () => {
+		let state = withGroups(
+			createState(),
+			makeGroups("app-a", "app-b"),
+			new Date(),
+		);
+		state = moveSelection(state, 1);
+		state = withGroups(
+			state,
+			makeGroups("app-0", "app-a", "app-b"),
+			new Date(),
+		);
+		expect(selectedRow(state)?.environment.name).toBe("app-b");
+	});
+
+	test("clamps the selection when the selected environment disappears", () => {
+		let state = withGroups(
+			createState(),
+			makeGroups("app-a", "app-b"),
+			new Date(),
+		);
+		state = moveSelection(state, 1);
+		state = withGroups(state, makeGroups("app-a"), new Date());
+		expect(selectedRow(state)?.environment.name).toBe("app-a");
+	});
+});
+
+describe("findRow", () => {
+	test("finds the confirmed environment after the selection moved", () => {
+		let state = withGroups(
+			createState(),
+			makeGroups("app-a", "app-b", "app-c"),
+			new Date(),
+		);
+		state = { ...moveSelection(state, 1), confirmRemove: "app-b" };
+		state = withGroups(
+			state,
+			makeGroups("app-0", "app-a", "app-b", "app-c"),
+			new Date(),
+		);
+		state = moveSelection(state, 1);
+
+		expect(selectedRow(state)?.environment.name).toBe("app-c");
+		expect(findRow(state, "app-b")?.environment.name).toBe("app-b");
+	});
+
+	test("returns null once the confirmed environment is gone", () => {
+		let state = withGroups(
+			createState(),
+			makeGroups("app-a", "app-b", "app-c"),
+			new Date(),
+		);
+		state = { ...moveSelection(state, 1), confirmRemove: "app-b" };
+		state = withGroups(state, makeGroups("app-a", "app-c"), new Date());
+
+		expect(selectedRow(state)?.environment.name).toBe("app-c");
+		expect(findRow(state, "app-b")).toBeNull();
+	});
+});
+
+describe("appendLogLines", () => {
+	test("keeps only the most recent lines", () => {
+		let state: TuiState = {
+			...createState(),
+			logs: { envName: "app-a", lines: [] },
+		};
+		const lines = Array.from({ length: MAX_LOG_LINES + 5 }, (_, i) => `${i}`);
+		state = appendLogLines(state, lines);
+		expect(state.logs?.lines).toHaveLength(MAX_LOG_LINES);
+		expect(state.logs?.lines[0]).toBe("5");
+	});
+
+	test("ignores lines when no log pane is open", () => {
+		const state = createState();
+		expect(appendLogLines(state, ["x"])).toBe(state);
+	});
+});
+
+describe("displayStatus", () => {
+	test("prefers the live container state over the recorded status", () => {
+		expect(displayStatus(makeRow("app-a", { containerState: "exited" }))).toBe(
+			"exited",
+		);
+		expect(displayStatus(makeRow("app-a", { containerState: null }))).toBe(
+			"running",
+		);
+	});
+});
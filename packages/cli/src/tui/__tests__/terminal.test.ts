@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import {
+	ansi,
+	clipboardSequence,
+	parseKey,
+	stripAnsi,
+	truncate,
+	visibleLength,
+} from "../terminal.js";
+
+describe("parseKey", () => {
+	test("recognises arrows, enter and ctrl-c", () => {
+		expect(parseKey("\x1b[A")).toBe("up");
+		expect(parseKey("\x1b[B")).toBe("down");
+		expect(parseKey("\r")).toBe("enter");
+		expect(parseKey("\x03")).toBe("ctrl-c");
+	});
+
+	test("returns printable characters as chars", () => {
+		expect(parseKey("s")).toEqual({ char: "s" });
+	});
+
+	test("ignores unknown escape sequences", () => {
+		expect(parseKey("\x1b[99~")).toBeNull();
+	});
+});
+
+describe("truncate", () => {
+	test("counts only visible characters", () => {
+		const text = `${ansi.green}running${ansi.reset} app`;
+		expect(visibleLength(text)).toBe(11);
+		expect(truncate(text, 20)).toBe(text);
+	});
+
+	test("cuts long text and resets styles", () => {
+		const cut = truncate(`${ansi.green}running${ansi.reset}`, 3);
+		expect(stripAnsi(cut)).toBe("run");
+		expect(cut.endsWith(ansi.reset)).toBe(true);
+	});
+});
+
+describe("clipboardSequence", () => {
+	test("wraps base64 text in an OSC 52 sequence", () => {
+		expect(clipboardSequence("hi")).toBe("\x1b]52;c;aGk=\x07");
+		expect(stripAnsi(clipboardSequence("hi"))).toBe("");
+	});
+});
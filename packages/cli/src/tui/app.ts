@@ -0,0 +1,403 @@
+import type { Database } from "bun:sqlite";
+import type { Environment } from "@repo/shared";
+import {
+	createDatabase,
+	getPortMappings,
+	getProjectsWithEnvironments,
+} from "../db/database.js";
+import {
+	DockerError,
+	getContainerLogs,
+	inspectContainer,
+	readLogLines,
+} from "../docker/client.js";
+import {
+	removeEnvironment,
+	startEnvironment,
+	stopEnvironment,
+} from "../environments/lifecycle.js";
+import {
+	type Editor,
+	editorFolderUri,
+	shellCommand,
+} from "../environments/workspace.js";
+import { setConsoleHandler } from "../utils/logger.js";
+import { renderScreen } from "./render.js";
+import {
+	appendLogLines,
+	createState,
+	type EnvironmentRow,
+	environmentUrls,
+	findRow,
+	moveSelection,
+	type ProjectGroup,
+	selectedRow,
+	type TuiState,
+	withGroups,
+} from "./state.js";
+import { ansi, clipboardSequence, type Key, parseKey } from "./terminal.js";
+
+const REFRESH_INTERVAL_MS = 2000;
+const LOG_TAIL_LINES = 200;
+
+async function inspectRow(
+	row: Omit<EnvironmentRow, "containerState" | "tty">,
+): Promise<EnvironmentRow> {
+	const { containerId } = row.environment;
+	if (!containerId) {
+		return { ...row, containerState: null, tty: false };
+	}
+	try {
+		const info = await inspectContainer(containerId);
+		return { ...row, containerState: info.State.Status, tty: info.Config.Tty };
+	} catch (error) {
+		if (error instanceof DockerError && error.statusCode === 404) {
+			return { ...row, containerState: "missing", tty: false };
+		}
+		throw error;
+	}
+}
+
+// Reads projects from the database, then asks Docker for each container's
+// live state
+async function loadGroups(): Promise<ProjectGroup[]> {
+	const db = createDatabase();
+	let groups: Array<{
+		project: ProjectGroup["project"];
+		rows: Array<Omit<EnvironmentRow, "containerState" | "tty">>;
+	}>;
+	try {
+		groups = getProjectsWithEnvironments(db).map(
+			({ environments, ...project }) => ({
+				project,
+				rows: environments.map((environment) => ({
+					project,
+					environment,
+					portMappings: getPortMappings(db, environment.id),
+				})),
+			}),
+		);
+	} finally {
+		db.close();
+	}
+
+	return Promise.all(
+		groups.map(async (group) => ({
+			project: group.project,
+			rows: await Promise.all(group.rows.map(inspectRow)),
+		})),
+	);
+}
+
+async function withDatabase<T>(fn: (db: Database) => Promise<T>): Promise<T> {
+	const db = createDatabase();
+	try {
+		return await fn(db);
+	} finally {
+		db.close();
+	}
+}
+
+function errorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Runs the full-screen terminal UI until the user quits.
+ */
+export async function runTui(): Promise<void> {
+	const stdin = process.stdin;
+	const stdout = process.stdout;
+
+	let state: TuiState = createState();
+	let refreshing = false;
+	let suspended = false;
+	let logAbort: AbortController | null = null;
+	let refreshTimer: ReturnType<typeof setInterval> | null = null;
+	let finish: () => void = () => {};
+
+	function render(): void {
+		if (suspended) return;
+		const lines = renderScreen(state, {
+			columns: stdout.columns ?? 80,
+			rows: stdout.rows ?? 24,
+		});
+		stdout.write(
+			`${ansi.home}${lines.map((line) => line + ansi.clearLine).join("\r\n")}${ansi.clearBelow}`,
+		);
+	}
+
+	function update(next: TuiState): void {
+		state = next;
+		render();
+	}
+
+	function setMessage(text: string, kind: "info" | "error" = "info"): void {
+		update({ ...state, message: { text, kind } });
+	}
+
+	async function refresh(): Promise<void> {
+		if (refreshing) return;
+		refreshing = true;
+		try {
+			update(withGroups(state, await loadGroups(), new Date()));
+		} catch (error) {
+			setMessage(`Refresh failed: ${errorMessage(error)}`, "error");
+		} finally {
+			refreshing = false;
+		}
+	}
+
+	function enterScreen(): void {
+		stdout.write(ansi.enterAltScreen + ansi.hideCursor);
+		stdin.setRawMode(true);
+		stdin.resume();
+		suspended = false;
+		render();
+	}
+
+	function leaveScreen(): void {
+		suspended = true;
+		stdin.setRawMode(false);
+		stdin.pause();
+		stdout.write(ansi.showCursor + ansi.leaveAltScreen);
+	}
+
+	// Runs an environment action with progress shown in the status line
+	async function runAction(
+		label: string,
+		action: () => Promise<void>,
+		done: string,
+	): Promise<void> {
+		if (state.busy) return;
+		update({ ...state, busy: label, message: null });
+		try {
+			await action();
+			update({ ...state, busy: null, message: { text: done, kind: "info" } });
+		} catch (error) {
+			update({
+				...state,
+				busy: null,
+				message: { text: errorMessage(error), kind: "error" },
+			});
+		}
+		await refresh();
+	}
+
+	function runningContainer(
+		row: EnvironmentRow,
+	): (Environment & { containerId: string }) | null {
+		const { containerId } = row.environment;
+		if (!containerId || row.containerState !== "running") {
+			setMessage(`${row.environment.name} is not running`, "error");
+			return null;
+		}
+		return { ...row.environment, containerId };
+	}
+
+	async function openShell(row: EnvironmentRow): Promise<void> {
+		const environment = runningContainer(row);
+		if (!environment) return;
+
+		stopLogs();
+		leaveScreen();
+		stdin.off("data", onData);
+		try {
+			const proc = Bun.spawn(shellCommand(environment), {
+				stdin: "inherit",
+				stdout: "inherit",
+				stderr: "inherit",
+			});
+			await proc.exited;
+		} catch (error) {
+			state = {
+				...state,
+				message: { text: errorMessage(error), kind: "error" },
+			};
+		} finally {
+			stdin.on("data", onData);
+			enterScreen();
+		}
+	}
+
+	async function openEditor(
+		row: EnvironmentRow,
+		editor: Editor,
+	): Promise<void> {
+		const environment = runningContainer(row);
+		if (!environment) return;
+		try {
+			const proc = Bun.spawn(
+				[editor, "--folder-uri", editorFolderUri(environment)],
+				{ stdin: "ignore", stdout: "ignore", stderr: "ignore" },
+			);
+			const exitCode = await proc.exited;
+			if (exitCode !== 0) {
+				setMessage(`${editor} exited with code ${exitCode}`, "error");
+			} else {
+				setMessage(`Opened ${environment.name} in ${editor}`);
+			}
+		} catch (error) {
+			setMessage(`Could not run ${editor}: ${errorMessage(error)}`, "error");
+		}
+	}
+
+	function stopLogs(): void {
+		logAbort?.abort();
+		logAbort = null;
+		state = { ...state, logs: null };
+	}
+
+	async function toggleLogs(row: EnvironmentRow): Promise<void> {
+		const wasOpen = state.logs?.envName;
+		stopLogs();
+		if (wasOpen === row.environment.name) {
+			render();
+			return;
+		}
+		const { containerId } = row.environment;
+		if (!containerId || row.containerState === "missing") {
+			setMessage(`${row.environment.name} has no container`, "error");
+			return;
+		}
+
+		const controller = new AbortController();
+		logAbort = controller;
+		update({ ...state, logs: { envName: row.environment.name, lines: [] } });
+		try {
+			const stream = await getContainerLogs(containerId, {
+				tail: LOG_TAIL_LINES,
+				follow: true,
+				signal: controller.signal,
+			});
+			for await (const line of readLogLines(stream, !row.tty)) {
+				if (controller.signal.aborted) break;
+				update(appendLogLines(state, [line]));
+			}
+		} catch (error) {
+			if (!controller.signal.aborted) {
+				setMessage(`Log stream ended: ${errorMessage(error)}`, "error");
+			}
+		}
+	}
+
+	function copyUrl(row: EnvironmentRow): void {
+		const url = environmentUrls(row)[0];
+		if (!url) {
+			setMessage(`${row.environment.name} has no URLs`, "error");
+			return;
+		}
+		stdout.write(clipboardSequence(url));
+		setMessage(`Copied ${url}`);
+	}
+
+	async function handleKey(key: Key): Promise<void> {
+		if (key === "ctrl-c" || (typeof key === "object" && key.char === "q")) {
+			finish();
+			return;
+		}
+
+		if (state.confirmRemove) {
+			const name = state.confirmRemove;
+			update({ ...state, confirmRemove: null });
+			// A refresh since the prompt may have moved the selection; remove
+			// the environment that was confirmed, if it still exists
+			const row = findRow(state, name);
+			if (typeof key === "object" && key.char === "y" && row) {
+				if (state.logs?.envName === name) stopLogs();
+				await runAction(
+					`Removing ${name}...`,
+					() => withDatabase((db) => removeEnvironment(db, row.environment)),
+					`Removed ${name}`,
+				);
+			}
+			return;
+		}
+
+		if (key === "up") return update(moveSelection(state, -1));
+		if (key === "down") return update(moveSelection(state, 1));
+		if (key === "pageup") return update(moveSelection(state, -10));
+		if (key === "pagedown") return update(moveSelection(state, 10));
+		if (key === "home") return update(moveSelection(state, -Infinity));
+		if (key === "end") return update(moveSelection(state, Infinity));
+		if (key === "escape") return update({ ...state, message: null });
+
+		const row = selectedRow(state);
+		const char = typeof key === "object" ? key.char : null;
+		if (char === "k") return update(moveSelection(state, -1));
+		if (char === "j") return update(moveSelection(state, 1));
+		if (char === "r") return refresh();
+		if (!row) return;
+
+		const name = row.environment.name;
+		if (key === "enter") return openShell(row);
+		switch (char) {
+			case "s":
+				return runAction(
+					`Starting ${name}...`,
+					() =>
+						withDatabase(async (db) => {
+							await startEnvironment(db, row.environment);
+						}),
+					`Started ${name}`,
+				);
+			case "x":
+				return runAction(
+					`Stopping ${name}...`,
+					() => withDatabase((db) => stopEnvironment(db, row.environment)),
+					`Stopped ${name}`,
+				);
+			case "d":
+				if (!state.busy) update({ ...state, confirmRemove: name });
+				return;
+			case "o":
+				return openEditor(row, "code");
+			case "O":
+				return openEditor(row, "cursor");
+			case "l":
+				return toggleLogs(row);
+			case "c":
+				return copyUrl(row);
+		}
+	}
+
+	function onData(data: Buffer): void {
+		const key = parseKey(data.toString("utf-8"));
+		if (!key) return;
+		handleKey(key).catch((error) => {
+			setMessage(errorMessage(error), "error");
+		});
+	}
+
+	function onResize(): void {
+		render();
+	}
+
+	// Messages logged by lifecycle helpers (e.g. starting Caddy) go to the
+	// status line instead of the terminal
+	setConsoleHandler((level, message) => {
+		const text = message.trim();
+		if (text) setMessage(text, level === "error" ? "error" : "info");
+	});
+
+	try {
+		enterScreen();
+		stdin.on("data", onData);
+		stdout.on("resize", onResize);
+		await refresh();
+		refreshTimer = setInterval(() => {
+			refresh();
+		}, REFRESH_INTERVAL_MS);
+
+		await new Promise<void>((resolve) => {
+			finish = resolve;
+		});
+	} finally {
+		if (refreshTimer) clearInterval(refreshTimer);
+		stopLogs();
+		stdin.off("data", onData);
+		stdout.off("resize", onResize);
+		setConsoleHandler(null);
+		leaveScreen();
+	}
+}
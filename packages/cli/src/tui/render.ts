@@ -0,0 +1,114 @@
+import {
+	allRows,
+	displayStatus,
+	type EnvironmentRow,
+	environmentUrls,
+	type TuiState,
+} from "./state.js";
+import { ansi, padEnd, truncate } from "./terminal.js";
+
+export interface ScreenSize {
+	columns: number;
+	rows: number;
+}
+
+export const KEY_HELP =
+	"↑/↓ move  s start  x stop  d remove  ⏎ shell  o code  O cursor  l logs  c copy url  r refresh  q quit";
+
+function statusColor(status: string): string {
+	if (status === "running") return ansi.green;
+	if (status === "error" || status === "dead") return ansi.red;
+	if (status === "restarting" || status === "paused") return ansi.yellow;
+	return ansi.dim;
+}
+
+function formatRow(row: EnvironmentRow, selected: boolean): string {
+	const status = displayStatus(row);
+	const color = statusColor(status);
+	const marker = status === "running" ? "●" : "○";
+	const url = environmentUrls(row)[0] ?? "";
+	const line = `${selected ? ">" : " "} ${color}${marker}${ansi.reset} ${padEnd(row.environment.name, 30)} ${padEnd(row.environment.branch, 20)} ${color}${padEnd(status, 10)}${ansi.reset} ${ansi.cyan}${url}${ansi.reset}`;
+	return selected ? `${ansi.bold}${line}${ansi.reset}` : line;
+}
+
+function formatClock(date: Date): string {
+	return date.toTimeString().slice(0, 8);
+}
+
+/**
+ * Renders the whole screen as lines of at most `size.columns` visible
+ * characters, filling at most `size.rows` lines.
+ */
+export function renderScreen(state: TuiState, size: ScreenSize): string[] {
+	const rows = allRows(state);
+	const header = `${ansi.bold}devenv${ansi.reset} — ${rows.length} environment${rows.length === 1 ? "" : "s"}`;
+	const clock = state.refreshedAt
+		? `${ansi.dim}refreshed ${formatClock(state.refreshedAt)}${ansi.reset}`
+		: "";
+
+	const list: string[] = [];
+	let selectedLine = 0;
+	if (rows.length === 0) {
+		list.push(`${ansi.dim}No environments found.${ansi.reset}`);
+		list.push(
+			`${ansi.dim}Run "devenv create --repo <path> --branch <name>" to create one.${ansi.reset}`,
+		);
+	}
+	let index = 0;
+	for (const group of state.groups) {
+		list.push(
+			`${ansi.bold}${group.project.name}${ansi.reset} ${ansi.dim}(${group.project.repoPath})${ansi.reset}`,
+		);
+		if (group.rows.length === 0) {
+			list.push(`  ${ansi.dim}No environments${ansi.reset}`);
+		}
+		for (const row of group.rows) {
+			if (index === state.selected) selectedLine = list.length;
+			list.push(formatRow(row, index === state.selected));
+			index++;
+		}
+		list.push("");
+	}
+
+	// Header, blank line, status line and key help take four lines
+	const available = Math.max(1, size.rows - 4);
+	const logHeight = state.logs ? Math.floor(available / 2) : 0;
+	const listHeight = available - logHeight;
+
+	// Scroll the list so the selected row stays visible
+	const maxOffset = Math.max(0, list.length - listHeight);
+	const offset = Math.min(
+		maxOffset,
+		Math.max(0, selectedLine - listHeight + 1),
+	);
+
+	const lines = [
+		`${header}  ${clock}`,
+		"",
+		...list.slice(offset, offset + listHeight),
+	];
+	while (lines.length < listHeight + 2) lines.push("");
+
+	if (state.logs) {
+		lines.push(
+			`${ansi.inverse} logs: ${state.logs.envName} ${ansi.reset} ${ansi.dim}(l to close)${ansi.reset}`,
+		);
+		const tail = state.logs.lines.slice(-(logHeight - 1));
+		lines.push(...tail);
+		while (lines.length < listHeight + 2 + logHeight) lines.push("");
+	}
+
+	let status = "";
+	if (state.confirmRemove) {
+		status = `${ansi.yellow}Remove ${state.confirmRemove}? This deletes its container. (y/n)${ansi.reset}`;
+	} else if (state.busy) {
+		status = `${ansi.yellow}${state.busy}${ansi.reset}`;
+	} else if (state.message) {
+		const color = state.message.kind === "error" ? ansi.red : ansi.green;
+		status = `${color}${state.message.text}${ansi.reset}`;
+	}
+	lines.push(status);
+	lines.push(`${ansi.dim}${KEY_HELP}${ansi.reset}`);
+
+	return lines.slice(0, size.rows).map((line) => truncate(line, size.columns));
+}
@@ -0,0 +1,115 @@
+import type { Environment, PortMapping, Project } from "@repo/shared";
+
+export interface EnvironmentRow {
+	project: Project;
+	environment: Environment;
+	portMappings: PortMapping[];
+	// Docker's view of the container (running, exited, ...); null when the
+	// environment has no container or Docker no longer knows it
+	containerState: string | null;
+	// Whether the container was created with a TTY, which decides how its
+	// log stream is framed
+	tty: boolean;
+}
+
+export interface ProjectGroup {
+	project: Project;
+	rows: EnvironmentRow[];
+}
+
+export interface StatusMessage {
+	text: string;
+	kind: "info" | "error";
+}
+
+export interface LogPane {
+	envName: string;
+	lines: string[];
+}
+
+export interface TuiState {
+	groups: ProjectGroup[];
+	// Index into the flattened environment rows
+	selected: number;
+	message: StatusMessage | null;
+	// Name of the environment awaiting a remove confirmation
+	confirmRemove: string | null;
+	// Description of the action in progress, which blocks other actions
+	busy: string | null;
+	logs: LogPane | null;
+	refreshedAt: Date | null;
+}
+
+export const MAX_LOG_LINES = 500;
+
+export function createState(): TuiState {
+	return {
+		groups: [],
+		selected: 0,
+		message: null,
+		confirmRemove: null,
+		busy: null,
+		logs: null,
+		refreshedAt: null,
+	};
+}
+
+export function allRows(state: TuiState): EnvironmentRow[] {
+	return state.groups.flatMap((group) => group.rows);
+}
+
+export function selectedRow(state: TuiState): EnvironmentRow | null {
+	return allRows(state)[state.selected] ?? null;
+}
+
+// The row of the named environment, wherever the selection is
+export function findRow(state: TuiState, name: string): EnvironmentRow | null {
+	return allRows(state).find((row) => row.environment.name === name) ?? null;
+}
+
+export function moveSelection(state: TuiState, delta: number): TuiState {
+	const count = allRows(state).length;
+	if (count === 0) return { ...state, selected: 0 };
+	const selected = Math.min(count - 1, Math.max(0, state.selected + delta));
+	return { ...state, selected };
+}
+
+/**
+ * Replaces the project groups after a refresh, keeping the same environment
+ * selected when it still exists.
+ */
+export function withGroups(
+	state: TuiState,
+	groups: ProjectGroup[],
+	refreshedAt: Date,
+): TuiState {
+	const previous = selectedRow(state)?.environment.name;
+	const rows = groups.flatMap((group) => group.rows);
+	const index = rows.findIndex((row) => row.environment.name === previous);
+	const selected =
+		index !== -1
+			? index
+			: Math.min(state.selected, Math.max(0, rows.length - 1));
+	return { ...state, groups, selected, refreshedAt };
+}
+
+export function appendLogLines(state: TuiState, lines: string[]): TuiState {
+	if (!state.logs) return state;
+	return {
+		...state,
+		logs: {
+			...state.logs,
+			lines: [...state.logs.lines, ...lines].slice(-MAX_LOG_LINES),
+		},
+	};
+}
+
+// The status shown for a row: Docker's live state when known, otherwise the
+// status recorded in the database
+export function displayStatus(row: EnvironmentRow): string {
+	return row.containerState ?? row.environment.status;
+}
+
+export function environmentUrls(row: EnvironmentRow): string[] {
+	return row.portMappings.map((pm) => `http://${pm.hostname}`);
+}
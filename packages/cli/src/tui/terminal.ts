@@ -0,0 +1,107 @@
+const ESC = "\x1b";
+
+export const ansi = {
+	enterAltScreen: `${ESC}[?1049h`,
+	leaveAltScreen: `${ESC}[?1049l`,
+	hideCursor: `${ESC}[?25l`,
+	showCursor: `${ESC}[?25h`,
+	home: `${ESC}[H`,
+	clearLine: `${ESC}[K`,
+	clearBelow: `${ESC}[J`,
+	reset: `${ESC}[0m`,
+	bold: `${ESC}[1m`,
+	dim: `${ESC}[90m`,
+	inverse: `${ESC}[7m`,
+	green: `${ESC}[32m`,
+	yellow: `${ESC}[33m`,
+	red: `${ESC}[31m`,
+	cyan: `${ESC}[36m`,
+};
+
+export function cursorUp(lines: number): string {
+	return lines > 0 ? `${ESC}[${lines}A` : "";
+}
+
+export type Key =
+	| "up"
+	| "down"
+	| "pageup"
+	| "pagedown"
+	| "home"
+	| "end"
+	| "enter"
+	| "escape"
+	| "ctrl-c"
+	| { char: string };
+
+const SEQUENCES: Record<string, Key> = {
+	[`${ESC}[A`]: "up",
+	[`${ESC}OA`]: "up",
+	[`${ESC}[B`]: "down",
+	[`${ESC}OB`]: "down",
+	[`${ESC}[5~`]: "pageup",
+	[`${ESC}[6~`]: "pagedown",
+	[`${ESC}[H`]: "home",
+	[`${ESC}[F`]: "end",
+	"\r": "enter",
+	"\n": "enter",
+	[ESC]: "escape",
+	"\x03": "ctrl-c",
+};
+
+// Maps raw stdin data to a key. Unrecognised escape sequences return null.
+export function parseKey(data: string): Key | null {
+	const known = SEQUENCES[data];
+	if (known) return known;
+	if (data.startsWith(ESC)) return null;
+	return { char: data };
+}
+
+// Matches CSI (colour, cursor) and OSC (clipboard, title) sequences
+const ANSI_PATTERN =
+	// biome-ignore lint/suspicious/noControlCharactersInRegex: terminal escape sequences
+	/\x1b\[[0-9;?]*[A-Za-z]|\x1b\][^\x07]*\x07/g;
+
+export function stripAnsi(text: string): string {
+	return text.replace(ANSI_PATTERN, "");
+}
+
+export function visibleLength(text: string): number {
+	return stripAnsi(text).length;
+}
+
+/**
+ * Cuts `text` to at most `width` visible characters, keeping escape
+ * sequences intact and resetting styles when anything was cut.
+ */
+export function truncate(text: string, width: number): string {
+	let visible = 0;
+	let result = "";
+	let i = 0;
+	while (i < text.length) {
+		ANSI_PATTERN.lastIndex = i;
+		const match = ANSI_PATTERN.exec(text);
+		if (match && match.index === i) {
+			result += match[0];
+			i += match[0].length;
+			continue;
+		}
+		if (visible === width) {
+			return `${result}${ansi.reset}`;
+		}
+		result += text[i];
+		visible++;
+		i++;
+	}
+	return result;
+}
+
+export function padEnd(text: string, width: number): string {
+	return text + " ".repeat(Math.max(0, width - visibleLength(text)));
+}
+
+// OSC 52 asks the terminal itself to set the clipboard, which also works
+// over SSH and inside tmux (with set-clipboard enabled)
+export function clipboardSequence(text: string): string {
+	return `${ESC}]52;c;${Buffer.from(text, "utf-8").toString("base64")}\x07`;
+}
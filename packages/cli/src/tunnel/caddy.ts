@@ -11,21 +11,22 @@ import {
 	pullImage,
 	startContainer,
 } from "../docker/client.js";
+import { log } from "../utils/logger.js";
 
 async function waitForCaddyReady(maxAttempts = 30): Promise<void> {
 	for (let i = 0; i < maxAttempts; i++) {
 		try {
 			const res = await fetch(`${CADDY_ADMIN_URL}/config/`);
 			if (res.ok) {
-				console.log(`    [debug] Caddy ready after ${i + 1} attempt(s)`);
+				log.debug(`Caddy ready after ${i + 1} attempt(s)`);
 				return;
 			}
 		} catch {
 			// Not ready yet
 		}
 		if (i > 0 && i % 5 === 0) {
-			console.log(
-				`    [debug] Waiting for Caddy admin API... (attempt ${i + 1}/${maxAttempts})`,
+			log.debug(
+				`Waiting for Caddy admin API... (attempt ${i + 1}/${maxAttempts})`,
 			);
 		}
 		await Bun.sleep(200);
@@ -64,9 +65,9 @@ export async function ensureCaddyRunning(): Promise<void> {
 	}
 
 	// Pull image and create container
-	console.log(`    [debug] Pulling Caddy image: ${CADDY_IMAGE}`);
+	log.debug(`Pulling Caddy image: ${CADDY_IMAGE}`);
 	await pullImage(CADDY_IMAGE);
-	console.log("    [debug] Caddy image pulled");
+	log.debug("Caddy image pulled");
 
 	const config = JSON.stringify({ admin: { listen: "0.0.0.0:2019" } });
 	await createContainer({
@@ -86,7 +87,7 @@ export async function ensureCaddyRunning(): Promise<void> {
 		},
 	});
 
-	console.log("    [debug] Starting Caddy container...");
+	log.debug("Starting Caddy container...");
 	await startContainer(CADDY_CONTAINER_NAME);
 	await waitForCaddyReady();
 }
@@ -119,15 +120,13 @@ async function ensureServerConfig(): Promise<void> {
 	}
 }
 
-export async function addRoute(
+// Caddy route config that proxies `hostname` to a port on the host
+export function buildRoute(
 	routeId: string,
 	hostname: string,
 	hostPort: number,
-): Promise<void> {
-	await ensureServerConfig();
-
-	// Try to update existing route first via /id/ API
-	const route = {
+) {
+	return {
 		"@id": routeId,
 		match: [{ host: [hostname] }],
 		handle: [
@@ -137,6 +136,17 @@ export async function addRoute(
 			},
 		],
 	};
+}
+
+export async function addRoute(
+	routeId: string,
+	hostname: string,
+	hostPort: number,
+): Promise<void> {
+	await ensureServerConfig();
+
+	// Try to update existing route first via /id/ API
+	const route = buildRoute(routeId, hostname, hostPort);
 
 	// Try upsert via /id/ endpoint
 	let res = await fetch(`${CADDY_ADMIN_URL}/id/${routeId}`, {
@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+import { createMutex, mapConcurrent } from "../concurrency.js";
+
+function tick(): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, 1));
+}
+
+describe("createMutex", () => {
+	test("runs tasks one at a time in order", async () => {
+		const withLock = createMutex();
+		const events: string[] = [];
+		const task = (name: string) => async () => {
+			events.push(`${name} start`);
+			await tick();
+			events.push(`${name} end`);
+			return name;
+		};
+
+		const results = await Promise.all([
+			withLock(task("a")),
+			withLock(task("b")),
+		]);
+
+		expect(results).toEqual(["a", "b"]);
+		expect(events).toEqual(["a start", "a end", "b start", "b end"]);
+	});
+
+	test("keeps going after a task fails", async () => {
+		const withLock = createMutex();
+		const failed = withLock(async () => {
+			throw new Error("boom");
+		});
+		const next = withLock(async () => "ok");
+
+		await expect(failed).rejects.toThrow("boom");
+		expect(await next).toBe("ok");
+	});
+});
+
+describe("mapConcurrent", () => {
+	test("never runs more than the limit at once", async () => {
+		let running = 0;
+		let peak = 0;
+		const results = await mapConcurrent([1, 2, 3, 4, 5], 2, async (n) => {
+			running++;
+			peak = Math.max(peak, running);
+			await tick();
+			running--;
+			return n * 10;
+		});
+
+		expect(peak).toBe(2);
+		expect(results.map((r) => r.status === "fulfilled" && r.value)).toEqual([
+			10, 20, 30, 40, 50,
+		]);
+	});
+
+	test("reports failures without stopping other items", async () => {
+		const results = await mapConcurrent(["a", "b", "c"], 3, async (item) => {
+			if (item === "b") throw new Error("bad item");
+			return item;
+		});
+
+		expect(results.map((r) => r.status)).toEqual([
+			"fulfilled",
+			"rejected",
+			"fulfilled",
+		]);
+	});
+});
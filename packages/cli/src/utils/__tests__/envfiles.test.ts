@@ -1,11 +1,14 @@
 import { afterEach, beforeEach, describe, expect, test } from "bun:test";
-import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import {
 	discoverEnvFiles,
-	formatRouteId,
-	generateHostname,
+	envFileData,
+	envFileVariables,
+	renderEnvFile,
+	rewriteLocalhostUrls,
+	writeEnvFile,
 } from "../envfiles.js";
 
 let tempDir: string;
@@ -67,6 +70,67 @@ describe("discoverEnvFiles", () => {
 		expect(files[0]?.relativePath).toBe(join("a", "b", ".env"));
 	});
 
+	test("matches include patterns instead of the default", async () => {
+		await mkdir(join(tempDir, "apps", "worker"), { recursive: true });
+		await writeFile(join(tempDir, ".env"), "ROOT=true");
+		await writeFile(join(tempDir, "apps", "worker", ".dev.vars"), "W=1");
+		await writeFile(join(tempDir, "apps", "worker", "secrets.json"), "{}");
+
+		const files = await discoverEnvFiles(tempDir, {
+			include: [".dev.vars", "apps/*/secrets.json"],
+		});
+		expect(files.map((f) => f.relativePath)).toEqual([
+			join("apps", "worker", ".dev.vars"),
+			join("apps", "worker", "secrets.json"),
+		]);
+	});
+
+	test("leaves out files matching exclude patterns", async () => {
+		await mkdir(join(tempDir, "config"), { recursive: true });
+		await writeFile(join(tempDir, "config", "local.json"), "{}");
+		await writeFile(join(tempDir, "app.local.yaml"), "a: 1");
+		await writeFile(join(tempDir, "ci.local.yaml"), "b: 2");
+
+		const files = await discoverEnvFiles(tempDir, {
+			include: ["config/local.json", "*.local.yaml"],
+			exclude: ["ci.*"],
+		});
+		expect(files.map((f) => f.relativePath)).toEqual([
+			"app.local.yaml",
+			join("config", "local.json"),
+		]);
+	});
+
+	test("searches as deep as the depth option allows", async () => {
+		await mkdir(join(tempDir, "a", "b", "c"), { recursive: true });
+		await writeFile(join(tempDir, ".env"), "depth0");
+		await writeFile(join(tempDir, "a", "b", "c", ".env"), "depth3");
+
+		expect(
+			(await discoverEnvFiles(tempDir, { depth: 0 })).map(
+				(f) => f.relativePath,
+			),
+		).toEqual([".env"]);
+		expect(await discoverEnvFiles(tempDir, { depth: 3 })).toHaveLength(2);
+	});
+
+	test("stores binary files as base64 and writes them back unchanged", async () => {
+		const bytes = new Uint8Array([0x30, 0x82, 0x00, 0xff, 0xfe]);
+		await writeFile(join(tempDir, "dev.p12"), bytes);
+		await writeFile(join(tempDir, "cert.pem"), "-----BEGIN CERTIFICATE-----");
+
+		const files = await discoverEnvFiles(tempDir, {
+			include: ["*.p12", "*.pem"],
+		});
+		expect(files.map((f) => [f.relativePath, f.encoding])).toEqual([
+			["cert.pem", "utf8"],
+			["dev.p12", "base64"],
+		]);
+		const [pem, p12] = files;
+		expect(p12 && new Uint8Array(envFileData(p12) as Buffer)).toEqual(bytes);
+		expect(pem && envFileData(pem)).toBe("-----BEGIN CERTIFICATE-----");
+	});
+
 	test("returns empty array for directory with no env files", async () => {
 		await writeFile(join(tempDir, "package.json"), "{}");
 		await writeFile(join(tempDir, "README.md"), "# Test");
@@ -87,38 +151,127 @@ describe("discoverEnvFiles", () => {
 	});
 });
 
-describe("formatRouteId", () => {
-	test("prefixes env name with devenv-", () => {
-		expect(formatRouteId("myapp-main")).toBe("devenv-myapp-main");
+describe("renderEnvFile", () => {
+	const variables = envFileVariables({ name: "app-feat", branch: "feat" }, [
+		{ containerPort: 3000, hostPort: 49200, hostname: "app-feat.localhost" },
+		{
+			containerPort: 5432,
+			hostPort: 49201,
+			hostname: "app-feat-5432.localhost",
+		},
+	]);
+
+	test("fills in the environment's name, branch, URLs and host ports", () => {
+		const { content, unresolved } = renderEnvFile(
+			[
+				// biome-ignore lint/suspicious/noTemplateCurlyInString: env file syntax
+				"APP_URL=${DEVENV_URL_3000}",
+				// biome-ignore lint/suspicious/noTemplateCurlyInString: env file syntax
+				"DATABASE_URL=postgres://localhost:${DEVENV_HOST_PORT_5432}/app",
+				// biome-ignore lint/suspicious/noTemplateCurlyInString: env file syntax
+				"NAME=${DEVENV_ENV_NAME}@${DEVENV_BRANCH}",
+			].join("\n"),
+			variables,
+		);
+		expect(content).toBe(
+			[
+				"APP_URL=http://app-feat.localhost",
+				"DATABASE_URL=postgres://localhost:49201/app",
+				"NAME=app-feat@feat",
+			].join("\n"),
+		);
+		expect(unresolved).toEqual([]);
 	});
 
-	test("handles complex names", () => {
-		expect(formatRouteId("my-project-feature-auth")).toBe(
-			"devenv-my-project-feature-auth",
+	test("leaves unknown placeholders and other references alone", () => {
+		const { content, unresolved } = renderEnvFile(
+			// biome-ignore lint/suspicious/noTemplateCurlyInString: env file syntax
+			"API=${DEVENV_URL_8080}\nHOME_DIR=${HOME}\nAGAIN=${DEVENV_URL_8080}",
+			variables,
+		);
+		expect(content).toBe(
+			// biome-ignore lint/suspicious/noTemplateCurlyInString: env file syntax
+			"API=${DEVENV_URL_8080}\nHOME_DIR=${HOME}\nAGAIN=${DEVENV_URL_8080}",
 		);
+		expect(unresolved).toEqual(["DEVENV_URL_8080"]);
 	});
 });
 
-describe("generateHostname", () => {
-	test("generates hostname for default port", () => {
-		expect(generateHostname("myapp", "main")).toBe("myapp-main.localhost");
-	});
+describe("writeEnvFile", () => {
+	test("writes the rendered text and binary files unchanged", async () => {
+		const variables = { DEVENV_ENV_NAME: "app-feat" };
+		writeEnvFile(
+			tempDir,
+			{
+				relativePath: "apps/web/.env",
+				// biome-ignore lint/suspicious/noTemplateCurlyInString: env file syntax
+				content: "NAME=${DEVENV_ENV_NAME}",
+				encoding: "utf8",
+			},
+			variables,
+		);
+		writeEnvFile(
+			tempDir,
+			{ relativePath: "key.p12", content: "AAEC", encoding: "base64" },
+			variables,
+		);
 
-	test("generates hostname with default container port (3000) omitted", () => {
-		expect(generateHostname("myapp", "main", 3000)).toBe(
-			"myapp-main.localhost",
+		expect(await readFile(join(tempDir, "apps/web/.env"), "utf8")).toBe(
+			"NAME=app-feat",
 		);
+		expect([...(await readFile(join(tempDir, "key.p12")))]).toEqual([0, 1, 2]);
 	});
+});
 
-	test("generates hostname with non-default port", () => {
-		expect(generateHostname("myapp", "main", 8080)).toBe(
-			"myapp-main-8080.localhost",
+describe("rewriteLocalhostUrls", () => {
+	const hostnames = {
+		3000: "app-feat.localhost",
+		5432: "app-feat-5432.localhost",
+	};
+
+	test("points HTTP URLs and bare hosts on forwarded ports at hostnames", () => {
+		const { content, rewrites } = rewriteLocalhostUrls(
+			[
+				"APP_URL=http://localhost:3000/auth/callback",
+				"API=https://127.0.0.1:3000",
+				"HOST=localhost:3000",
+				"OTHER=http://localhost:4000",
+			].join("\n"),
+			hostnames,
+		);
+		expect(content).toBe(
+			[
+				"APP_URL=http://app-feat.localhost/auth/callback",
+				"API=http://app-feat.localhost",
+				"HOST=app-feat.localhost",
+				"OTHER=http://localhost:4000",
+			].join("\n"),
 		);
+		expect(rewrites).toEqual([
+			{
+				line: 1,
+				from: "http://localhost:3000",
+				to: "http://app-feat.localhost",
+			},
+			{
+				line: 2,
+				from: "https://127.0.0.1:3000",
+				to: "http://app-feat.localhost",
+			},
+			{ line: 3, from: "localhost:3000", to: "app-feat.localhost" },
+		]);
 	});
 
-	test("handles special branch names", () => {
-		expect(generateHostname("myapp", "feature-auth")).toBe(
-			"myapp-feature-auth.localhost",
-		);
+	test("leaves protocols the proxy cannot carry alone", () => {
+		const content = [
+			"DATABASE_URL=postgres://user:pw@localhost:5432/app",
+			"PG=postgresql://localhost:5432/app",
+			"DB_HOST=localhost:5432",
+			"REDIRECT=http://mylocalhost:3000",
+		].join("\n");
+		expect(rewriteLocalhostUrls(content, hostnames)).toEqual({
+			content,
+			rewrites: [],
+		});
 	});
 });
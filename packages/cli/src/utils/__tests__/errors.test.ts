@@ -0,0 +1,31 @@
+import { describe, expect, test } from "bun:test";
+import { DockerError } from "../../docker/client.js";
+import { environmentNotFound, toErrorPayload } from "../errors.js";
+
+describe("toErrorPayload", () => {
+	test("keeps the code of a DevenvError", () => {
+		expect(toErrorPayload(environmentNotFound("app-main"))).toEqual({
+			code: "ENV_NOT_FOUND",
+			message: "Environment not found: app-main",
+		});
+	});
+
+	test("maps DockerError to DOCKER_ERROR with its status code", () => {
+		expect(toErrorPayload(new DockerError(409, "conflict"))).toEqual({
+			code: "DOCKER_ERROR",
+			message: "conflict",
+			statusCode: 409,
+		});
+	});
+
+	test("falls back to INTERNAL for other errors", () => {
+		expect(toErrorPayload(new Error("boom"))).toEqual({
+			code: "INTERNAL",
+			message: "boom",
+		});
+		expect(toErrorPayload("plain string")).toEqual({
+			code: "INTERNAL",
+			message: "plain string",
+		});
+	});
+});
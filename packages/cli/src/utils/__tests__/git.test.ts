@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DevenvError } from "../errors.js";
+import {
+	createWorktree,
+	listBranches,
+	refExists,
+	resolveWorktreeSource,
+} from "../git.js";
+
+let tempDir: string;
+let repoPath: string;
+
+async function git(cwd: string, ...args: string[]): Promise<string> {
+	const proc = Bun.spawn(
+		[
+			"git",
+			"-c",
+			"user.name=devenv",
+			"-c",
+			"user.email=devenv@example.com",
+			"-c",
+			"init.defaultBranch=main",
+			"-C",
+			cwd,
+			...args,
+		],
+		{ stdout: "pipe", stderr: "pipe" },
+	);
+	const [stdout, stderr, exitCode] = await Promise.all([
+		new Response(proc.stdout).text(),
+		new Response(proc.stderr).text(),
+		proc.exited,
+	]);
+	if (exitCode !== 0) throw new Error(stderr);
+	return stdout.trim();
+}
+
+async function commit(cwd: string, message: string): Promise<string> {
+	await git(cwd, "commit", "--allow-empty", "-m", message);
+	return git(cwd, "rev-parse", "HEAD");
+}
+
+beforeEach(async () => {
+	tempDir = await mkdtemp(join(tmpdir(), "devenv-git-test-"));
+	const originPath = join(tempDir, "origin");
+	repoPath = join(tempDir, "repo");
+
+	// An origin with main and a branch the local clone has only fetched
+	await git(tempDir, "init", originPath);
+	await commit(originPath, "initial");
+	await git(originPath, "checkout", "-b", "remote-only");
+	await commit(originPath, "remote work");
+	await git(originPath, "checkout", "main");
+	await git(tempDir, "clone", originPath, repoPath);
+});
+
+afterEach(async () => {
+	await rm(tempDir, { recursive: true, force: true });
+});
+
+describe("createWorktree", () => {
+	test("checks out an existing local branch", async () => {
+		await git(repoPath, "branch", "feature");
+		const source = await createWorktree(
+			repoPath,
+			"feature",
+			join(tempDir, "wt"),
+			"origin/remote-only",
+		);
+		expect(source).toEqual({ kind: "local", ref: "feature" });
+	});
+
+	test("tracks origin/<branch> for remote-only branches", async () => {
+		const worktreePath = join(tempDir, "wt");
+		const source = await createWorktree(repoPath, "remote-only", worktreePath);
+
+		expect(source).toEqual({ kind: "remote", ref: "origin/remote-only" });
+		expect(
+			await git(worktreePath, "rev-parse", "--abbrev-ref", "@{upstream}"),
+		).toBe("origin/remote-only");
+		expect(await git(worktreePath, "log", "-1", "--format=%s")).toBe(
+			"remote work",
+		);
+	});
+
+	test("forks new branches from the base ref without tracking it", async () => {
+		const worktreePath = join(tempDir, "wt");
+		const source = await createWorktree(
+			repoPath,
+			"feat",
+			worktreePath,
+			"origin/remote-only",
+		);
+
+		expect(source).toEqual({ kind: "new", ref: "origin/remote-only" });
+		expect(await git(worktreePath, "log", "-1", "--format=%s")).toBe(
+			"remote work",
+		);
+		await expect(
+			git(worktreePath, "rev-parse", "--abbrev-ref", "@{upstream}"),
+		).rejects.toThrow();
+	});
+
+	test("forks from HEAD without a base ref", async () => {
+		const head = await commit(repoPath, "local work");
+		const worktreePath = join(tempDir, "wt");
+		const source = await createWorktree(repoPath, "feat", worktreePath);
+
+		expect(source).toEqual({ kind: "new", ref: "HEAD" });
+		expect(await git(worktreePath, "rev-parse", "HEAD")).toBe(head);
+	});
+
+	test("rejects a missing base ref", async () => {
+		const promise = createWorktree(
+			repoPath,
+			"feat",
+			join(tempDir, "wt"),
+			"origin/nope",
+		);
+		await expect(promise).rejects.toBeInstanceOf(DevenvError);
+		await expect(promise).rejects.toThrow("Base ref not found: origin/nope");
+	});
+});
+
+describe("resolveWorktreeSource", () => {
+	test("reports the source without creating the branch", async () => {
+		expect(
+			await resolveWorktreeSource(repoPath, "feat", "origin/remote-only"),
+		).toEqual({ kind: "new", ref: "origin/remote-only" });
+		expect(await resolveWorktreeSource(repoPath, "remote-only")).toEqual({
+			kind: "remote",
+			ref: "origin/remote-only",
+		});
+		expect(await listBranches(repoPath)).toEqual(["main"]);
+	});
+});
+
+describe("refExists", () => {
+	test("resolves branches, remote refs and commits", async () => {
+		expect(await refExists(repoPath, "main")).toBe(true);
+		expect(await refExists(repoPath, "origin/remote-only")).toBe(true);
+		expect(await refExists(repoPath, "nope")).toBe(false);
+	});
+});
+
+describe("listBranches", () => {
+	test("lists local branches", async () => {
+		await git(repoPath, "branch", "feature");
+		expect((await listBranches(repoPath)).sort()).toEqual(["feature", "main"]);
+	});
+});
@@ -0,0 +1,58 @@
+import { describe, expect, test } from "bun:test";
+import { diffJson, formatJsonChanges } from "../json-diff.js";
+
+describe("diffJson", () => {
+	test("finds nothing in equal values, whatever their key order", () => {
+		expect(
+			diffJson({ a: 1, b: [1, { c: 2 }] }, { b: [1, { c: 2 }], a: 1 }),
+		).toEqual([]);
+	});
+
+	test("names the innermost path of each change", () => {
+		expect(
+			diffJson(
+				{
+					image: "node:20",
+					features: { "ghcr.io/devcontainers/features/go:1": {} },
+					mounts: ["a", "b"],
+				},
+				{
+					image: "node:24",
+					features: {},
+					mounts: ["a", "c", "d"],
+					runArgs: ["--init"],
+				},
+			),
+		).toEqual([
+			{ path: "image", before: "node:20", after: "node:24" },
+			{
+				path: 'features["ghcr.io/devcontainers/features/go:1"]',
+				before: {},
+			},
+			{ path: "mounts[1]", before: "b", after: "c" },
+			{ path: "mounts[2]", after: "d" },
+			{ path: "runArgs", after: ["--init"] },
+		]);
+	});
+
+	test("reports a value that changes type as a whole", () => {
+		expect(diffJson({ a: "x" }, { a: { b: 1 } })).toEqual([
+			{ path: "a", before: "x", after: { b: 1 } },
+		]);
+		expect(diffJson(null, { a: 1 })).toEqual([
+			{ path: "", before: null, after: { a: 1 } },
+		]);
+	});
+});
+
+describe("formatJsonChanges", () => {
+	test("marks added, removed and changed values", () => {
+		expect(
+			formatJsonChanges([
+				{ path: "a", after: 1 },
+				{ path: "b", before: "x" },
+				{ path: "c", before: true, after: false },
+			]),
+		).toEqual(["+ a: 1", '- b: "x"', "~ c: true → false"]);
+	});
+});
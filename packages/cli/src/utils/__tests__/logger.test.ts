@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	closeLogFile,
+	type LogLevel,
+	log,
+	openLogFile,
+	pruneLogFiles,
+	setConsoleHandler,
+	setLogLevel,
+} from "../logger.js";
+
+let tempDir: string;
+let messages: Array<[LogLevel, string]>;
+
+beforeEach(async () => {
+	tempDir = await mkdtemp(join(tmpdir(), "devenv-logs-test-"));
+	messages = [];
+	setConsoleHandler((level, message) => messages.push([level, message]));
+});
+
+afterEach(async () => {
+	setConsoleHandler(null);
+	setLogLevel("info");
+	closeLogFile();
+	await rm(tempDir, { recursive: true, force: true });
+});
+
+describe("log levels", () => {
+	test("hides debug output by default", () => {
+		log.debug("detail");
+		log.info("progress");
+		expect(messages).toEqual([["info", "progress"]]);
+	});
+
+	test("shows debug output at the debug level", () => {
+		setLogLevel("debug");
+		log.debug("detail");
+		expect(messages).toEqual([["debug", "detail"]]);
+	});
+
+	test("only shows warnings and errors at the warn level", () => {
+		setLogLevel("warn");
+		log.info("progress");
+		log.warn("careful");
+		log.error("failed");
+		expect(messages).toEqual([
+			["warn", "Warning: careful"],
+			["error", "failed"],
+		]);
+	});
+});
+
+describe("log file", () => {
+	test("records every level regardless of the console level", async () => {
+		setLogLevel("warn");
+		const path = openLogFile("create", ["create", "--repo", "."], tempDir);
+		log.debug("[devcontainer] pulling image");
+		log.info("Creating environment");
+
+		const content = await Bun.file(path as string).text();
+		expect(content).toContain("# devenv create --repo .");
+		expect(content).toMatch(/DEBUG {1}\[devcontainer\] pulling image/);
+		expect(content).toMatch(/INFO {2}Creating environment/);
+	});
+
+	test("names the file after the command", () => {
+		const path = openLogFile("create", ["create"], tempDir);
+		expect(path).toMatch(/-create-\d+\.log$/);
+	});
+
+	test("pruneLogFiles keeps the newest files", async () => {
+		for (const name of ["2024-01-01.log", "2024-01-02.log", "2024-01-03.log"]) {
+			await writeFile(join(tempDir, name), "");
+		}
+		pruneLogFiles(tempDir, 2);
+		expect((await readdir(tempDir)).sort()).toEqual([
+			"2024-01-02.log",
+			"2024-01-03.log",
+		]);
+	});
+});
@@ -0,0 +1,242 @@
+import { describe, expect, test } from "bun:test";
+import {
+	checkHostnameSuffix,
+	checkHostnameTemplate,
+	createEnvironmentNamer,
+	DNS_LABEL_MAX_LENGTH,
+	fitLabel,
+	formatRouteId,
+	generateHostname,
+	isValidHostname,
+	PROJECT_NAME_MAX_LENGTH,
+	projectNameFor,
+	repairHostname,
+	slugify,
+} from "../naming.js";
+
+describe("slugify", () => {
+	test("replaces anything but letters, digits and dashes", () => {
+		expect(slugify("Feature/Login_Page")).toBe("feature-login-page");
+	});
+
+	test("collapses and trims dashes", () => {
+		expect(slugify("--fix//bug--")).toBe("fix-bug");
+	});
+});
+
+describe("fitLabel", () => {
+	test("keeps a short slug as is", () => {
+		expect(fitLabel("myapp-main", "myapp/main", 63)).toBe("myapp-main");
+	});
+
+	test("shortens a long slug and ends it with a hash", () => {
+		const a = fitLabel(`${"x".repeat(70)}-a`, "a", 63);
+		const b = fitLabel(`${"x".repeat(70)}-b`, "b", 63);
+		expect(a).toHaveLength(63);
+		expect(a).toMatch(/^x+-[0-9a-f]{6}$/);
+		expect(a).not.toBe(b);
+	});
+
+	test("falls back to a hash for an empty slug", () => {
+		expect(fitLabel("", "日本語", 63)).toMatch(/^[0-9a-f]{6}$/);
+	});
+});
+
+describe("isValidHostname", () => {
+	test("accepts DNS-safe labels", () => {
+		expect(isValidHostname("myapp-main.localhost")).toBe(true);
+	});
+
+	test("rejects slashes, underscores, edge dashes and long labels", () => {
+		expect(isValidHostname("myapp-feature/login.localhost")).toBe(false);
+		expect(isValidHostname("my_app.localhost")).toBe(false);
+		expect(isValidHostname("-myapp.localhost")).toBe(false);
+		expect(isValidHostname(`${"a".repeat(64)}.localhost`)).toBe(false);
+	});
+});
+
+describe("projectNameFor", () => {
+	test("names the project after the repository directory", () => {
+		expect(projectNameFor("/src/My App", [])).toBe("my-app");
+	});
+
+	test("tells apart repositories with the same directory name", () => {
+		const name = projectNameFor("/work/api", ["api"]);
+		expect(name).toMatch(/^api-[0-9a-f]{6}$/);
+		expect(projectNameFor("/work/api", ["api"])).toBe(name);
+		expect(projectNameFor("/home/api", ["api"])).not.toBe(name);
+	});
+
+	test("limits the length", () => {
+		const name = projectNameFor(`/src/${"long".repeat(20)}`, []);
+		expect(name.length).toBeLessThanOrEqual(PROJECT_NAME_MAX_LENGTH);
+	});
+});
+
+describe("createEnvironmentNamer", () => {
+	const existing = [
+		{ name: "myapp-feature-a", projectId: 1, branch: "feature/a" },
+	];
+
+	test("names an environment after the project and branch", () => {
+		expect(createEnvironmentNamer("myapp", 1, [])("main")).toBe("myapp-main");
+	});
+
+	test("keeps the name of a branch that already has an environment", () => {
+		expect(createEnvironmentNamer("myapp", 1, existing)("feature/a")).toBe(
+			"myapp-feature-a",
+		);
+	});
+
+	test("appends a hash when another branch has the name", () => {
+		const name = createEnvironmentNamer("myapp", 1, existing)("feature-a");
+		expect(name).toMatch(/^myapp-feature-a-[0-9a-f]{6}$/);
+		expect(createEnvironmentNamer("myapp", 1, existing)("feature-a")).toBe(
+			name,
+		);
+	});
+
+	test("treats another project's environment as taken", () => {
+		const name = createEnvironmentNamer("myapp", 2, existing)("feature/a");
+		expect(name).not.toBe("myapp-feature-a");
+	});
+
+	test("gives branches named in one batch distinct names", () => {
+		const nameFor = createEnvironmentNamer("myapp", null, []);
+		const a = nameFor("feature/a");
+		const b = nameFor("feature-a");
+		expect(a).toBe("myapp-feature-a");
+		expect(b).not.toBe(a);
+		expect(nameFor("feature/a")).toBe(a);
+	});
+
+	test("limits names to a DNS label", () => {
+		const name = createEnvironmentNamer(
+			"myapp",
+			1,
+			[],
+		)(`feature/${"very-long-branch-name-".repeat(5)}`);
+		expect(name.length).toBeLessThanOrEqual(DNS_LABEL_MAX_LENGTH);
+		expect(isValidHostname(name)).toBe(true);
+	});
+});
+
+describe("generateHostname", () => {
+	const target = {
+		projectName: "myapp",
+		envName: "myapp-main",
+		branch: "main",
+	};
+
+	test("generates hostname for default port", () => {
+		expect(generateHostname(target)).toBe("myapp-main.localhost");
+	});
+
+	test("generates hostname with default container port (3000) omitted", () => {
+		expect(generateHostname(target, 3000)).toBe("myapp-main.localhost");
+	});
+
+	test("generates hostname with non-default port", () => {
+		expect(generateHostname(target, 8080)).toBe("myapp-main-8080.localhost");
+	});
+
+	test("uses the port name instead of the number when given", () => {
+		expect(generateHostname(target, 8080, "api")).toBe(
+			"myapp-main-api.localhost",
+		);
+		expect(generateHostname(target, 3000, "web")).toBe(
+			"myapp-main-web.localhost",
+		);
+	});
+
+	test("keeps the label within 63 characters", () => {
+		const long = { ...target, envName: "e".repeat(63) };
+		const hostname = generateHostname(long, 8080, "api");
+		expect(isValidHostname(hostname)).toBe(true);
+		expect(hostname).not.toBe(generateHostname(long, 8081));
+	});
+
+	test("renders a template with a custom suffix", () => {
+		const options = { template: "{name}.{branch}.{project}", suffix: ".test" };
+		const feat = {
+			projectName: "myapp",
+			envName: "myapp-feat",
+			branch: "feat",
+		};
+		expect(generateHostname(feat, 8787, "api", options)).toBe(
+			"api.feat.myapp.test",
+		);
+		// An empty {name} drops its label
+		expect(generateHostname(feat, 3000, undefined, options)).toBe(
+			"feat.myapp.test",
+		);
+		expect(
+			generateHostname(feat, 3000, undefined, {
+				template: "{env}-{port}",
+			}),
+		).toBe("myapp-feat-3000.localhost");
+	});
+
+	test("takes {branch} from the environment name, which is unique", () => {
+		const options = { template: "{name}.{branch}.{project}" };
+		const hashed = {
+			projectName: "myapp",
+			envName: "myapp-feature-a-1a2b3c",
+			branch: "feature-a",
+		};
+		expect(generateHostname(hashed, 8080, "api", options)).toBe(
+			"api.feature-a-1a2b3c.myapp.localhost",
+		);
+	});
+});
+
+describe("checkHostnameTemplate", () => {
+	test("accepts templates that keep hostnames unique", () => {
+		expect(checkHostnameTemplate("{name}.{branch}.{project}")).toBeNull();
+		expect(checkHostnameTemplate("{env}-{port}")).toBeNull();
+	});
+
+	test("rejects unknown variables and characters", () => {
+		expect(checkHostnameTemplate("{env}-{nmae}")).toContain("{nmae}");
+		expect(checkHostnameTemplate("{env}_{name}")).toContain("lowercase");
+	});
+
+	test("requires variables that tell environments and ports apart", () => {
+		expect(checkHostnameTemplate("{project}-{name}")).toContain("{env}");
+		expect(checkHostnameTemplate("{env}")).toContain("{port}");
+	});
+});
+
+describe("checkHostnameSuffix", () => {
+	test("accepts a domain starting with a dot", () => {
+		expect(checkHostnameSuffix(".test")).toBeNull();
+		expect(checkHostnameSuffix(".dev.example.com")).toBeNull();
+	});
+
+	test("rejects anything else", () => {
+		expect(checkHostnameSuffix("test")).not.toBeNull();
+		expect(checkHostnameSuffix(".Test_")).not.toBeNull();
+	});
+});
+
+describe("repairHostname", () => {
+	test("slugifies the label", () => {
+		expect(repairHostname("myapp-feature/login.localhost")).toBe(
+			"myapp-feature-login.localhost",
+		);
+	});
+
+	test("appends a hash when the repaired hostname is taken", () => {
+		const hostname = repairHostname(
+			"myapp-feature/a.localhost",
+			new Set(["myapp-feature-a.localhost"]),
+		);
+		expect(hostname).toMatch(/^myapp-feature-a-[0-9a-f]{6}\.localhost$/);
+	});
+});
+
+describe("formatRouteId", () => {
+	test("prefixes env name with devenv-", () => {
+		expect(formatRouteId("myapp-main")).toBe("devenv-myapp-main");
+	});
+});
@@ -0,0 +1,173 @@
+import type { Database } from "bun:sqlite";
+import { beforeEach, describe, expect, test } from "bun:test";
+import {
+	createDatabase,
+	insertEnvironment,
+	insertProject,
+} from "../../db/database.js";
+import { DevenvError, type ErrorCode } from "../errors.js";
+import {
+	resolveEnvironment,
+	resolveEnvironmentExactly,
+} from "../resolve-env.js";
+
+let db: Database;
+
+beforeEach(() => {
+	db = createDatabase(":memory:");
+	const app = insertProject(db, "app", "/src/app");
+	insertEnvironment(
+		db,
+		app.id,
+		"app-feature-login",
+		"feature/login",
+		"/src/app/.devenv/worktrees/feature/login",
+	);
+	insertEnvironment(
+		db,
+		app.id,
+		"app-feature-logout",
+		"feature/logout",
+		"/src/app/.devenv/worktrees/feature/logout",
+	);
+	insertEnvironment(
+		db,
+		app.id,
+		"app-main",
+		"main",
+		"/src/app/.devenv/worktrees/main",
+	);
+	const api = insertProject(db, "api", "/src/api");
+	insertEnvironment(
+		db,
+		api.id,
+		"api-main",
+		"main",
+		"/src/api/.devenv/worktrees/main",
+	);
+});
+
+function expectError(fn: () => unknown, code: ErrorCode): void {
+	try {
+		fn();
+		expect(true).toBe(false); // Should not reach here
+	} catch (error) {
+		expect(error).toBeInstanceOf(DevenvError);
+		expect((error as DevenvError).code).toBe(code);
+	}
+}
+
+describe("resolveEnvironment by name", () => {
+	test("matches exact names", () => {
+		expect(resolveEnvironment(db, "app-main").name).toBe("app-main");
+	});
+
+	test("matches a unique name prefix", () => {
+		expect(resolveEnvironment(db, "api").name).toBe("api-main");
+	});
+
+	test("matches a unique branch prefix", () => {
+		expect(resolveEnvironment(db, "feature/logo").name).toBe(
+			"app-feature-logout",
+		);
+	});
+
+	test("matches fuzzily when no prefix matches", () => {
+		expect(resolveEnvironment(db, "aflgn").name).toBe("app-feature-login");
+	});
+
+	test("rejects ambiguous prefixes", () => {
+		expectError(() => resolveEnvironment(db, "app-feature"), "ENV_AMBIGUOUS");
+	});
+
+	test("reports unknown names", () => {
+		expectError(() => resolveEnvironment(db, "zzz"), "ENV_NOT_FOUND");
+	});
+});
+
+describe("resolveEnvironment from the working directory", () => {
+	test("finds the worktree containing the directory", () => {
+		expect(
+			resolveEnvironment(
+				db,
+				undefined,
+				"/src/app/.devenv/worktrees/feature/login/src/pages",
+			).name,
+		).toBe("app-feature-login");
+	});
+
+	test("does not match sibling paths sharing a prefix", () => {
+		expect(
+			resolveEnvironment(db, undefined, "/src/app/.devenv/worktrees/main").name,
+		).toBe("app-main");
+		expectError(
+			() =>
+				resolveEnvironment(
+					db,
+					undefined,
+					"/src/app/.devenv/worktrees/mainline",
+				),
+			"ENV_AMBIGUOUS",
+		);
+	});
+
+	test("uses the project's only environment from its main repository", () => {
+		expect(resolveEnvironment(db, undefined, "/src/api/lib").name).toBe(
+			"api-main",
+		);
+	});
+
+	test("rejects a project with several environments", () => {
+		expectError(
+			() => resolveEnvironment(db, undefined, "/src/app"),
+			"ENV_AMBIGUOUS",
+		);
+	});
+
+	test("fails outside any project", () => {
+		expectError(
+			() => resolveEnvironment(db, undefined, "/tmp"),
+			"ENV_NOT_FOUND",
+		);
+	});
+});
+
+describe("resolveEnvironmentExactly", () => {
+	test("accepts full names", () => {
+		expect(
+			resolveEnvironmentExactly(db, "app-main", "remove", false).name,
+		).toBe("app-main");
+	});
+
+	test("refuses prefix, fuzzy and working-directory matches", () => {
+		expectError(
+			() => resolveEnvironmentExactly(db, "api", "remove", false),
+			"USAGE",
+		);
+		expectError(
+			() => resolveEnvironmentExactly(db, "aflgn", "remove", false),
+			"USAGE",
+		);
+		expectError(
+			() =>
+				resolveEnvironmentExactly(
+					db,
+					undefined,
+					"remove",
+					false,
+					"/src/api/lib",
+				),
+			"USAGE",
+		);
+	});
+
+	test("accepts any match once confirmed", () => {
+		expect(resolveEnvironmentExactly(db, "api", "remove", true).name).toBe(
+			"api-main",
+		);
+		expect(
+			resolveEnvironmentExactly(db, undefined, "remove", true, "/src/api/lib")
+				.name,
+		).toBe("api-main");
+	});
+});
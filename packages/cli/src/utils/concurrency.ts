@@ -0,0 +1,42 @@
+/**
+ * Returns a function that runs the tasks given to it one at a time, in the
+ * order they were passed in.
+ */
+export function createMutex(): <T>(task: () => Promise<T>) => Promise<T> {
+	let last: Promise<unknown> = Promise.resolve();
+	return (task) => {
+		const result = last.then(task);
+		// Later tasks wait for this one whether or not it succeeds
+		last = result.catch(() => {});
+		return result;
+	};
+}
+
+/**
+ * Runs `worker` over `items` with at most `limit` running at once. Results
+ * keep the order of `items`; a failing item does not stop the others.
+ */
+export async function mapConcurrent<T, R>(
+	items: readonly T[],
+	limit: number,
+	worker: (item: T, index: number) => Promise<R>,
+): Promise<PromiseSettledResult<R>[]> {
+	const results: PromiseSettledResult<R>[] = new Array(items.length);
+	let next = 0;
+	const run = async () => {
+		while (next < items.length) {
+			const index = next++;
+			try {
+				results[index] = {
+					status: "fulfilled",
+					value: await worker(items[index] as T, index),
+				};
+			} catch (reason) {
+				results[index] = { status: "rejected", reason };
+			}
+		}
+	};
+	const workers = Array.from({ length: Math.min(limit, items.length) }, run);
+	await Promise.all(workers);
+	return results;
+}
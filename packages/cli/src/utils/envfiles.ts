@@ -1,6 +1,6 @@
-import { type Dirent, readdirSync } from "node:fs";
-import { join, relative } from "node:path";
-import { DEFAULT_CONTAINER_PORT, LOCALHOST_SUFFIX } from "@repo/shared";
+import { type Dirent, mkdirSync, readdirSync, writeFileSync } from "node:fs";
+import { dirname, join, relative, sep } from "node:path";
+import type { EnvFileEncoding, PortMapping } from "@repo/shared";
 
 const EXCLUDED_DIRS = new Set([
 	"node_modules",
@@ -12,16 +12,250 @@ const EXCLUDED_DIRS = new Set([
 
 const ENV_FILE_PATTERN = /^\.env(\..+)?$/;
 
+// Directory levels below the repository root searched by default
+export const DEFAULT_ENV_FILE_DEPTH = 2;
+
 interface DiscoveredEnvFile {
 	relativePath: string;
+	// File contents as text, or base64 for files that are not UTF-8 text
+	content: string;
+	encoding: EnvFileEncoding;
+}
+
+export interface DiscoverOptions {
+	// Glob patterns replacing the default .env* match. Patterns without a
+	// slash match the file name at any depth, others the relative path.
+	include?: string[];
+	// Glob patterns, matched the same way, for files to leave out
+	exclude?: string[];
+	depth?: number;
+}
+
+type FileMatcher = (relativePath: string, name: string) => boolean;
+
+function globMatcher(patterns: string[]): FileMatcher {
+	const globs = patterns.map((pattern) => ({
+		glob: new Bun.Glob(pattern),
+		byName: !pattern.includes("/"),
+	}));
+	return (relativePath, name) =>
+		globs.some(({ glob, byName }) =>
+			glob.match(byName ? name : relativePath.split(sep).join("/")),
+		);
+}
+
+function buildMatcher(options: DiscoverOptions): FileMatcher {
+	const included: FileMatcher = options.include
+		? globMatcher(options.include)
+		: (_relativePath, name) => ENV_FILE_PATTERN.test(name);
+	if (!options.exclude || options.exclude.length === 0) return included;
+	const excluded = globMatcher(options.exclude);
+	return (relativePath, name) =>
+		included(relativePath, name) && !excluded(relativePath, name);
+}
+
+// Keeps text files readable in the database and round-trips anything else
+// (certificates, keystores) byte for byte
+function encodeContent(bytes: Uint8Array): {
 	content: string;
+	encoding: EnvFileEncoding;
+} {
+	if (!bytes.includes(0)) {
+		try {
+			return {
+				content: new TextDecoder("utf-8", { fatal: true }).decode(bytes),
+				encoding: "utf8",
+			};
+		} catch {
+			// Not valid UTF-8
+		}
+	}
+	return { content: Buffer.from(bytes).toString("base64"), encoding: "base64" };
+}
+
+// The bytes to write for a stored file
+export function envFileData(file: {
+	content: string;
+	encoding: EnvFileEncoding;
+}): string | Buffer {
+	return file.encoding === "base64"
+		? Buffer.from(file.content, "base64")
+		: file.content;
+}
+
+const PLACEHOLDER_PATTERN = /\$\{(DEVENV_[A-Z0-9_]+)\}/g;
+
+/**
+ * Values for the `${DEVENV_*}` placeholders in an environment's env files:
+ * its name and branch, and the hostname, URL and host port of each
+ * forwarded container port.
+ */
+export function envFileVariables(
+	environment: { name: string; branch: string },
+	portMappings: Pick<PortMapping, "containerPort" | "hostPort" | "hostname">[],
+): Record<string, string> {
+	const variables: Record<string, string> = {
+		DEVENV_ENV_NAME: environment.name,
+		DEVENV_BRANCH: environment.branch,
+	};
+	for (const pm of portMappings) {
+		variables[`DEVENV_HOSTNAME_${pm.containerPort}`] = pm.hostname;
+		variables[`DEVENV_URL_${pm.containerPort}`] = `http://${pm.hostname}`;
+		variables[`DEVENV_HOST_PORT_${pm.containerPort}`] = String(pm.hostPort);
+	}
+	return variables;
+}
+
+/**
+ * Fills in the `${DEVENV_*}` placeholders of a text env file. Placeholders
+ * without a value, such as the URL of a port that is not forwarded, are left
+ * in place and listed in `unresolved`; other `${...}` references are left
+ * for the app's own env loader.
+ */
+export function renderEnvFile(
+	content: string,
+	variables: Record<string, string>,
+): { content: string; unresolved: string[] } {
+	const unresolved = new Set<string>();
+	const rendered = content.replace(
+		PLACEHOLDER_PATTERN,
+		(match, name: string) => {
+			const value = variables[name];
+			if (value === undefined) unresolved.add(name);
+			return value ?? match;
+		},
+	);
+	return { content: rendered, unresolved: [...unresolved] };
+}
+
+// A localhost URL, or bare host and port, not preceded by user info
+const LOCALHOST_PATTERN =
+	/(?<![\w.@-])(?:([a-z][a-z0-9+.-]*):\/\/)?(localhost|127\.0\.0\.1):(\d+)\b/g;
+
+// Proxied schemes; Caddy serves environments over plain HTTP
+const PROXIED_SCHEMES: Record<string, string> = {
+	http: "http",
+	https: "http",
+	ws: "ws",
+	wss: "ws",
+};
+
+// Well-known ports of databases, caches and brokers, which speak their own
+// protocol: a bare `localhost:<port>` on one of them is not an HTTP address
+const NON_HTTP_PORTS = new Set([
+	1433, 1521, 3306, 5432, 5672, 6379, 9042, 9092, 11211, 27017,
+]);
+
+export interface LocalhostRewrite {
+	line: number;
+	from: string;
+	to: string;
+}
+
+/**
+ * Points localhost URLs at the environment's routed hostnames. Only HTTP and
+ * WebSocket URLs, or a bare `localhost:<port>` on a port other than a
+ * well-known database or broker port, on a forwarded container port are
+ * rewritten: other protocols, such as a Postgres URL or `localhost:5432`,
+ * cannot go through the proxy. `hostnames` maps container ports to
+ * hostnames.
+ */
+export function rewriteLocalhostUrls(
+	content: string,
+	hostnames: Record<number, string>,
+): { content: string; rewrites: LocalhostRewrite[] } {
+	const rewrites: LocalhostRewrite[] = [];
+	const lines = content.split("\n").map((text, i) =>
+		text.replace(
+			LOCALHOST_PATTERN,
+			(match, scheme: string | undefined, _host, port: string) => {
+				const hostname = hostnames[Number(port)];
+				if (!hostname) return match;
+				if (scheme === undefined) {
+					if (NON_HTTP_PORTS.has(Number(port))) return match;
+					rewrites.push({ line: i + 1, from: match, to: hostname });
+					return hostname;
+				}
+				const proxied = PROXIED_SCHEMES[scheme.toLowerCase()];
+				if (!proxied) return match;
+				const to = `${proxied}://${hostname}`;
+				rewrites.push({ line: i + 1, from: match, to });
+				return to;
+			},
+		),
+	);
+	return { content: lines.join("\n"), rewrites };
+}
+
+export function localhostHostnames(
+	portMappings: Pick<PortMapping, "containerPort" | "hostname">[],
+): Record<number, string> {
+	return Object.fromEntries(
+		portMappings.map((pm) => [pm.containerPort, pm.hostname]),
+	);
+}
+
+export interface WrittenEnvFile {
+	// Placeholders that had no value
+	unresolved: string[];
+	rewrites: LocalhostRewrite[];
+}
+
+/**
+ * Writes a stored env file into a worktree, rendering its placeholders and,
+ * when `hostnames` is given, rewriting its localhost URLs.
+ */
+export function writeEnvFile(
+	worktreePath: string,
+	file: { relativePath: string; content: string; encoding: EnvFileEncoding },
+	variables: Record<string, string>,
+	hostnames: Record<number, string> | null = null,
+): WrittenEnvFile {
+	const targetPath = join(worktreePath, file.relativePath);
+	mkdirSync(dirname(targetPath), { recursive: true });
+	if (file.encoding !== "utf8") {
+		writeFileSync(targetPath, envFileData(file));
+		return { unresolved: [], rewrites: [] };
+	}
+	const rendered = renderEnvFile(file.content, variables);
+	const rewritten = hostnames
+		? rewriteLocalhostUrls(rendered.content, hostnames)
+		: { content: rendered.content, rewrites: [] };
+	writeFileSync(targetPath, rewritten.content);
+	return { unresolved: rendered.unresolved, rewrites: rewritten.rewrites };
+}
+
+// Report lines for a written file: warnings first, then the rewrites
+export function describeWrittenEnvFile(
+	relativePath: string,
+	written: WrittenEnvFile,
+): { warnings: string[]; changes: string[] } {
+	return {
+		warnings:
+			written.unresolved.length > 0
+				? [
+						`${relativePath}: no value for ${written.unresolved.map((name) => `\${${name}}`).join(", ")}`,
+					]
+				: [],
+		changes: written.rewrites.map(
+			(r) => `${relativePath}:${r.line}: ${r.from} \u2192 ${r.to}`,
+		),
+	};
 }
 
 export async function discoverEnvFiles(
 	dirPath: string,
+	options: DiscoverOptions = {},
 ): Promise<DiscoveredEnvFile[]> {
 	const results: DiscoveredEnvFile[] = [];
-	await walkDir(dirPath, dirPath, 0, results);
+	await walkDir(
+		dirPath,
+		dirPath,
+		0,
+		options.depth ?? DEFAULT_ENV_FILE_DEPTH,
+		buildMatcher(options),
+		results,
+	);
 	return results.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
 }
 
@@ -29,9 +263,11 @@ async function walkDir(
 	basePath: string,
 	currentPath: string,
 	depth: number,
+	maxDepth: number,
+	matches: FileMatcher,
 	results: DiscoveredEnvFile[],
 ): Promise<void> {
-	if (depth > 2) return;
+	if (depth > maxDepth) return;
 
 	let entries: Dirent[];
 	try {
@@ -46,27 +282,21 @@ async function walkDir(
 		const name = entry.name as unknown as string;
 		if (entry.isDirectory()) {
 			if (!EXCLUDED_DIRS.has(name)) {
-				await walkDir(basePath, join(currentPath, name), depth + 1, results);
+				await walkDir(
+					basePath,
+					join(currentPath, name),
+					depth + 1,
+					maxDepth,
+					matches,
+					results,
+				);
 			}
-		} else if (entry.isFile() && ENV_FILE_PATTERN.test(name)) {
+		} else if (entry.isFile()) {
 			const fullPath = join(currentPath, name);
 			const relPath = relative(basePath, fullPath);
-			const content = await Bun.file(fullPath).text();
-			results.push({ relativePath: relPath, content });
+			if (!matches(relPath, name)) continue;
+			const bytes = new Uint8Array(await Bun.file(fullPath).arrayBuffer());
+			results.push({ relativePath: relPath, ...encodeContent(bytes) });
 		}
 	}
 }
-
-export function formatRouteId(envName: string): string {
-	return `devenv-${envName}`;
-}
-
-export function generateHostname(
-	projectName: string,
-	branch: string,
-	port?: number,
-): string {
-	const portSuffix =
-		port !== undefined && port !== DEFAULT_CONTAINER_PORT ? `-${port}` : "";
-	return `${projectName}-${branch}${portSuffix}${LOCALHOST_SUFFIX}`;
-}
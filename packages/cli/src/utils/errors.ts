@@ -0,0 +1,72 @@
+import { DockerError } from "../docker/client.js";
+
+export type ErrorCode =
+	| "USAGE"
+	| "UNKNOWN_COMMAND"
+	| "ENV_NOT_FOUND"
+	| "ENV_AMBIGUOUS"
+	| "ENV_NOT_RUNNING"
+	| "ENV_EXISTS"
+	| "NO_CONTAINER"
+	| "NOT_A_GIT_REPO"
+	| "REF_NOT_FOUND"
+	| "PROJECT_NOT_FOUND"
+	| "INVALID_PROJECT_CONFIG"
+	| "NO_DATABASE"
+	| "SNAPSHOT_NOT_FOUND"
+	| "DOCKER_ERROR"
+	| "INTERNAL";
+
+export class DevenvError extends Error {
+	constructor(
+		public code: ErrorCode,
+		message: string,
+	) {
+		super(message);
+		this.name = "DevenvError";
+	}
+}
+
+export function environmentNotFound(envName: string): DevenvError {
+	return new DevenvError("ENV_NOT_FOUND", `Environment not found: ${envName}`);
+}
+
+export function noContainer(envName: string): DevenvError {
+	return new DevenvError(
+		"NO_CONTAINER",
+		`No container associated with environment: ${envName}`,
+	);
+}
+
+export function environmentNotRunning(
+	envName: string,
+	status: string,
+): DevenvError {
+	return new DevenvError(
+		"ENV_NOT_RUNNING",
+		`Environment is not running (status: ${status}). Start it first with: devenv start ${envName}`,
+	);
+}
+
+export interface ErrorPayload {
+	code: ErrorCode;
+	message: string;
+	statusCode?: number;
+}
+
+export function toErrorPayload(error: unknown): ErrorPayload {
+	if (error instanceof DevenvError) {
+		return { code: error.code, message: error.message };
+	}
+	if (error instanceof DockerError) {
+		return {
+			code: "DOCKER_ERROR",
+			message: error.message,
+			statusCode: error.statusCode,
+		};
+	}
+	return {
+		code: "INTERNAL",
+		message: error instanceof Error ? error.message : String(error),
+	};
+}
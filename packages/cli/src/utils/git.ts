@@ -1,26 +1,107 @@
+import { DevenvError } from "./errors.js";
+
+// Where a worktree's branch came from: an existing local branch, a new local
+// branch tracking origin/<branch>, or a new branch forked from a base ref
+export type WorktreeSource =
+	| { kind: "local"; ref: string }
+	| { kind: "remote"; ref: string }
+	| { kind: "new"; ref: string };
+
+export function describeWorktreeSource(source: WorktreeSource): string {
+	switch (source.kind) {
+		case "local":
+			return `existing branch ${source.ref}`;
+		case "remote":
+			return `tracking ${source.ref}`;
+		case "new":
+			return `new branch from ${source.ref}`;
+	}
+}
+
+async function git(
+	repoPath: string,
+	args: string[],
+): Promise<{ exitCode: number; stdout: string; stderr: string }> {
+	const proc = Bun.spawn(["git", "-C", repoPath, ...args], {
+		stdout: "pipe",
+		stderr: "pipe",
+	});
+	const [stdout, stderr, exitCode] = await Promise.all([
+		new Response(proc.stdout).text(),
+		new Response(proc.stderr).text(),
+		proc.exited,
+	]);
+	return { exitCode, stdout, stderr };
+}
+
+export async function refExists(
+	repoPath: string,
+	ref: string,
+): Promise<boolean> {
+	const { exitCode } = await git(repoPath, [
+		"rev-parse",
+		"--verify",
+		"--quiet",
+		`${ref}^{commit}`,
+	]);
+	return exitCode === 0;
+}
+
+/**
+ * Decides where a worktree for `branch` comes from: the local branch if it
+ * exists, otherwise the fetched `origin/<branch>`, otherwise a new branch
+ * from `baseRef` (default: the repository's HEAD).
+ */
+export async function resolveWorktreeSource(
+	repoPath: string,
+	branch: string,
+	baseRef?: string,
+): Promise<WorktreeSource> {
+	if (await refExists(repoPath, `refs/heads/${branch}`)) {
+		return { kind: "local", ref: branch };
+	}
+	if (await refExists(repoPath, `refs/remotes/origin/${branch}`)) {
+		return { kind: "remote", ref: `origin/${branch}` };
+	}
+	const base = baseRef ?? "HEAD";
+	if (!(await refExists(repoPath, base))) {
+		throw new DevenvError(
+			"REF_NOT_FOUND",
+			`Base ref not found: ${base}. Fetch it first or pick another --base.`,
+		);
+	}
+	return { kind: "new", ref: base };
+}
+
 export async function createWorktree(
 	repoPath: string,
 	branch: string,
 	worktreePath: string,
-): Promise<void> {
-	// Try checking out existing branch first
-	const proc = Bun.spawn(
-		["git", "-C", repoPath, "worktree", "add", worktreePath, branch],
-		{ stdout: "pipe", stderr: "pipe" },
-	);
-	const exitCode = await proc.exited;
-	if (exitCode === 0) return;
+	baseRef?: string,
+): Promise<WorktreeSource> {
+	const source = await resolveWorktreeSource(repoPath, branch, baseRef);
+	let args: string[];
+	switch (source.kind) {
+		case "local":
+			args = ["worktree", "add", worktreePath, branch];
+			break;
+		case "remote":
+			args = ["worktree", "add", "--track", "-b", branch, worktreePath];
+			args.push(source.ref);
+			break;
+		case "new":
+			// --no-track keeps a remote base (e.g. origin/main) from becoming
+			// the new branch's upstream
+			args = ["worktree", "add", "--no-track", "-b", branch, worktreePath];
+			args.push(source.ref);
+			break;
+	}
 
-	// Branch doesn't exist — create it as a new branch
-	const procNew = Bun.spawn(
-		["git", "-C", repoPath, "worktree", "add", "-b", branch, worktreePath],
-		{ stdout: "pipe", stderr: "pipe" },
-	);
-	const exitCodeNew = await procNew.exited;
-	if (exitCodeNew !== 0) {
-		const stderr = await new Response(procNew.stderr).text();
+	const { exitCode, stderr } = await git(repoPath, args);
+	if (exitCode !== 0) {
 		throw new Error(`Failed to create worktree: ${stderr.trim()}`);
 	}
+	return source;
 }
 
 export async function removeWorktree(
@@ -38,6 +119,16 @@ export async function removeWorktree(
 	}
 }
 
+export async function deleteBranch(
+	repoPath: string,
+	branch: string,
+): Promise<void> {
+	const { exitCode, stderr } = await git(repoPath, ["branch", "-D", branch]);
+	if (exitCode !== 0) {
+		throw new Error(`Failed to delete branch: ${stderr.trim()}`);
+	}
+}
+
 export async function listBranches(repoPath: string): Promise<string[]> {
 	const proc = Bun.spawn(
 		["git", "-C", repoPath, "branch", "--format=%(refname:short)"],
@@ -54,3 +145,14 @@ export async function listBranches(repoPath: string): Promise<string[]> {
 		.split("\n")
 		.filter((b) => b.length > 0);
 }
+
+export async function getRepoRoot(cwd: string): Promise<string | null> {
+	const proc = Bun.spawn(["git", "-C", cwd, "rev-parse", "--show-toplevel"], {
+		stdout: "pipe",
+		stderr: "pipe",
+	});
+	const exitCode = await proc.exited;
+	if (exitCode !== 0) return null;
+	const stdout = await new Response(proc.stdout).text();
+	return stdout.trim() || null;
+}
@@ -0,0 +1,74 @@
+// One difference between two JSON values. `before` is absent for added
+// values and `after` for removed ones.
+export interface JsonChange {
+	path: string;
+	before?: unknown;
+	after?: unknown;
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function keyPath(path: string, key: string): string {
+	if (!IDENTIFIER_PATTERN.test(key)) return `${path}[${JSON.stringify(key)}]`;
+	return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Lists the differences between two JSON values, descending into objects
+ * and arrays so each change names the innermost path that differs. Object
+ * key order does not count as a difference; array order does.
+ */
+export function diffJson(
+	before: unknown,
+	after: unknown,
+	path = "",
+): JsonChange[] {
+	if (isObject(before) && isObject(after)) {
+		const keys = [
+			...Object.keys(before),
+			...Object.keys(after).filter((key) => !(key in before)),
+		];
+		return keys.flatMap((key) => {
+			const childPath = keyPath(path, key);
+			if (!(key in after)) return [{ path: childPath, before: before[key] }];
+			if (!(key in before)) return [{ path: childPath, after: after[key] }];
+			return diffJson(before[key], after[key], childPath);
+		});
+	}
+	if (Array.isArray(before) && Array.isArray(after)) {
+		const length = Math.max(before.length, after.length);
+		const changes: JsonChange[] = [];
+		for (let i = 0; i < length; i++) {
+			const childPath = `${path}[${i}]`;
+			if (i >= after.length) {
+				changes.push({ path: childPath, before: before[i] });
+			} else if (i >= before.length) {
+				changes.push({ path: childPath, after: after[i] });
+			} else {
+				changes.push(...diffJson(before[i], after[i], childPath));
+			}
+		}
+		return changes;
+	}
+	return JSON.stringify(before) === JSON.stringify(after)
+		? []
+		: [{ path, before, after }];
+}
+
+// One line per change: `+` added, `-` removed, `~` changed
+export function formatJsonChanges(changes: JsonChange[]): string[] {
+	return changes.map((change) => {
+		const path = change.path || "(root)";
+		if (!("before" in change)) {
+			return `+ ${path}: ${JSON.stringify(change.after)}`;
+		}
+		if (!("after" in change)) {
+			return `- ${path}: ${JSON.stringify(change.before)}`;
+		}
+		return `~ ${path}: ${JSON.stringify(change.before)} → ${JSON.stringify(change.after)}`;
+	});
+}
@@ -0,0 +1,156 @@
+import {
+	appendFileSync,
+	mkdirSync,
+	readdirSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { DEVENV_DIR, DEVENV_LOGS_DIR } from "@repo/shared";
+import { isJsonOutput } from "./output.js";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+	debug: 0,
+	info: 1,
+	warn: 2,
+	error: 3,
+};
+
+// Log files kept in ~/.devenv/logs; older ones are deleted when a new one
+// is opened
+export const MAX_LOG_FILES = 50;
+
+let consoleLevel: LogLevel = "info";
+let logFilePath: string | null = null;
+let consoleHandler: ((level: LogLevel, message: string) => void) | null = null;
+
+/**
+ * Sets the lowest level written to the terminal. The log file always
+ * receives every level.
+ */
+export function setLogLevel(level: LogLevel): void {
+	consoleLevel = level;
+}
+
+export function getLogLevel(): LogLevel {
+	return consoleLevel;
+}
+
+// Sends terminal output somewhere else, e.g. the status line of the terminal
+// UI. Pass null to restore the default.
+export function setConsoleHandler(
+	handler: ((level: LogLevel, message: string) => void) | null,
+): void {
+	consoleHandler = handler;
+}
+
+export function getLogsDir(): string {
+	return join(homedir(), DEVENV_DIR, DEVENV_LOGS_DIR);
+}
+
+export function getLogFilePath(): string | null {
+	return logFilePath;
+}
+
+function fileTimestamp(date: Date): string {
+	return date.toISOString().replace(/[:.]/g, "-");
+}
+
+/**
+ * Deletes all but the newest `keep` log files. File names start with an ISO
+ * timestamp, so name order is age order.
+ */
+export function pruneLogFiles(dir: string, keep: number): void {
+	let files: string[];
+	try {
+		files = readdirSync(dir).filter((name) => name.endsWith(".log"));
+	} catch {
+		return;
+	}
+	files.sort();
+	for (const name of files.slice(0, Math.max(0, files.length - keep))) {
+		rmSync(join(dir, name), { force: true });
+	}
+}
+
+/**
+ * Starts a log file for this invocation and returns its path. Logging keeps
+ * working without a file if the directory cannot be written.
+ */
+export function openLogFile(
+	command: string,
+	argv: string[],
+	dir: string = getLogsDir(),
+): string | null {
+	const now = new Date();
+	const path = join(
+		dir,
+		`${fileTimestamp(now)}-${command.replace(/[^a-z0-9-]/gi, "_")}-${process.pid}.log`,
+	);
+	try {
+		mkdirSync(dir, { recursive: true });
+		pruneLogFiles(dir, MAX_LOG_FILES - 1);
+		writeFileSync(
+			path,
+			`# devenv ${argv.join(" ")}\n# cwd: ${process.cwd()}\n# started: ${now.toISOString()}\n`,
+		);
+		logFilePath = path;
+	} catch {
+		logFilePath = null;
+	}
+	return logFilePath;
+}
+
+export function closeLogFile(): void {
+	logFilePath = null;
+}
+
+function writeToFile(level: LogLevel, message: string): void {
+	if (!logFilePath) return;
+	const prefix = `${new Date().toISOString()} ${level.toUpperCase().padEnd(5)} `;
+	const lines = message.split("\n").map((line) => prefix + line);
+	try {
+		appendFileSync(logFilePath, `${lines.join("\n")}\n`);
+	} catch {
+		// A full disk or deleted directory must not break the command
+		logFilePath = null;
+	}
+}
+
+function writeToConsole(level: LogLevel, message: string): void {
+	if (LEVEL_ORDER[level] < LEVEL_ORDER[consoleLevel]) return;
+	if (consoleHandler) {
+		consoleHandler(level, message);
+	} else if (level === "info" && !isJsonOutput()) {
+		console.log(message);
+	} else {
+		// Diagnostics, and everything in JSON mode, go to stderr so stdout
+		// carries only command output
+		console.error(message);
+	}
+}
+
+function write(level: LogLevel, message: string): void {
+	writeToFile(level, message);
+	writeToConsole(level, message);
+}
+
+export const log = {
+	// Diagnostic detail, shown with --verbose
+	debug(message: string): void {
+		write("debug", message);
+	},
+	// Progress and results meant for the user; hidden by --quiet
+	info(message = ""): void {
+		write("info", message);
+	},
+	warn(message: string): void {
+		write("warn", `Warning: ${message}`);
+	},
+	error(message: string): void {
+		write("error", message);
+	},
+};
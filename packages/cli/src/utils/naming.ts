@@ -0,0 +1,233 @@
+import { createHash } from "node:crypto";
+import { basename } from "node:path";
+import { DEFAULT_CONTAINER_PORT, LOCALHOST_SUFFIX } from "@repo/shared";
+
+// Longest label DNS allows between two dots
+export const DNS_LABEL_MAX_LENGTH = 63;
+// Leaves room for the branch in environment names and hostnames
+export const PROJECT_NAME_MAX_LENGTH = 32;
+
+const HASH_LENGTH = 6;
+const LABEL_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/;
+
+// Lowercase letters, digits and single dashes, with none at either end
+export function slugify(value: string): string {
+	return value
+		.toLowerCase()
+		.replace(/[^a-z0-9-]/g, "-")
+		.replace(/-+/g, "-")
+		.replace(/^-|-$/g, "");
+}
+
+function shortHash(value: string): string {
+	return createHash("sha256").update(value).digest("hex").slice(0, HASH_LENGTH);
+}
+
+// Ends `slug` with a hash of `key`, keeping the result within `maxLength`
+function withHash(slug: string, key: string, maxLength: number): string {
+	const head = slug.slice(0, maxLength - HASH_LENGTH - 1).replace(/-+$/, "");
+	return head ? `${head}-${shortHash(key)}` : shortHash(key);
+}
+
+/**
+ * Shortens a slug to `maxLength`. A shortened slug ends with a hash of `key`,
+ * the value it was made from, so two long values sharing a prefix still get
+ * different results.
+ */
+export function fitLabel(slug: string, key: string, maxLength: number): string {
+	if (slug === "") return shortHash(key);
+	return slug.length <= maxLength ? slug : withHash(slug, key, maxLength);
+}
+
+export function isValidHostname(hostname: string): boolean {
+	return hostname
+		.split(".")
+		.every(
+			(label) =>
+				label.length <= DNS_LABEL_MAX_LENGTH && LABEL_PATTERN.test(label),
+		);
+}
+
+/**
+ * Names the project for a repository after its directory. When another
+ * repository already has that name, a hash of the path tells them apart.
+ */
+export function projectNameFor(repoPath: string, takenNames: string[]): string {
+	const name = fitLabel(
+		slugify(basename(repoPath)),
+		repoPath,
+		PROJECT_NAME_MAX_LENGTH,
+	);
+	return takenNames.includes(name)
+		? withHash(name, repoPath, PROJECT_NAME_MAX_LENGTH)
+		: name;
+}
+
+export interface NamedEnvironment {
+	name: string;
+	projectId: number;
+	branch: string;
+}
+
+/**
+ * Returns a function naming the environments of a project's branches. A
+ * branch that already has an environment keeps its name. Otherwise the name
+ * is `<project>-<branch>`, unless another branch already maps to it (as
+ * `feature/a` and `feature-a` do), in which case a hash of the branch is
+ * appended. Names handed out by the function count as taken too, so a batch
+ * of branches gets distinct names.
+ */
+export function createEnvironmentNamer(
+	projectName: string,
+	projectId: number | null,
+	environments: NamedEnvironment[],
+): (branch: string) => string {
+	const taken = new Set(environments.map((env) => env.name));
+	const assigned = new Map<string, string>();
+	for (const env of environments) {
+		if (env.projectId === projectId) assigned.set(env.branch, env.name);
+	}
+
+	return (branch) => {
+		const existing = assigned.get(branch);
+		if (existing) return existing;
+
+		const key = `${projectName}/${branch}`;
+		let name = fitLabel(
+			slugify(`${projectName}-${branch}`),
+			key,
+			DNS_LABEL_MAX_LENGTH,
+		);
+		if (taken.has(name)) {
+			name = withHash(
+				slugify(`${projectName}-${branch}`),
+				key,
+				DNS_LABEL_MAX_LENGTH,
+			);
+		}
+		taken.add(name);
+		assigned.set(branch, name);
+		return name;
+	};
+}
+
+// Environment name, then the port alias or non-default port number
+export const DEFAULT_HOSTNAME_TEMPLATE = "{env}-{name}";
+export const HOSTNAME_VARIABLES = [
+	"project",
+	"branch",
+	"env",
+	"port",
+	"name",
+] as const;
+
+const PLACEHOLDER_PATTERN = /\{([^{}]*)\}/g;
+
+// A project's hostname settings; unset fields take the defaults
+export interface HostnameOptions {
+	template?: string;
+	suffix?: string;
+}
+
+export interface HostnameTarget {
+	projectName: string;
+	envName: string;
+	branch: string;
+}
+
+// Returns the problem with a hostname template, or null when it is valid
+export function checkHostnameTemplate(template: string): string | null {
+	const variables = [...template.matchAll(PLACEHOLDER_PATTERN)].map(
+		(match) => match[1] as string,
+	);
+	const unknown = variables.filter(
+		(v) => !(HOSTNAME_VARIABLES as readonly string[]).includes(v),
+	);
+	if (unknown.length > 0) {
+		return `unknown variable {${unknown[0]}}; expected ${HOSTNAME_VARIABLES.map((v) => `{${v}}`).join(", ")}`;
+	}
+	if (!/^[a-z0-9.-]*$/.test(template.replace(PLACEHOLDER_PATTERN, ""))) {
+		return "expected lowercase letters, digits, dashes and dots around the variables";
+	}
+	// Hostnames must differ between environments, projects and ports
+	const has = (v: string) => variables.includes(v);
+	if (!has("env") && !(has("project") && has("branch"))) {
+		return "must include {env}, or both {project} and {branch}";
+	}
+	if (!has("name") && !has("port")) {
+		return "must include {name} or {port}";
+	}
+	return null;
+}
+
+export function checkHostnameSuffix(suffix: string): string | null {
+	return suffix.startsWith(".") && isValidHostname(suffix.slice(1))
+		? null
+		: 'expected a domain starting with a dot, such as ".test"';
+}
+
+// The branch part of the environment name, which is already unique within
+// the project; environments named before that rule fall back to the branch
+function branchLabel(target: HostnameTarget): string {
+	const prefix = `${target.projectName}-`;
+	return target.envName.startsWith(prefix)
+		? target.envName.slice(prefix.length)
+		: slugify(target.branch);
+}
+
+/**
+ * Hostname for one of an environment's ports, rendered from the project's
+ * template. `{name}` is the port alias, or the port number unless it is the
+ * default port, in which case it is empty and the dashes and dots around it
+ * are dropped. Each label is made DNS-safe and fitted to 63 characters.
+ */
+export function generateHostname(
+	target: HostnameTarget,
+	port?: number,
+	portName?: string,
+	options: HostnameOptions = {},
+): string {
+	const values: Record<string, string> = {
+		project: target.projectName,
+		branch: branchLabel(target),
+		env: target.envName,
+		port: String(port ?? DEFAULT_CONTAINER_PORT),
+		name:
+			portName ??
+			(port !== undefined && port !== DEFAULT_CONTAINER_PORT
+				? String(port)
+				: ""),
+	};
+	const rendered = (options.template ?? DEFAULT_HOSTNAME_TEMPLATE).replace(
+		PLACEHOLDER_PATTERN,
+		(match, variable: string) => values[variable] ?? match,
+	);
+	const labels = rendered
+		.split(".")
+		.filter((label) => slugify(label) !== "")
+		.map((label) => fitLabel(slugify(label), label, DNS_LABEL_MAX_LENGTH));
+	return `${labels.join(".")}${options.suffix ?? LOCALHOST_SUFFIX}`;
+}
+
+/**
+ * Turns a hostname stored before names were checked into a valid one. When
+ * the result is already in `takenHostnames`, a hash of the original hostname
+ * is appended.
+ */
+export function repairHostname(
+	hostname: string,
+	takenHostnames: Set<string> = new Set(),
+): string {
+	const label = hostname.endsWith(LOCALHOST_SUFFIX)
+		? hostname.slice(0, -LOCALHOST_SUFFIX.length)
+		: hostname;
+	const slug = slugify(label);
+	const repaired = `${fitLabel(slug, hostname, DNS_LABEL_MAX_LENGTH)}${LOCALHOST_SUFFIX}`;
+	return takenHostnames.has(repaired)
+		? `${withHash(slug, hostname, DNS_LABEL_MAX_LENGTH)}${LOCALHOST_SUFFIX}`
+		: repaired;
+}
+
+export function formatRouteId(envName: string): string {
+	return `devenv-${envName}`;
+}
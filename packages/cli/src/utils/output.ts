@@ -0,0 +1,82 @@
+import type { Environment, PortMapping } from "@repo/shared";
+import type { ErrorPayload } from "./errors.js";
+
+export type OutputMode = "text" | "json";
+
+let outputMode: OutputMode = "text";
+
+export function setOutputMode(mode: OutputMode): void {
+	outputMode = mode;
+}
+
+export function isJsonOutput(): boolean {
+	return outputMode === "json";
+}
+
+export interface JsonSuccess {
+	ok: true;
+	command: string;
+	data: unknown;
+}
+
+export interface JsonFailure {
+	ok: false;
+	command: string | null;
+	error: ErrorPayload;
+	// Log file for this run, for diagnosing the failure
+	logFile: string | null;
+}
+
+export function printJson(document: JsonSuccess | JsonFailure): void {
+	process.stdout.write(`${JSON.stringify(document, null, 2)}\n`);
+}
+
+export interface PortMappingJson {
+	containerPort: number;
+	hostPort: number;
+	hostname: string;
+	url: string;
+}
+
+export interface EnvironmentJson {
+	name: string;
+	branch: string;
+	status: Environment["status"];
+	containerId: string | null;
+	worktreePath: string | null;
+	errorMessage: string | null;
+	createdAt: string;
+	updatedAt: string;
+}
+
+export function toPortMappingJson(
+	pm: Pick<PortMapping, "containerPort" | "hostPort" | "hostname">,
+): PortMappingJson {
+	return {
+		containerPort: pm.containerPort,
+		hostPort: pm.hostPort,
+		hostname: pm.hostname,
+		url: `http://${pm.hostname}`,
+	};
+}
+
+export function toEnvironmentJson(env: Environment): EnvironmentJson {
+	return {
+		name: env.name,
+		branch: env.branch,
+		status: env.status,
+		containerId: env.containerId,
+		worktreePath: env.worktreePath,
+		errorMessage: env.errorMessage,
+		createdAt: env.createdAt,
+		updatedAt: env.updatedAt,
+	};
+}
+
+export function elapsedSeconds(start: number): number {
+	return Math.round((performance.now() - start) / 100) / 10;
+}
+
+export function elapsed(start: number): string {
+	return `${elapsedSeconds(start).toFixed(1)}s`;
+}
@@ -0,0 +1,147 @@
+import type { Database } from "bun:sqlite";
+import { sep } from "node:path";
+import type { Environment, ProjectWithEnvironments } from "@repo/shared";
+import {
+	getAllEnvironments,
+	getProjectsWithEnvironments,
+} from "../db/database.js";
+import { DevenvError, environmentNotFound } from "./errors.js";
+
+function isInside(path: string, dir: string): boolean {
+	return path === dir || path.startsWith(dir.endsWith(sep) ? dir : dir + sep);
+}
+
+// True when every character of `query` appears in `name` in order
+function isSubsequence(query: string, name: string): boolean {
+	let i = 0;
+	for (const char of name) {
+		if (char === query[i]) i++;
+		if (i === query.length) return true;
+	}
+	return query.length === 0;
+}
+
+function ambiguous(query: string, matches: Environment[]): DevenvError {
+	const names = matches.map((env) => `  ${env.name}`).join("\n");
+	return new DevenvError(
+		"ENV_AMBIGUOUS",
+		`"${query}" matches more than one environment:\n${names}\nUse the full environment name.`,
+	);
+}
+
+/**
+ * Finds an environment by exact name, then by name or branch prefix, then by
+ * fuzzy (in-order characters) match. Throws when a tier matches more than one
+ * environment.
+ */
+export function matchEnvironment(
+	environments: Environment[],
+	query: string,
+): Environment {
+	const exact = environments.find((env) => env.name === query);
+	if (exact) return exact;
+
+	const tiers = [
+		environments.filter(
+			(env) => env.name.startsWith(query) || env.branch.startsWith(query),
+		),
+		environments.filter((env) => isSubsequence(query, env.name)),
+	];
+	for (const matches of tiers) {
+		if (matches.length === 1) return matches[0] as Environment;
+		if (matches.length > 1) throw ambiguous(query, matches);
+	}
+
+	throw environmentNotFound(query);
+}
+
+/**
+ * Finds the environment whose worktree contains `path`. Inside a project's
+ * main repository, picks the project's only environment.
+ */
+export function findEnvironmentForPath(
+	projects: ProjectWithEnvironments[],
+	path: string,
+): Environment | null {
+	let best: Environment | null = null;
+	for (const project of projects) {
+		for (const env of project.environments) {
+			if (
+				env.worktreePath &&
+				isInside(path, env.worktreePath) &&
+				env.worktreePath.length > (best?.worktreePath?.length ?? 0)
+			) {
+				best = env;
+			}
+		}
+	}
+	if (best) return best;
+
+	const project = projects
+		.filter((p) => isInside(path, p.repoPath))
+		.sort((a, b) => b.repoPath.length - a.repoPath.length)[0];
+	if (!project) return null;
+
+	if (project.environments.length === 1) {
+		return project.environments[0] as Environment;
+	}
+	if (project.environments.length === 0) {
+		throw new DevenvError(
+			"ENV_NOT_FOUND",
+			`Project "${project.name}" has no environments`,
+		);
+	}
+	throw new DevenvError(
+		"ENV_AMBIGUOUS",
+		`Project "${project.name}" has more than one environment:\n${project.environments.map((env) => `  ${env.name}`).join("\n")}\nPass the environment name.`,
+	);
+}
+
+/**
+ * Resolves the environment a command acts on: matched from `query` when
+ * given, otherwise inferred from the working directory.
+ */
+export function resolveEnvironment(
+	db: Database,
+	query: string | undefined,
+	cwd: string = process.cwd(),
+): Environment {
+	if (query) {
+		return matchEnvironment(getAllEnvironments(db), query);
+	}
+
+	const environment = findEnvironmentForPath(
+		getProjectsWithEnvironments(db),
+		cwd,
+	);
+	if (!environment) {
+		throw new DevenvError(
+			"ENV_NOT_FOUND",
+			"No environment name given and the current directory is not inside a devenv worktree or project",
+		);
+	}
+	return environment;
+}
+
+/**
+ * Resolves the environment for a command that destroys state. Unless
+ * `confirmed`, the environment must be named in full: one picked by prefix,
+ * fuzzy match or the working directory is refused, naming the match.
+ */
+export function resolveEnvironmentExactly(
+	db: Database,
+	query: string | undefined,
+	command: string,
+	confirmed: boolean,
+	cwd: string = process.cwd(),
+): Environment {
+	const environment = resolveEnvironment(db, query, cwd);
+	if (confirmed || query === environment.name) return environment;
+	const source = query
+		? `"${query}" matches`
+		: "The current directory belongs to";
+	throw new DevenvError(
+		"USAGE",
+		`${source} ${environment.name}. Name ${environment.name} in full, or pass --yes to ${command} it.`,
+	);
+}
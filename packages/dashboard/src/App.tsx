@@ -148,6 +148,11 @@ function EnvironmentRow({
 }) {
 	const isRunning = env.status === "running";
 	const isBusy = isStarting || isStopping;
+	const statusColor = isRunning
+		? "#22c55e"
+		: env.status === "error"
+			? "#ef4444"
+			: "#9ca3af";
 
 	return (
 		<div style={styles.envRow}>
@@ -161,13 +166,27 @@ function EnvironmentRow({
 				<span style={styles.envBranch}>{env.branch}</span>
 				<span
 					style={{
-						color: isRunning ? "#22c55e" : "#9ca3af",
+						color: statusColor,
 						marginLeft: 8,
 						fontSize: 13,
 					}}
+					title={env.errorMessage ?? undefined}
 				>
 					{env.status}
 				</span>
+				{env.errorMessage && (
+					<span style={styles.envError} title={env.errorMessage}>
+						{env.errorMessage.split("\n")[0]}
+					</span>
+				)}
+				{env.configDrift && (
+					<span
+						style={styles.envDrift}
+						title={`Run "devenv diff-config ${env.name}" to see the changes and "devenv rebuild ${env.name}" to apply them`}
+					>
+						config changed
+					</span>
+				)}
 			</div>
 			<div style={styles.envActions}>
 				{env.portMappings.map((pm) => (
@@ -256,6 +275,20 @@ const styles: Record<string, React.CSSProperties> = {
 		color: "#818cf8",
 		fontSize: 13,
 	},
+	envError: {
+		color: "#fca5a5",
+		fontSize: 12,
+		marginLeft: 12,
+		maxWidth: 320,
+		overflow: "hidden",
+		textOverflow: "ellipsis",
+		whiteSpace: "nowrap",
+	},
+	envDrift: {
+		color: "#facc15",
+		fontSize: 12,
+		marginLeft: 12,
+	},
 	envActions: {
 		display: "flex",
 		alignItems: "center",
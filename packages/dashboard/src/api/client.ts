@@ -14,7 +14,9 @@ export interface EnvironmentResponse {
 	branch: string;
 	status: string;
 	containerId: string | null;
+	errorMessage: string | null;
 	portMappings: PortMappingResponse[];
+	configDrift: boolean | null;
 }
 
 export interface ProjectResponse {
@@ -32,9 +32,11 @@ export const API_PORT = 9001;
 export const DEVENV_DIR = ".devenv";
 export const DEVENV_WORKTREES_DIR = "worktrees";
 export const DEVENV_DB_FILE = "devenv.db";
+export const DEVENV_LOGS_DIR = "logs";
 export const DEFAULT_CONTAINER_PORT = 3000;
 export const LOCALHOST_SUFFIX = ".localhost";
 export const HOST_PORT_RANGE_START = 49200;
 export const CONTAINER_LABEL_PREFIX = "devenv";
 export const CONTAINER_WORKSPACE_DIR = "/workspace";
 export const CADDY_HOST_GATEWAY = "host.docker.internal";
+export const CACHE_VOLUME_PREFIX = "devenv-cache";
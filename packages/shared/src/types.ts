@@ -11,6 +11,14 @@ export interface Project {
 	updatedAt: string;
 }
 
+// Container resource limits. Unset fields leave the resource unlimited.
+export interface ResourceLimits {
+	cpus?: number;
+	// Docker size string, such as "512m" or "4g"
+	memory?: string;
+	pids?: number;
+}
+
 export interface Environment {
 	id: number;
 	projectId: number;
@@ -20,15 +28,26 @@ export interface Environment {
 	containerId: string | null;
 	worktreePath: string | null;
 	devcontainerConfig: string | null;
+	// JSON of the merged config and added features the container was last
+	// built with; null for environments built before it was recorded
+	appliedConfig: string | null;
+	// Why the environment is in the "error" status
+	errorMessage: string | null;
+	// Limits set for this environment, overriding project and global ones
+	resourceLimits: ResourceLimits;
 	createdAt: string;
 	updatedAt: string;
 }
 
+// "base64" holds files that are not UTF-8 text, such as binary certificates
+export type EnvFileEncoding = "utf8" | "base64";
+
 export interface EnvFile {
 	id: number;
 	environmentId: number;
 	relativePath: string;
 	content: string;
+	encoding: EnvFileEncoding;
 }
 
 export interface PortMapping {